@@ -1,5 +1,5 @@
 #!/usr/bin/env bash
 set -euo pipefail
 
-echo "voice-to-text addon installed (config scaffolding only)."
-echo "Set STT_* vars in .env, then wire the transcription tool handler in your runner."
+echo "voice-to-text addon installed."
+echo "Set STT_* and WHISPER_CPP_MODEL in .env, and install whisper.cpp (whisper-cli) and ffmpeg on the host."
@@ -5,7 +5,7 @@
 
 import { query, type SDKMessage, type SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
 import { createIpcMcpServer } from './ipc-mcp.js';
-import { ensurePlanBlock } from './plan-contract.js';
+import { ensurePlanBlock, rejectUnknownActionTypes } from './plan-contract.js';
 
 interface ContainerInput {
   prompt: string;
@@ -181,6 +181,11 @@ async function main(): Promise<void> {
 
     if (result) {
       result = ensurePlanBlock(result);
+      const checked = rejectUnknownActionTypes(result);
+      if (checked.rejected.length > 0) {
+        log(`Dropped plan actions with unknown types: ${checked.rejected.join(', ')}`);
+        result = checked.text;
+      }
     }
 
     log('Agent completed successfully');
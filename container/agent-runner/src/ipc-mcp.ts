@@ -159,7 +159,13 @@ async function handleTaskAction(
 }
 
 async function handleRegisterGroup(
-  args: { jid: string; name: string; folder: string; trigger: string },
+  args: {
+    jid: string;
+    name: string;
+    folder: string;
+    trigger: string;
+    requires_trigger?: boolean;
+  },
   ctx: { isMain: boolean },
 ): Promise<CallToolResult> {
   if (!ctx.isMain) {
@@ -172,6 +178,7 @@ async function handleRegisterGroup(
     name: args.name,
     folder: args.folder,
     trigger: args.trigger,
+    requiresTrigger: args.requires_trigger,
     timestamp: new Date().toISOString(),
   };
 
@@ -238,6 +245,7 @@ export function createIpcMcpServer(
       name: z.string(),
       folder: z.string(),
       trigger: z.string(),
+      requires_trigger: z.boolean().optional(),
     },
     async (args) => handleRegisterGroup(args, { isMain: ctx.isMain }),
   );
@@ -1,3 +1,5 @@
+import planSchema from './plan.schema.json' with { type: 'json' };
+
 const PLAN_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/i;
 
 export function extractPlanBlock(text: string): string | null {
@@ -6,6 +8,14 @@ export function extractPlanBlock(text: string): string | null {
   return match[1].trim();
 }
 
+/**
+ * Action types the host accepts. plan.schema.json is generated from the
+ * host's src/plan-schema.ts by `npm run schema:plan`; do not edit it here.
+ */
+export const ACTION_TYPES: string[] = planSchema.properties.actions.items.oneOf.map(
+  (action) => action.properties.type.const,
+);
+
 export function hasValidPlan(text: string): boolean {
   const jsonText = extractPlanBlock(text);
   if (!jsonText) return false;
@@ -23,3 +33,32 @@ export function ensurePlanBlock(text: string): string {
   if (!text || text.trim().length === 0) return suffix;
   return `${text.trim()}\n\n${suffix}`;
 }
+
+/**
+ * Remove actions whose type the host does not accept from the plan block,
+ * since the host rejects a whole plan over one unknown type. Returns the
+ * rewritten text and the rejected types (for logging).
+ */
+export function rejectUnknownActionTypes(text: string): { text: string; rejected: string[] } {
+  const jsonText = extractPlanBlock(text);
+  if (!jsonText) return { text, rejected: [] };
+  let parsed: { actions?: unknown[] };
+  try {
+    parsed = JSON.parse(jsonText) as { actions?: unknown[] };
+  } catch {
+    return { text, rejected: [] };
+  }
+  if (!Array.isArray(parsed.actions)) return { text, rejected: [] };
+
+  const rejected: string[] = [];
+  const actions = parsed.actions.filter((action) => {
+    const type = (action as { type?: unknown } | null)?.type;
+    if (typeof type === 'string' && ACTION_TYPES.includes(type)) return true;
+    rejected.push(String(type));
+    return false;
+  });
+  if (rejected.length === 0) return { text, rejected };
+
+  const block = `\`\`\`json\n${JSON.stringify({ ...parsed, actions }, null, 2)}\n\`\`\``;
+  return { text: text.replace(PLAN_BLOCK_REGEX, () => block), rejected };
+}
@@ -39,6 +39,25 @@ export class JobsDatabase {
       )
     `);
 
+    // Nonces of verified approvals, kept until the approval would expire
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS used_nonces (
+        nonce TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_used_nonces_expires_at ON used_nonces(expires_at)`,
+    );
+
+    // Ids of accepted dispatches, kept until the acceptance window closes
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS seen_dispatches (
+        dispatch_id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)`);
     this.db.run(
       `CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at)`,
@@ -99,6 +118,38 @@ export class JobsDatabase {
     (this.db as any).run(sql, ...values);
   }
 
+  /**
+   * Record an approval nonce until expiresAt (ms since epoch). Returns false
+   * when it was already recorded. Expired nonces are deleted first.
+   */
+  claimNonce(nonce: string, expiresAt: number): boolean {
+    this.db
+      .prepare('DELETE FROM used_nonces WHERE expires_at <= ?')
+      .run(Date.now());
+    const result = this.db
+      .prepare(
+        'INSERT OR IGNORE INTO used_nonces (nonce, expires_at) VALUES (?, ?)',
+      )
+      .run(nonce, expiresAt);
+    return result.changes === 1;
+  }
+
+  /**
+   * Record a dispatch id until expiresAt (ms since epoch). Returns false when
+   * it was already seen. Expired ids are deleted first.
+   */
+  claimDispatchId(dispatchId: string, expiresAt: number): boolean {
+    this.db
+      .prepare('DELETE FROM seen_dispatches WHERE expires_at <= ?')
+      .run(Date.now());
+    const result = this.db
+      .prepare(
+        'INSERT OR IGNORE INTO seen_dispatches (dispatch_id, expires_at) VALUES (?, ?)',
+      )
+      .run(dispatchId, expiresAt);
+    return result.changes === 1;
+  }
+
   private rowToJob(row: Record<string, unknown>): Job {
     return {
       id: row.id as string,
@@ -3,31 +3,77 @@
  * Executes approved actions via SSH with restricted keys
  */
 
-import { createHmac } from 'crypto';
+import {
+  ApprovalSigner,
+  applyObsidianPatch,
+  checkWebUrl,
+  fetchWithSafeRedirects,
+  hashNoteContent,
+  parseCommand,
+  resolveNotePath,
+  type ObsidianPatchMode,
+  type UrlCheck,
+} from '@openclaw/shared';
+import { createHmac, randomUUID } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { Route } from 'playwright';
 import { RunJobRequestSchema, type Action, type Job } from './types.js';
 import { JobsDatabase } from './db.js';
+import { loadSshTargets, type SshTarget } from './ssh-targets.js';
 
 // Environment configuration
 const PORT = parseInt(process.env.PORT || '8080');
 const SHARED_SECRET = process.env.OPS_RUNNER_SHARED_SECRET!;
 const SSH_KEY_PATH = process.env.SSH_KEY_PATH || '/app/keys/aiops';
+const APPROVAL_PUBLIC_KEY_PATH =
+  process.env.APPROVAL_PUBLIC_KEY_PATH || '/app/keys/approval.pub';
 const SSH_USER = process.env.SSH_USER || 'aiops';
-const TARGET_WILLIAM_IP = process.env.TARGET_WILLIAM_IP || '100.70.173.74';
-const TARGET_UBUNTU_IP = process.env.TARGET_UBUNTU_IP || '100.108.37.10';
+const SSH_TARGETS_PATH =
+  process.env.SSH_TARGETS_PATH || '/app/config/ssh-targets.json';
 const DEFAULT_TIMEOUT = parseInt(process.env.DEFAULT_TIMEOUT || '60');
 const WEBHOOK_SECRET = process.env.OPS_RUNNER_WEBHOOK_SECRET || '';
+// Signed dispatches older (or further in the future) than this are refused;
+// dispatch ids are remembered this long to refuse replays
+const DISPATCH_MAX_AGE_SECONDS = process.env.DISPATCH_MAX_AGE_SECONDS || '300';
+const DISPATCH_MAX_AGE_MS = Number(DISPATCH_MAX_AGE_SECONDS) * 1000;
 const SSH_STRICT_HOST_KEY_CHECKING =
   process.env.SSH_STRICT_HOST_KEY_CHECKING || 'accept-new';
+const OBSIDIAN_VAULT_PATH = process.env.OBSIDIAN_VAULT_PATH || '';
+const FILE_READ_MAX_BYTES = parseInt(
+  process.env.FILE_READ_MAX_BYTES || '65536',
+);
 
 if (!SHARED_SECRET) {
   throw new Error('OPS_RUNNER_SHARED_SECRET required');
 }
 
-// Target IP mapping
-const TARGET_IPS: Record<string, string> = {
-  william: TARGET_WILLIAM_IP,
-  'willy-ubuntu': TARGET_UBUNTU_IP,
-};
+// A window that is not a positive number would refuse every dispatch
+if (!/^\d+$/.test(DISPATCH_MAX_AGE_SECONDS) || DISPATCH_MAX_AGE_MS <= 0) {
+  throw new Error(
+    `DISPATCH_MAX_AGE_SECONDS must be a positive whole number of seconds, got "${DISPATCH_MAX_AGE_SECONDS}"`,
+  );
+}
+
+// Target registry (legacy TARGET_*_IP env vars when no registry file exists)
+const SSH_TARGETS = new Map<string, SshTarget>(
+  loadSshTargets(SSH_TARGETS_PATH, [
+    {
+      name: 'william',
+      host: process.env.TARGET_WILLIAM_IP || '100.70.173.74',
+      tags: [],
+      allowlist: [],
+      readablePaths: [],
+    },
+    {
+      name: 'willy-ubuntu',
+      host: process.env.TARGET_UBUNTU_IP || '100.108.37.10',
+      tags: [],
+      allowlist: [],
+      readablePaths: [],
+    },
+  ]).map((target) => [target.name, target]),
+);
 
 // Initialize database
 const db = new JobsDatabase();
@@ -42,6 +88,23 @@ try {
   process.exit(1);
 }
 
+// Verifies the gateway's signed approvals; used nonces live in SQLite so a
+// replayed approval is refused across restarts
+const approvalPublicKey = await Bun.file(APPROVAL_PUBLIC_KEY_PATH)
+  .text()
+  .catch(() => null);
+if (!approvalPublicKey) {
+  console.error(
+    `❌ Approval public key not found: ${APPROVAL_PUBLIC_KEY_PATH}`,
+  );
+  console.error('Generate with: ./scripts/generate-approval-key.sh');
+  process.exit(1);
+}
+const approvalVerifier = new ApprovalSigner(
+  { publicKey: approvalPublicKey },
+  { claim: (nonce, expiresAt) => db.claimNonce(nonce, expiresAt) },
+);
+
 // ============================================================================
 // HTTP Server
 // ============================================================================
@@ -77,10 +140,14 @@ const server = Bun.serve({
 
 console.log(`🚀 Ops Runner listening on port ${PORT}`);
 console.log(
-  `   Targets: william (${TARGET_WILLIAM_IP}), willy-ubuntu (${TARGET_UBUNTU_IP})`,
+  `   Targets: ${[...SSH_TARGETS.values()]
+    .map((target) => `${target.name} (${target.host})`)
+    .join(', ')}`,
 );
 console.log(`   SSH Key: ${SSH_KEY_PATH}`);
+console.log(`   Approval key: ${APPROVAL_PUBLIC_KEY_PATH}`);
 console.log(`   Webhook signing: ${WEBHOOK_SECRET ? 'enabled' : 'disabled'}`);
+console.log(`   Dispatch window: ${DISPATCH_MAX_AGE_MS / 1000}s`);
 
 // ============================================================================
 // Request Handlers
@@ -99,7 +166,7 @@ async function handleRunJob(request: Request): Promise<Response> {
       );
     }
 
-    const { jobId, sharedSecret } = parseResult.data;
+    const { jobId, sharedSecret, approval } = parseResult.data;
 
     // Verify shared secret
     if (sharedSecret !== SHARED_SECRET) {
@@ -124,6 +191,33 @@ async function handleRunJob(request: Request): Promise<Response> {
       );
     }
 
+    // Verify the signed approval covers this job, approver and plan
+    if (job.approvedBy && approval.userId !== job.approvedBy) {
+      console.error(`❌ Approval for job ${jobId} names a different approver`);
+      return jsonResponse(
+        { success: false, error: 'Approval was signed for another approver' },
+        403,
+      );
+    }
+    const approvalCheck = approvalVerifier.verifyApproval(approval, {
+      jobId,
+      plan: job.plan,
+    });
+    if (!approvalCheck.ok) {
+      console.error(
+        `❌ Approval rejected for job ${jobId}: ${approvalCheck.reason}`,
+      );
+      return jsonResponse({ success: false, error: approvalCheck.reason }, 403);
+    }
+    const autoRefusal =
+      approval.mode === 'auto' ? autoApprovalRefusal(job) : null;
+    if (autoRefusal) {
+      console.error(
+        `❌ Auto approval rejected for job ${jobId}: ${autoRefusal}`,
+      );
+      return jsonResponse({ success: false, error: autoRefusal }, 403);
+    }
+
     console.log(`▶️ Executing job ${jobId}: ${job.plan.summary}`);
 
     // Execute actions
@@ -158,6 +252,30 @@ async function handleRunJob(request: Request): Promise<Response> {
   }
 }
 
+/**
+ * An 'auto' approval only stands in for a human one when the gateway's
+ * policy cleared every action: no action may ask for approval, and only
+ * plain SSH commands (no shell syntax) run unattended.
+ */
+function autoApprovalRefusal(job: Job): string | null {
+  if (job.requiresApproval) {
+    return 'Job requires a human approval';
+  }
+  for (const [i, action] of job.plan.actions.entries()) {
+    if (action.requiresApproval) {
+      return `Action ${i + 1} requires a human approval`;
+    }
+    if (action.type !== 'ssh') {
+      return `Action ${i + 1} (${action.type}) cannot run without a human approval`;
+    }
+    const parsed = parseCommand(action.command);
+    if (!parsed.ok) {
+      return `Action ${i + 1} cannot run without a human approval: ${parsed.reason}`;
+    }
+  }
+  return null;
+}
+
 interface DispatchRequest {
   event: 'approved_actions.dispatch';
   dispatchId: string;
@@ -168,8 +286,15 @@ interface DispatchRequest {
     target?: string;
     command?: string;
     url?: string;
-    mode?: 'http' | 'browser';
+    mode?: 'http' | 'browser' | ObsidianPatchMode;
     extract?: string;
+    path?: string;
+    offset?: number;
+    length?: number;
+    tailLines?: number;
+    patch?: string;
+    heading?: string;
+    baseHash?: string;
     timeout?: number;
     id?: string;
   }>;
@@ -189,12 +314,33 @@ function verifyDispatchSignature(request: Request, body: string): boolean {
   return actual === expected;
 }
 
+/**
+ * Signing time of a verified dispatch (ms), or null when it falls outside
+ * the acceptance window. Unsigned dispatches count as sent now.
+ */
+function dispatchTimestamp(request: Request): number | null {
+  if (!WEBHOOK_SECRET) return Date.now();
+  const ts = Number(request.headers.get('x-nanoclaw-signature-ts'));
+  if (!Number.isFinite(ts)) return null;
+  return Math.abs(Date.now() - ts) <= DISPATCH_MAX_AGE_MS ? ts : null;
+}
+
 async function handleDispatch(request: Request): Promise<Response> {
   try {
     const rawBody = await request.text();
     if (!verifyDispatchSignature(request, rawBody)) {
       return jsonResponse({ success: false, error: 'Invalid signature' }, 401);
     }
+    const signedAt = dispatchTimestamp(request);
+    if (signedAt === null) {
+      return jsonResponse(
+        {
+          success: false,
+          error: 'Signature timestamp outside the acceptance window',
+        },
+        401,
+      );
+    }
 
     const body = JSON.parse(rawBody) as DispatchRequest;
     if (
@@ -205,6 +351,18 @@ async function handleDispatch(request: Request): Promise<Response> {
       return jsonResponse({ success: false, error: 'Invalid dispatch payload' }, 400);
     }
 
+    // The id is covered by the signature; seeing it twice means a replay
+    if (!db.claimDispatchId(body.dispatchId, signedAt + DISPATCH_MAX_AGE_MS)) {
+      console.error(`❌ Dispatch ${body.dispatchId} replayed, refusing`);
+      return jsonResponse(
+        {
+          success: false,
+          error: `Dispatch ${body.dispatchId} was already received (replay)`,
+        },
+        409,
+      );
+    }
+
     console.log(`▶️ Dispatch ${body.dispatchId}: ${body.actions.length} action(s)`);
 
     const results: ExecutionResult[] = [];
@@ -220,6 +378,28 @@ async function handleDispatch(request: Request): Promise<Response> {
         continue;
       }
 
+      if (action.type === 'obsidian_write') {
+        results.push(
+          await executeObsidianAction(
+            action as DispatchObsidianWriteAction,
+            Date.now(),
+            new Date().toISOString(),
+          ),
+        );
+        continue;
+      }
+
+      if (action.type === 'file_read') {
+        results.push(
+          await executeFileReadAction(
+            action as DispatchFileReadAction,
+            Date.now(),
+            new Date().toISOString(),
+          ),
+        );
+        continue;
+      }
+
       if (action.type === 'web_fetch') {
         results.push(
           await executeWebFetchAction(
@@ -282,57 +462,44 @@ interface DispatchWebFetchAction {
   timeout?: number;
 }
 
+interface DispatchObsidianWriteAction {
+  id?: string;
+  type: 'obsidian_write';
+  path: string;
+  patch: string;
+  mode?: ObsidianPatchMode;
+  heading?: string;
+  /** Note hash when the action was proposed; the write is refused when missing or on mismatch. */
+  baseHash?: string;
+}
+
+interface DispatchFileReadAction {
+  id?: string;
+  type: 'file_read';
+  target?: string;
+  path?: string;
+  offset?: number;
+  length?: number;
+  tailLines?: number;
+  timeout?: number;
+}
+
 const WEB_FETCH_ALLOWLIST = (process.env.WEB_FETCH_ALLOWLIST || '')
   .split(',')
   .map((v) => v.trim().toLowerCase())
   .filter(Boolean);
 
-function isPrivateHostname(hostname: string): boolean {
-  const lower = hostname.toLowerCase();
-  return (
-    lower === 'localhost' ||
-    lower.endsWith('.local') ||
-    lower.endsWith('.internal') ||
-    lower === 'metadata.google.internal'
+/** checkWebUrl plus the optional WEB_FETCH_ALLOWLIST domain restriction. */
+async function checkFetchUrl(url: string): Promise<UrlCheck> {
+  const check = await checkWebUrl(url);
+  if (!check.ok || WEB_FETCH_ALLOWLIST.length === 0) return check;
+  const host = check.url.hostname.toLowerCase();
+  const allowed = WEB_FETCH_ALLOWLIST.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`),
   );
-}
-
-function isPrivateIpv4(hostname: string): boolean {
-  if (!/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) return false;
-  const [a, b] = hostname.split('.').map(Number);
-  if (a === 10 || a === 127 || a === 0) return true;
-  if (a === 169 && b === 254) return true;
-  if (a === 172 && b >= 16 && b <= 31) return true;
-  if (a === 192 && b === 168) return true;
-  return false;
-}
-
-function isPrivateIpv6(hostname: string): boolean {
-  const lower = hostname.toLowerCase();
-  return lower === '::1' || lower.startsWith('fe80:') || lower.startsWith('fc') || lower.startsWith('fd');
-}
-
-function isAllowedWebUrl(url: string): boolean {
-  let parsed: URL;
-  try {
-    parsed = new URL(url);
-  } catch {
-    return false;
-  }
-
-  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
-  const host = parsed.hostname.trim().toLowerCase();
-  if (!host) return false;
-  if (host === '169.254.169.254') return false;
-  if (isPrivateHostname(host)) return false;
-  if (isPrivateIpv4(host) || isPrivateIpv6(host)) return false;
-
-  if (WEB_FETCH_ALLOWLIST.length > 0) {
-    const allowed = WEB_FETCH_ALLOWLIST.some((domain) => host === domain || host.endsWith(`.${domain}`));
-    if (!allowed) return false;
-  }
-
-  return true;
+  return allowed
+    ? check
+    : { ok: false, reason: `Host ${host} is not in WEB_FETCH_ALLOWLIST` };
 }
 
 async function executeAction(action: Action): Promise<ExecutionResult> {
@@ -378,8 +545,8 @@ async function executeSSHAction(
     };
   }
 
-  const targetIp = TARGET_IPS[action.target];
-  if (!targetIp) {
+  const target = SSH_TARGETS.get(action.target);
+  if (!target) {
     return {
       actionId: action.id || 'unknown',
       stdout: '',
@@ -394,44 +561,11 @@ async function executeSSHAction(
 
   try {
     console.log(`  🔹 SSH ${action.target}: ${action.command}`);
-
-    // Build SSH command with restricted options
-    const sshCmd = [
-      'ssh',
-      '-i',
-      SSH_KEY_PATH,
-      '-o',
-      `StrictHostKeyChecking=${SSH_STRICT_HOST_KEY_CHECKING}`,
-      '-o',
-      'BatchMode=yes',
-      '-o',
-      'ConnectTimeout=10',
-      '-o',
-      'ServerAliveInterval=5',
-      '-o',
-      'ServerAliveCountMax=3',
-      '-T', // No pseudo-terminal
-      '-n', // No stdin
-      `${SSH_USER}@${targetIp}`,
+    const { stdout, stderr, exitCode } = await runSshCommand(
+      target,
       action.command,
-    ];
-
-    // Execute with timeout using Bun's shell
-    const proc = Bun.spawn(sshCmd, {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    });
-
-    // Set timeout
-    const timeoutId = setTimeout(() => {
-      proc.kill('SIGTERM');
-    }, timeout * 1000);
-
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    const exitCode = await proc.exited;
-
-    clearTimeout(timeoutId);
+      timeout,
+    );
 
     return {
       actionId: action.id || 'unknown',
@@ -453,6 +587,138 @@ async function executeSSHAction(
   }
 }
 
+async function runSshCommand(
+  target: SshTarget,
+  command: string,
+  timeout: number,
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  // Build SSH command with restricted options
+  const sshCmd = [
+    'ssh',
+    '-i',
+    target.keyPath || SSH_KEY_PATH,
+    '-o',
+    `StrictHostKeyChecking=${SSH_STRICT_HOST_KEY_CHECKING}`,
+    '-o',
+    'BatchMode=yes',
+    '-o',
+    'ConnectTimeout=10',
+    '-o',
+    'ServerAliveInterval=5',
+    '-o',
+    'ServerAliveCountMax=3',
+    '-T', // No pseudo-terminal
+    '-n', // No stdin
+    `${target.user || SSH_USER}@${target.host}`,
+    command,
+  ];
+
+  // Execute with timeout using Bun's shell
+  const proc = Bun.spawn(sshCmd, {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  // Set timeout
+  const timeoutId = setTimeout(() => {
+    proc.kill('SIGTERM');
+  }, timeout * 1000);
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+
+  clearTimeout(timeoutId);
+  return { stdout, stderr, exitCode };
+}
+
+/** Same rule as the core app: an entry allows itself and anything below it. */
+function isReadablePath(target: SshTarget, filePath: string): boolean {
+  if (!filePath.startsWith('/')) return false;
+  if (filePath.split('/').some((segment, i) => i > 0 && ['', '.', '..'].includes(segment))) {
+    return false;
+  }
+  return target.readablePaths.some((entry) => {
+    const root = entry.replace(/\/+$/, '');
+    return filePath === root || filePath.startsWith(`${root}/`);
+  });
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the remote read command. Output is always piped through head so no
+ * more than FILE_READ_MAX_BYTES + 1 bytes cross the wire; the extra byte
+ * tells us the result was truncated.
+ */
+function buildFileReadCommand(action: DispatchFileReadAction, filePath: string): string {
+  const quoted = shellQuote(filePath);
+  let reader = `cat -- ${quoted}`;
+  let limit = FILE_READ_MAX_BYTES + 1;
+  if (action.tailLines !== undefined) {
+    reader = `tail -n ${action.tailLines} -- ${quoted}`;
+  } else if (action.offset !== undefined || action.length !== undefined) {
+    reader = `tail -c +${(action.offset ?? 0) + 1} -- ${quoted}`;
+    if (action.length !== undefined) limit = Math.min(action.length, limit);
+  }
+  return `test -r ${quoted} && ${reader} | head -c ${limit}`;
+}
+
+async function executeFileReadAction(
+  action: DispatchFileReadAction,
+  startTime: number,
+  executedAt: string,
+): Promise<ExecutionResult> {
+  const fail = (stderr: string): ExecutionResult => ({
+    actionId: action.id || 'unknown',
+    stdout: '',
+    stderr,
+    exitCode: 1,
+    executedAt,
+    durationMs: Date.now() - startTime,
+  });
+
+  const filePath = (action.path || '').trim();
+  const target = action.target ? SSH_TARGETS.get(action.target) : undefined;
+  if (!target) return fail(`Unknown target: ${action.target}`);
+  if (!isReadablePath(target, filePath)) {
+    return fail(`Path not readable on ${target.name}: ${filePath}`);
+  }
+  for (const field of ['offset', 'length', 'tailLines'] as const) {
+    const value = action[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return fail(`Invalid ${field}: ${value}`);
+    }
+  }
+
+  try {
+    console.log(`  🔹 Read ${target.name}: ${filePath}`);
+    const { stdout, stderr, exitCode } = await runSshCommand(
+      target,
+      buildFileReadCommand(action, filePath),
+      action.timeout || DEFAULT_TIMEOUT,
+    );
+    const bytes = Buffer.from(stdout);
+    const output =
+      bytes.length > FILE_READ_MAX_BYTES
+        ? `${bytes.subarray(0, FILE_READ_MAX_BYTES).toString()}\n[truncated at ${FILE_READ_MAX_BYTES} bytes]`
+        : stdout;
+
+    return {
+      actionId: action.id || 'unknown',
+      stdout: output,
+      stderr: (stderr || (exitCode !== 0 ? `Cannot read ${filePath}` : '')).slice(0, 10000),
+      exitCode,
+      executedAt,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'File read failed');
+  }
+}
+
 async function executeWebFetchAction(
   action: DispatchWebFetchAction,
   startTime: number,
@@ -473,11 +739,12 @@ async function executeWebFetchAction(
     };
   }
 
-  if (!isAllowedWebUrl(url)) {
+  const check = await checkFetchUrl(url);
+  if (!check.ok) {
     return {
       actionId: action.id || 'unknown',
       stdout: '',
-      stderr: 'URL blocked by web fetch safety policy',
+      stderr: `URL blocked by web fetch safety policy: ${check.reason}`,
       exitCode: 1,
       executedAt,
       durationMs: Date.now() - startTime,
@@ -497,13 +764,16 @@ async function executeWebFetchAction(
       };
     }
 
-    const response = await fetch(url, {
-      signal: AbortSignal.timeout(timeoutMs),
-      redirect: 'follow',
-      headers: {
-        'user-agent': 'nanoclaw-ops-runner/1.0',
+    const response = await fetchWithSafeRedirects(
+      url,
+      {
+        signal: AbortSignal.timeout(timeoutMs),
+        headers: {
+          'user-agent': 'nanoclaw-ops-runner/1.0',
+        },
       },
-    });
+      { check: checkFetchUrl },
+    );
     const body = (await response.text()).slice(0, 12000);
     const stdout = [
       `url=${url}`,
@@ -549,6 +819,16 @@ async function executeBrowserFetch(url: string, timeoutMs: number): Promise<stri
     });
     try {
       const context = await browser.newContext();
+      // Every request the page makes, redirects and subresources included,
+      // gets the same resolution check as the top-level URL.
+      await context.route('**/*', async (route: Route) => {
+        const check = await checkFetchUrl(route.request().url());
+        if (check.ok) {
+          await route.continue();
+        } else {
+          await route.abort('blockedbyclient');
+        }
+      });
       const page = await context.newPage();
       await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
       const title = await page.title();
@@ -576,21 +856,99 @@ async function executeBrowserFetch(url: string, timeoutMs: number): Promise<stri
   }
 }
 
+// Writes to the same note run one at a time, so two dispatches cannot
+// interleave their hash check and rename.
+const noteWrites = new Map<string, Promise<unknown>>();
+
+function withNoteLock<T>(notePath: string, fn: () => Promise<T>): Promise<T> {
+  const run = (noteWrites.get(notePath) ?? Promise.resolve()).then(fn, fn);
+  const settled = run.catch(() => undefined);
+  noteWrites.set(notePath, settled);
+  void settled.then(() => {
+    if (noteWrites.get(notePath) === settled) noteWrites.delete(notePath);
+  });
+  return run;
+}
+
+async function readNote(notePath: string): Promise<string | null> {
+  try {
+    return await readFile(notePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
 async function executeObsidianAction(
-  action: Extract<Action, { type: 'obsidian_write' }>,
+  action: DispatchObsidianWriteAction,
   startTime: number,
   executedAt: string,
 ): Promise<ExecutionResult> {
-  // Obsidian writes are handled by the gateway
-  // This is a placeholder for future Obsidian API integration
-  return {
+  const result = (stdout: string, stderr = '', exitCode = stderr ? 1 : 0) => ({
     actionId: action.id || 'unknown',
-    stdout: 'Obsidian write handled by gateway',
-    stderr: '',
-    exitCode: 0,
+    stdout,
+    stderr,
+    exitCode,
     executedAt,
     durationMs: Date.now() - startTime,
-  };
+  });
+
+  if (!OBSIDIAN_VAULT_PATH) {
+    return result('', 'OBSIDIAN_VAULT_PATH is not configured on the runner');
+  }
+  const notePath = resolveNotePath(OBSIDIAN_VAULT_PATH, action.path || '');
+  if (!notePath) {
+    return result('', `Note path is outside the vault: ${action.path}`);
+  }
+
+  const baseHash = action.baseHash;
+  if (!baseHash) {
+    return result(
+      '',
+      `Note ${action.path} was not snapshotted when the action was proposed; write refused`,
+    );
+  }
+  const changed = () =>
+    result('', `Note ${action.path} changed since the action was proposed; write refused`);
+
+  return withNoteLock(notePath, async () => {
+    try {
+      const current = await readNote(notePath);
+      if (hashNoteContent(current) !== baseHash) return changed();
+
+      const mode = action.mode || 'append';
+      const patched = applyObsidianPatch(current, {
+        mode,
+        patch: action.patch || '',
+        heading: action.heading,
+      });
+      if ('error' in patched) {
+        return result('', `Patch does not apply: ${patched.error}`);
+      }
+
+      console.log(`  🔹 Obsidian ${mode}: ${action.path}`);
+      await mkdir(dirname(notePath), { recursive: true });
+      // Write to a temp file first so a crash never leaves a half-written note.
+      const tempPath = `${notePath}.nanoclaw-${randomUUID()}.tmp`;
+      await writeFile(tempPath, patched.content, 'utf-8');
+      // Check again right before the rename, so an edit made outside the
+      // runner while the patch was applied is not overwritten.
+      if (hashNoteContent(await readNote(notePath)) !== baseHash) {
+        await rm(tempPath, { force: true });
+        return changed();
+      }
+      await rename(tempPath, notePath);
+
+      return result(
+        `${current === null ? 'Created' : 'Updated'} ${action.path} (${mode}, ${Buffer.byteLength(patched.content)} bytes)`,
+      );
+    } catch (error) {
+      return result(
+        '',
+        error instanceof Error ? error.message : 'Obsidian write failed',
+      );
+    }
+  });
 }
 
 async function executeNotifyAction(
@@ -598,7 +956,8 @@ async function executeNotifyAction(
   startTime: number,
   executedAt: string,
 ): Promise<ExecutionResult> {
-  // Notifications are handled by the gateway
+  // Notifications are delivered by the gateway or NanoClaw core, which own
+  // the chat connections; core never dispatches notify actions here.
   return {
     actionId: action.id || 'unknown',
     stdout: `Notification: ${action.message}`,
@@ -29,7 +29,7 @@ const BaseActionSchema = z.object({
 
 const SSHActionSchema = BaseActionSchema.extend({
   type: z.literal('ssh'),
-  target: z.enum(['william', 'willy-ubuntu']),
+  target: z.string().min(1), // Name from the SSH target registry
   command: z.string().min(1),
 });
 
@@ -119,9 +119,22 @@ export const JobSchema = z.object({
 export type Job = z.infer<typeof JobSchema>;
 
 // API Types
+// Ed25519-signed approval from the gateway, verified by ops-runner
+export const SignedApprovalSchema = z.object({
+  jobId: z.string(),
+  action: z.enum(['approve', 'deny']),
+  mode: z.enum(['human', 'auto']),
+  userId: z.number(),
+  planHash: z.string(),
+  timestamp: z.number(),
+  nonce: z.string(),
+  signature: z.string(),
+});
+
 export const RunJobRequestSchema = z.object({
   jobId: z.string(),
   sharedSecret: z.string(),
+  approval: SignedApprovalSchema,
 });
 
 export type RunJobRequest = z.infer<typeof RunJobRequestSchema>;
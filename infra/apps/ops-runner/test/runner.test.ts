@@ -0,0 +1,354 @@
+import { ApprovalSigner, type SignedApproval } from '@openclaw/shared';
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { createHmac, generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobsDatabase } from '../src/db.js';
+
+const APP_DIR = join(import.meta.dir, '..');
+const SHARED_SECRET = 'runner-test-secret';
+const WEBHOOK_SECRET = 'webhook-test-secret';
+
+const keys = generateKeyPairSync('ed25519', {
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+const gateway = new ApprovalSigner({ privateKey: keys.privateKey });
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'ops-runner-test-'));
+  writeFileSync(join(dir, 'aiops'), 'not used: no test runs ssh');
+  writeFileSync(join(dir, 'approval.pub'), keys.publicKey);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function runnerEnv(overrides: Record<string, string>): Record<string, string> {
+  return {
+    PATH: process.env.PATH ?? '',
+    OPS_RUNNER_SHARED_SECRET: SHARED_SECRET,
+    SSH_KEY_PATH: join(dir, 'aiops'),
+    APPROVAL_PUBLIC_KEY_PATH: join(dir, 'approval.pub'),
+    SSH_TARGETS_PATH: join(dir, 'missing-targets.json'),
+    DB_PATH: join(dir, 'jobs.db'),
+    ...overrides,
+  };
+}
+
+/** Start the runner as its own process and wait until it answers. */
+async function startRunner(
+  overrides: Record<string, string> = {},
+): Promise<{ url: string; stop: () => Promise<void> }> {
+  const port = await freePort();
+  const proc = Bun.spawn(['bun', 'run', 'src/index.ts'], {
+    cwd: APP_DIR,
+    env: runnerEnv({ PORT: String(port), ...overrides }),
+    stdout: 'ignore',
+    stderr: 'ignore',
+  });
+  const url = `http://127.0.0.1:${port}`;
+  const stop = async () => {
+    proc.kill();
+    await proc.exited;
+  };
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    try {
+      if ((await fetch(`${url}/health`)).ok) return { url, stop };
+    } catch {
+      // Not listening yet
+    }
+    await Bun.sleep(100);
+  }
+  await stop();
+  throw new Error('ops-runner did not start');
+}
+
+const PLAN = {
+  version: '1.0',
+  summary: 'Check load',
+  actions: [
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      risk: 'none',
+      requiresApproval: false,
+      reason: 'Check load',
+    },
+  ],
+};
+
+/** Store an approved job the way the gateway does. */
+function insertJob(
+  id: string,
+  fields: { requiresApproval: boolean; approvedBy?: number; plan?: unknown },
+): void {
+  const db = new Database(join(dir, 'jobs.db'));
+  db.prepare(
+    `INSERT INTO jobs (id, created_at, status, requested_by_telegram_user_id,
+       requested_by_first_name, plan_json, requires_approval, approved_by)
+     VALUES (?, ?, 'approved', 42, 'Adam', ?, ?, ?)`,
+  ).run(
+    id,
+    new Date().toISOString(),
+    JSON.stringify(fields.plan ?? PLAN),
+    fields.requiresApproval ? 1 : 0,
+    fields.approvedBy ?? null,
+  );
+  db.close();
+}
+
+interface RunnerReply {
+  status: number;
+  body: {
+    success: boolean;
+    error?: string;
+    dispatchId?: string;
+    results?: unknown[];
+  };
+}
+
+async function runJob(
+  url: string,
+  jobId: string,
+  approval: SignedApproval,
+): Promise<RunnerReply> {
+  const response = await fetch(`${url}/run`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId, sharedSecret: SHARED_SECRET, approval }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('approval nonces', () => {
+  test('a used approval is refused after the database is reopened', () => {
+    const dbPath = join(dir, 'nonces.db');
+    const verifierFor = (db: JobsDatabase) =>
+      new ApprovalSigner(
+        { publicKey: keys.publicKey },
+        { claim: (nonce, expiresAt) => db.claimNonce(nonce, expiresAt) },
+      );
+    const approval = gateway.signApproval(
+      'job-1',
+      'approve',
+      'human',
+      42,
+      PLAN,
+    );
+    const expected = { jobId: 'job-1', plan: PLAN };
+
+    const first = new JobsDatabase(dbPath);
+    expect(verifierFor(first).verifyApproval(approval, expected).ok).toBe(true);
+    first.close();
+
+    const restarted = new JobsDatabase(dbPath);
+    expect(verifierFor(restarted).verifyApproval(approval, expected)).toEqual({
+      ok: false,
+      reason: 'Approval was already used (replay)',
+    });
+    restarted.close();
+  });
+
+  test('expired nonces are deleted when the next one is claimed', () => {
+    const dbPath = join(dir, 'expiry.db');
+    const db = new JobsDatabase(dbPath);
+    expect(db.claimNonce('old', Date.now() - 1000)).toBe(true);
+    expect(db.claimNonce('fresh', Date.now() + 60_000)).toBe(true);
+    expect(db.claimNonce('fresh', Date.now() + 60_000)).toBe(false);
+    db.close();
+
+    const raw = new Database(dbPath);
+    const rows = raw.prepare('SELECT nonce FROM used_nonces').all() as {
+      nonce: string;
+    }[];
+    raw.close();
+    expect(rows.map((row) => row.nonce)).toEqual(['fresh']);
+  });
+});
+
+describe('/run', () => {
+  let runner: { url: string; stop: () => Promise<void> };
+
+  beforeAll(async () => {
+    runner = await startRunner();
+  });
+
+  afterAll(async () => {
+    await runner.stop();
+  });
+
+  test('refuses an auto approval for a job that needs a human', async () => {
+    insertJob('job-human', { requiresApproval: true });
+    const result = await runJob(
+      runner.url,
+      'job-human',
+      gateway.signApproval('job-human', 'approve', 'auto', 42, PLAN),
+    );
+    expect(result).toEqual({
+      status: 403,
+      body: { success: false, error: 'Job requires a human approval' },
+    });
+  });
+
+  test('refuses an auto approval when an action asks for approval', async () => {
+    const plan = {
+      ...PLAN,
+      actions: [{ ...PLAN.actions[0], requiresApproval: true }],
+    };
+    insertJob('job-action', { requiresApproval: false, plan });
+    const result = await runJob(
+      runner.url,
+      'job-action',
+      gateway.signApproval('job-action', 'approve', 'auto', 42, plan),
+    );
+    expect(result).toEqual({
+      status: 403,
+      body: { success: false, error: 'Action 1 requires a human approval' },
+    });
+  });
+
+  test('refuses an approval signed for another approver', async () => {
+    insertJob('job-approver', { requiresApproval: true, approvedBy: 42 });
+    const result = await runJob(
+      runner.url,
+      'job-approver',
+      gateway.signApproval('job-approver', 'approve', 'human', 7, PLAN),
+    );
+    expect(result).toEqual({
+      status: 403,
+      body: {
+        success: false,
+        error: 'Approval was signed for another approver',
+      },
+    });
+  });
+
+  test('refuses a plan changed after approval', async () => {
+    insertJob('job-edited', { requiresApproval: true, approvedBy: 42 });
+    const result = await runJob(
+      runner.url,
+      'job-edited',
+      gateway.signApproval('job-edited', 'approve', 'human', 42, {
+        ...PLAN,
+        summary: 'Something else',
+      }),
+    );
+    expect(result).toEqual({
+      status: 403,
+      body: { success: false, error: 'Plan changed after it was approved' },
+    });
+  });
+});
+
+/** POST a dispatch signed at `signedAt` (ms) the way nanoclaw-core does. */
+async function dispatch(
+  url: string,
+  dispatchId: string,
+  signedAt = Date.now(),
+): Promise<RunnerReply> {
+  const payload = JSON.stringify({
+    event: 'approved_actions.dispatch',
+    dispatchId,
+    dispatchedAt: new Date(signedAt).toISOString(),
+    source: 'nanoclaw-core',
+    actions: [],
+  });
+  const ts = String(signedAt);
+  const signature = createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${ts}.${payload}`)
+    .digest('hex');
+  const response = await fetch(`${url}/dispatch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-nanoclaw-signature-ts': ts,
+      'x-nanoclaw-signature': `sha256=${signature}`,
+    },
+    body: payload,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('/dispatch', () => {
+  let runner: { url: string; stop: () => Promise<void> };
+
+  beforeAll(async () => {
+    runner = await startRunner({
+      OPS_RUNNER_WEBHOOK_SECRET: WEBHOOK_SECRET,
+      DISPATCH_MAX_AGE_SECONDS: '60',
+    });
+  });
+
+  afterAll(async () => {
+    await runner.stop();
+  });
+
+  test('accepts a dispatch id once and refuses it again with 409', async () => {
+    expect(await dispatch(runner.url, 'dispatch-once')).toEqual({
+      status: 200,
+      body: { success: true, dispatchId: 'dispatch-once', results: [] },
+    });
+    expect(await dispatch(runner.url, 'dispatch-once')).toEqual({
+      status: 409,
+      body: {
+        success: false,
+        error: 'Dispatch dispatch-once was already received (replay)',
+      },
+    });
+  });
+
+  test('refuses stale and future signature timestamps', async () => {
+    const outside = {
+      status: 401,
+      body: {
+        success: false,
+        error: 'Signature timestamp outside the acceptance window',
+      },
+    };
+    expect(
+      await dispatch(runner.url, 'dispatch-stale', Date.now() - 61_000),
+    ).toEqual(outside);
+    expect(
+      await dispatch(runner.url, 'dispatch-future', Date.now() + 61_000),
+    ).toEqual(outside);
+    // Refused dispatches do not use up their id
+    expect((await dispatch(runner.url, 'dispatch-stale')).status).toBe(200);
+  });
+});
+
+describe('startup', () => {
+  test.each(['abc', '0', '-5', '1.5'])(
+    'refuses DISPATCH_MAX_AGE_SECONDS=%p',
+    async (value) => {
+      const proc = Bun.spawn(['bun', 'run', 'src/index.ts'], {
+        cwd: APP_DIR,
+        env: runnerEnv({
+          PORT: String(await freePort()),
+          DISPATCH_MAX_AGE_SECONDS: value,
+        }),
+        stdout: 'ignore',
+        stderr: 'pipe',
+      });
+      expect(await proc.exited).not.toBe(0);
+      expect(await new Response(proc.stderr).text()).toContain(
+        `DISPATCH_MAX_AGE_SECONDS must be a positive whole number of seconds, got "${value}"`,
+      );
+    },
+  );
+});
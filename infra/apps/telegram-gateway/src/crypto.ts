@@ -1,178 +1,19 @@
 /**
- * Cryptographic signing for approvals
- * Prevents replay attacks and ensures non-repudiation
+ * Job ids and tamper-evident audit logging
+ * Approval signing and the audit chain rules live in @openclaw/shared
+ * (approval-signer.ts, audit-chain.ts)
  */
 
 import {
-  createHash,
-  createSign,
-  createVerify,
-  generateKeyPairSync,
-} from 'crypto';
+  AUDIT_GENESIS_HASH,
+  type AuditEntry,
+  type AuditVerification,
+  hashAuditEntry,
+  verifyAuditChain,
+} from '@openclaw/shared';
+import type { JobsDatabase } from './db.js';
 
-export interface SignedApproval {
-  jobId: string;
-  action: 'approve' | 'deny';
-  userId: number;
-  timestamp: number;
-  nonce: string;
-  signature: string;
-}
-
-export class ApprovalSigner {
-  private privateKey: string;
-  private publicKey: string;
-  private usedNonces: Set<string> = new Set();
-  private nonceTTL: number = 24 * 60 * 60 * 1000; // 24 hours
-
-  constructor(privateKey?: string, publicKey?: string) {
-    if (privateKey && publicKey) {
-      this.privateKey = privateKey;
-      this.publicKey = publicKey;
-    } else {
-      // Generate new key pair for testing
-      const { privateKey: priv, publicKey: pub } = generateKeyPairSync(
-        'ed25519',
-        {
-          privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
-          publicKeyEncoding: { type: 'spki', format: 'pem' },
-        },
-      );
-      this.privateKey = priv;
-      this.publicKey = pub;
-    }
-  }
-
-  /**
-   * Generate a unique nonce
-   */
-  generateNonce(): string {
-    return createHash('sha256')
-      .update(`${Date.now()}-${Math.random()}`)
-      .digest('hex')
-      .slice(0, 16);
-  }
-
-  /**
-   * Create a signed approval
-   */
-  signApproval(
-    jobId: string,
-    action: 'approve' | 'deny',
-    userId: number,
-  ): SignedApproval {
-    const timestamp = Date.now();
-    const nonce = this.generateNonce();
-
-    const data = this.serializeData(jobId, action, userId, timestamp, nonce);
-
-    const signer = createSign('SHA256');
-    signer.update(data);
-    const signature = signer.sign(this.privateKey, 'base64');
-
-    // Track nonce to prevent replay
-    this.usedNonces.add(nonce);
-    this.cleanupOldNonces();
-
-    return {
-      jobId,
-      action,
-      userId,
-      timestamp,
-      nonce,
-      signature,
-    };
-  }
-
-  /**
-   * Verify a signed approval
-   */
-  verifyApproval(approval: SignedApproval): boolean {
-    // Check for replay attack
-    if (this.usedNonces.has(approval.nonce)) {
-      console.error('❌ Replay attack detected: nonce already used');
-      return false;
-    }
-
-    // Check timestamp (prevent old approvals)
-    const age = Date.now() - approval.timestamp;
-    if (age > this.nonceTTL) {
-      console.error('❌ Approval expired');
-      return false;
-    }
-
-    // Verify signature
-    const data = this.serializeData(
-      approval.jobId,
-      approval.action,
-      approval.userId,
-      approval.timestamp,
-      approval.nonce,
-    );
-
-    const verifier = createVerify('SHA256');
-    verifier.update(data);
-    const isValid = verifier.verify(
-      this.publicKey,
-      approval.signature,
-      'base64',
-    );
-
-    if (isValid) {
-      // Mark nonce as used
-      this.usedNonces.add(approval.nonce);
-    }
-
-    return isValid;
-  }
-
-  /**
-   * Serialize data for signing
-   */
-  private serializeData(
-    jobId: string,
-    action: string,
-    userId: number,
-    timestamp: number,
-    nonce: string,
-  ): string {
-    // Deterministic JSON serialization
-    return JSON.stringify({
-      jobId,
-      action,
-      userId,
-      timestamp,
-      nonce,
-    });
-  }
-
-  /**
-   * Clean up old nonces to prevent memory leak
-   */
-  private cleanupOldNonces(): void {
-    // In production, use Redis or database with TTL
-    // For now, keep only last 10000 nonces
-    if (this.usedNonces.size > 10000) {
-      const toDelete = this.usedNonces.size - 10000;
-      let count = 0;
-      for (const nonce of this.usedNonces) {
-        this.usedNonces.delete(nonce);
-        count++;
-        if (count >= toDelete) break;
-      }
-    }
-  }
-
-  /**
-   * Export keys for persistence
-   */
-  exportKeys(): { privateKey: string; publicKey: string } {
-    return {
-      privateKey: this.privateKey,
-      publicKey: this.publicKey,
-    };
-  }
-}
+export type { AuditEntry, AuditVerification };
 
 /**
  * Job ID generator with collision resistance
@@ -199,63 +40,40 @@ export class JobIdGenerator {
 }
 
 /**
- * Audit logger with tamper detection
+ * Audit logger with tamper detection. Entries go to the audit_log table, each
+ * carrying the previous entry's hash, so an edited, deleted or reordered
+ * entry breaks the chain. `gorky verify-audit` checks it alongside the core
+ * chain.
  */
 export class AuditLogger {
-  private logs: Array<{
-    timestamp: number;
-    event: string;
-    data: any;
-    hash: string;
-  }> = [];
-
-  private previousHash: string = '0'.repeat(64);
+  constructor(private db: JobsDatabase) {}
 
-  log(event: string, data: any): void {
-    const timestamp = Date.now();
-    const entry = JSON.stringify({ timestamp, event, data });
-    const hash = createHash('sha256')
-      .update(this.previousHash + entry)
-      .digest('hex');
-
-    this.logs.push({
-      timestamp,
+  log(event: string, data: Record<string, unknown>): AuditEntry {
+    const last = this.db.getLastAuditEntry();
+    const unhashed = {
+      seq: (last?.seq ?? 0) + 1,
+      timestamp: new Date().toISOString(),
       event,
-      data,
-      hash,
-    });
-
-    this.previousHash = hash;
+      data: JSON.stringify(data),
+    };
+    const prevHash = last?.hash ?? AUDIT_GENESIS_HASH;
+    const entry: AuditEntry = {
+      ...unhashed,
+      prevHash,
+      hash: hashAuditEntry(prevHash, unhashed),
+    };
+    this.db.insertAuditEntry(entry);
+    return entry;
   }
 
   /**
-   * Verify log integrity
+   * Verify log integrity, reporting the first broken link
    */
-  verifyIntegrity(): boolean {
-    let expectedPreviousHash = '0'.repeat(64);
-
-    for (const log of this.logs) {
-      const entry = JSON.stringify({
-        timestamp: log.timestamp,
-        event: log.event,
-        data: log.data,
-      });
-      const expectedHash = createHash('sha256')
-        .update(expectedPreviousHash + entry)
-        .digest('hex');
-
-      if (log.hash !== expectedHash) {
-        console.error(`❌ Log integrity check failed at ${log.timestamp}`);
-        return false;
-      }
-
-      expectedPreviousHash = log.hash;
-    }
-
-    return true;
+  verifyIntegrity(): AuditVerification {
+    return verifyAuditChain(this.db.getAuditEntries());
   }
 
-  getLogs(): any[] {
-    return [...this.logs];
+  getLogs(): AuditEntry[] {
+    return this.db.getAuditEntries();
   }
 }
@@ -4,6 +4,7 @@
 
 import { Database } from 'bun:sqlite';
 import type { Job, JobStatus } from './types.js';
+import type { AuditEntry } from './crypto.js';
 
 const DB_PATH = process.env.DB_PATH || '/app/data/jobs.db';
 
@@ -39,6 +40,18 @@ export class JobsDatabase {
       )
     `);
 
+    // Hash-chained audit trail (see AuditLogger in crypto.ts)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        seq INTEGER PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        event TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      )
+    `);
+
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)`);
     this.db.run(
       `CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at)`,
@@ -137,6 +150,46 @@ export class JobsDatabase {
     return rows.map((row) => this.rowToJob(row));
   }
 
+  getLastAuditEntry(): AuditEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM audit_log ORDER BY seq DESC LIMIT 1')
+      .get() as Record<string, unknown> | null;
+    return row ? this.rowToAuditEntry(row) : null;
+  }
+
+  insertAuditEntry(entry: AuditEntry): void {
+    this.db
+      .prepare(
+        'INSERT INTO audit_log (seq, timestamp, event, data_json, prev_hash, hash) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .run(
+        entry.seq,
+        entry.timestamp,
+        entry.event,
+        entry.data,
+        entry.prevHash,
+        entry.hash,
+      );
+  }
+
+  getAuditEntries(): AuditEntry[] {
+    const rows = this.db
+      .prepare('SELECT * FROM audit_log ORDER BY seq')
+      .all() as Record<string, unknown>[];
+    return rows.map((row) => this.rowToAuditEntry(row));
+  }
+
+  private rowToAuditEntry(row: Record<string, unknown>): AuditEntry {
+    return {
+      seq: row.seq as number,
+      timestamp: row.timestamp as string,
+      event: row.event as string,
+      data: row.data_json as string,
+      prevHash: row.prev_hash as string,
+      hash: row.hash as string,
+    };
+  }
+
   private rowToJob(row: Record<string, unknown>): Job {
     return {
       id: row.id as string,
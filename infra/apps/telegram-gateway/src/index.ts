@@ -3,11 +3,25 @@
  * Receives Telegram messages, interfaces with NanoClaw, manages approvals
  */
 
+import { ApprovalSigner } from '@openclaw/shared';
+import { existsSync, readFileSync } from 'fs';
 import { Telegraf, Markup, Context } from 'telegraf';
 import { v4 as uuidv4 } from 'uuid';
-import { type Job, type Plan, type JobStatus } from './types.js';
+import {
+  type Job,
+  type Plan,
+  type JobStatus,
+  type PolicyConfig,
+} from './types.js';
 import { JobsDatabase } from './db.js';
-import { PolicyEngine } from './policy.js';
+import {
+  buildPolicyForTargets,
+  formatPolicyExplanation,
+  PolicyEngine,
+} from './policy.js';
+import { loadPolicyFile, watchPolicyFile } from './policy-file.js';
+import { AuditLogger } from './crypto.js';
+import { loadSshTargets } from './ssh-targets.js';
 import { ObsidianLogger } from './obsidian.js';
 import { NanoClawClient } from './nanoclaw-client.js';
 
@@ -19,14 +33,38 @@ const OPS_RUNNER_URL = process.env.OPS_RUNNER_URL || 'http://ops-runner:8080';
 const OPS_RUNNER_SECRET = process.env.OPS_RUNNER_SHARED_SECRET!;
 const NANOCALW_URL = process.env.NANOCALW_URL || 'http://nanoclaw:3000/plan';
 const OBSIDIAN_VAULT_PATH = process.env.OBSIDIAN_VAULT_PATH!;
+const SSH_TARGETS_PATH =
+  process.env.SSH_TARGETS_PATH || '/app/config/ssh-targets.json';
+const POLICY_PATH = process.env.POLICY_PATH || '/app/config/policy.yaml';
+const APPROVAL_PRIVATE_KEY_PATH =
+  process.env.APPROVAL_PRIVATE_KEY_PATH || '/app/keys/approval.key';
+// Receives policy reload reports; unset means they are only logged
+const ADMIN_CHAT_ID = process.env.TELEGRAM_ADMIN_CHAT_ID;
 
 if (!BOT_TOKEN) throw new Error('TELEGRAM_BOT_TOKEN required');
 if (!OPS_RUNNER_SECRET) throw new Error('OPS_RUNNER_SHARED_SECRET required');
 if (!OBSIDIAN_VAULT_PATH) throw new Error('OBSIDIAN_VAULT_PATH required');
+if (!existsSync(APPROVAL_PRIVATE_KEY_PATH)) {
+  throw new Error(
+    `Approval signing key not found: ${APPROVAL_PRIVATE_KEY_PATH} (generate with ./scripts/generate-approval-key.sh)`,
+  );
+}
 
 // Initialize services
 const db = new JobsDatabase();
-const policy = new PolicyEngine();
+const audit = new AuditLogger(db);
+// Without a registry file the built-in william/willy-ubuntu policy applies,
+// and without a policy file the built-in rules
+const sshTargets = loadSshTargets(SSH_TARGETS_PATH, []);
+const withRegistryTargets = (base?: PolicyConfig) =>
+  sshTargets.length > 0 ? buildPolicyForTargets(sshTargets, base) : base;
+const policy = new PolicyEngine(
+  withRegistryTargets(loadPolicyFile(POLICY_PATH)),
+);
+// Every job sent to ops-runner carries an approval signed with this key
+const signer = new ApprovalSigner({
+  privateKey: readFileSync(APPROVAL_PRIVATE_KEY_PATH, 'utf-8'),
+});
 const obsidian = new ObsidianLogger(OBSIDIAN_VAULT_PATH);
 const nanoclaw = new NanoClawClient(NANOCALW_URL);
 const bot = new Telegraf(BOT_TOKEN);
@@ -58,8 +96,10 @@ bot.use(async (ctx, next) => {
 // Message Handler
 // ============================================================================
 
-bot.on('text', async (ctx) => {
+bot.on('text', async (ctx, next) => {
   const text = ctx.message.text;
+  // Slash commands are handled by the bot.command() handlers below
+  if (text.startsWith('/')) return next();
   const user = ctx.from;
   const chatId = ctx.chat.id;
 
@@ -88,7 +128,34 @@ bot.on('text', async (ctx) => {
       return;
     }
 
-    const plan = planResult.plan;
+    // The policy has the last word over the plan: a denied action refuses
+    // the whole plan, and require_approval overrides requiresApproval=false.
+    const verdicts = planResult.plan.actions.map((action) =>
+      policy.validateAction(action),
+    );
+    const denied = verdicts.findIndex((verdict) => !verdict.allowed);
+    if (denied !== -1) {
+      const action = planResult.plan.actions[denied];
+      audit.log('plan.refused', {
+        requestedBy: user.id,
+        action: denied + 1,
+        reason: verdicts[denied].reason,
+        plan: planResult.plan,
+      });
+      await ctx.reply(
+        `❌ Plan refused by policy: action ${denied + 1} (${getActionLabel(action)}): ${verdicts[denied].reason}`,
+      );
+      return;
+    }
+
+    const plan: Plan = {
+      ...planResult.plan,
+      actions: planResult.plan.actions.map((action, i) => ({
+        ...action,
+        requiresApproval:
+          action.requiresApproval || verdicts[i].requiresApproval,
+      })),
+    };
     const requiresApproval = plan.actions.some((a) => a.requiresApproval);
 
     // Create job
@@ -112,6 +179,12 @@ bot.on('text', async (ctx) => {
     }
 
     db.createJob(job);
+    audit.log('job.proposed', {
+      jobId: job.id,
+      requestedBy: user.id,
+      requiresApproval,
+      plan,
+    });
 
     // Build summary message
     const summary = buildPlanSummary(job, plan);
@@ -170,6 +243,7 @@ bot.action(/approve:(.+)/, async (ctx) => {
       approvedAt: new Date().toISOString(),
       approvedBy: user.id,
     });
+    audit.log('job.approved', { jobId, approvedBy: user.id });
 
     await ctx.answerCbQuery('Approved!');
 
@@ -210,6 +284,7 @@ bot.action(/deny:(.+)/, async (ctx) => {
       deniedAt: new Date().toISOString(),
       deniedReason: `Denied by ${user.first_name}`,
     });
+    audit.log('job.denied', { jobId, deniedBy: user.id });
 
     await ctx.answerCbQuery('Denied');
 
@@ -231,7 +306,24 @@ bot.action(/deny:(.+)/, async (ctx) => {
 
 async function executeJob(job: Job, ctx: Context): Promise<void> {
   try {
+    if (!job.approvedBy) throw new Error('Job has no approver to sign for');
+    // Auto-executed diagnostics are signed as 'auto' for the user who
+    // requested them, so ops-runner never mistakes them for a human approval
+    const approval = signer.signApproval(
+      job.id,
+      'approve',
+      job.requiresApproval ? 'human' : 'auto',
+      job.approvedBy,
+      job.plan,
+    );
+
     db.updateJobStatus(job.id, 'executing');
+    audit.log('job.dispatched', {
+      jobId: job.id,
+      approvedBy: job.approvedBy,
+      approvalMode: approval.mode,
+      approvalNonce: approval.nonce,
+    });
 
     const response = await fetch(`${OPS_RUNNER_URL}/run`, {
       method: 'POST',
@@ -239,6 +331,7 @@ async function executeJob(job: Job, ctx: Context): Promise<void> {
       body: JSON.stringify({
         jobId: job.id,
         sharedSecret: OPS_RUNNER_SECRET,
+        approval,
       }),
     });
 
@@ -253,6 +346,15 @@ async function executeJob(job: Job, ctx: Context): Promise<void> {
         executedAt: new Date().toISOString(),
         results: result.results,
       });
+      audit.log('job.executed', {
+        jobId: job.id,
+        results: result.results.map(
+          (entry: { actionId: string; exitCode: number }) => ({
+            actionId: entry.actionId,
+            exitCode: entry.exitCode,
+          }),
+        ),
+      });
 
       // Log to Obsidian
       const notesPath = await obsidian.logJob({
@@ -274,6 +376,10 @@ async function executeJob(job: Job, ctx: Context): Promise<void> {
     db.updateJobStatus(job.id, 'failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
+    audit.log('job.failed', {
+      jobId: job.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
     await ctx.reply(
       `❌ *Execution failed*\n\n${error instanceof Error ? error.message : 'Unknown error'}`,
       { parse_mode: 'Markdown' },
@@ -398,6 +504,48 @@ bot.command('jobs', async (ctx) => {
   await ctx.reply(message, { parse_mode: 'Markdown' });
 });
 
+bot.command('policy', async (ctx) => {
+  const match = ctx.message.text.match(
+    /^\/policy(?:@\w+)?\s+explain\s+(\S+)\s+([\s\S]+)$/i,
+  );
+  if (!match) {
+    await ctx.reply('Usage: /policy explain <target> <command>');
+    return;
+  }
+
+  const [, target, command] = match;
+  const explanation = policy.explainAction({
+    type: 'ssh',
+    target,
+    command: command.trim(),
+    risk: 'none',
+    requiresApproval: false,
+    reason: 'Policy explanation',
+  });
+  await ctx.reply(formatPolicyExplanation(target, command.trim(), explanation));
+});
+
+// ============================================================================
+// Policy Reload
+// ============================================================================
+
+watchPolicyFile(
+  POLICY_PATH,
+  (config) => policy.setPolicy(withRegistryTargets(config)),
+  (reload) => {
+    console.log(`[policy] ${reload.message}`);
+    if (!ADMIN_CHAT_ID) return;
+    bot.telegram
+      .sendMessage(
+        ADMIN_CHAT_ID,
+        `${reload.ok ? '🔄' : '⚠️'} ${reload.message}`,
+      )
+      .catch((error) =>
+        console.error('Failed to report policy reload:', error),
+      );
+  },
+);
+
 // ============================================================================
 // Start Bot
 // ============================================================================
@@ -407,6 +555,7 @@ console.log(
   `   Allowed users: ${ALLOWED_USER_IDS.length > 0 ? ALLOWED_USER_IDS.join(', ') : 'All'}`,
 );
 console.log(`   Ops Runner: ${OPS_RUNNER_URL}`);
+console.log(`   Policy: ${POLICY_PATH}`);
 console.log(`   Obsidian: ${OBSIDIAN_VAULT_PATH}`);
 
 bot.launch();
@@ -0,0 +1,108 @@
+/**
+ * Policy File
+ * Loads the PolicyEngine configuration from a YAML or JSON file validated
+ * with PolicyConfigSchema, and reloads it when the file changes. A file that
+ * fails to parse or validate is reported and ignored, so the last good
+ * policy stays active.
+ */
+
+import { existsSync, readFileSync, watch, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { ZodError } from 'zod';
+import { type PolicyConfig, PolicyConfigSchema } from './types.js';
+
+/** Editors and config mounts emit several events per save; wait them out. */
+const RELOAD_DEBOUNCE_MS = 250;
+
+export interface PolicyReload {
+  ok: boolean;
+  message: string;
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof ZodError) {
+    return err.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Parse policy file contents; .yaml/.yml is YAML, anything else JSON. */
+export function parsePolicyFile(path: string, text: string): PolicyConfig {
+  const raw: unknown = /\.ya?ml$/i.test(path)
+    ? Bun.YAML.parse(text)
+    : JSON.parse(text);
+  return PolicyConfigSchema.parse(raw);
+}
+
+/**
+ * Load the policy file, or return undefined when it does not exist. An
+ * invalid file throws so the service refuses to start.
+ */
+export function loadPolicyFile(path: string): PolicyConfig | undefined {
+  if (!existsSync(path)) return undefined;
+  try {
+    return parsePolicyFile(path, readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid policy file ${path}: ${describeError(err)}`);
+  }
+}
+
+/**
+ * Watch the policy file and call apply with each new valid policy. The
+ * directory is watched rather than the file so saves that replace the file
+ * (editors writing a temp file, mounted config swaps) are seen too. Unchanged
+ * contents and a briefly missing file are ignored; every real reload, good or
+ * bad, is passed to onReload.
+ */
+export function watchPolicyFile(
+  path: string,
+  apply: (policy: PolicyConfig) => void,
+  onReload: (reload: PolicyReload) => void,
+): FSWatcher | null {
+  const dir = dirname(path);
+  if (!existsSync(dir)) return null;
+
+  let lastText = existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const reload = () => {
+    if (!existsSync(path)) return;
+    const text = readFileSync(path, 'utf-8');
+    if (text === lastText) return;
+    lastText = text;
+
+    let policy: PolicyConfig;
+    try {
+      policy = parsePolicyFile(path, text);
+    } catch (err) {
+      onReload({
+        ok: false,
+        message: `Policy file ${path} rejected, keeping the previous policy: ${describeError(err)}`,
+      });
+      return;
+    }
+    apply(policy);
+    const targets = Object.keys(policy.targets);
+    onReload({
+      ok: true,
+      message: `Policy reloaded from ${path} (targets: ${targets.join(', ') || 'none'})`,
+    });
+  };
+
+  return watch(dir, (_event, filename) => {
+    if (filename && filename !== basename(path)) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        reload();
+      } catch (err) {
+        onReload({
+          ok: false,
+          message: `Could not read policy file ${path}: ${describeError(err)}`,
+        });
+      }
+    }, RELOAD_DEBOUNCE_MS);
+  });
+}
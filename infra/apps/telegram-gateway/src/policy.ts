@@ -1,332 +1,252 @@
 /**
  * Policy Engine
- * Validates commands against allowlist and determines approval requirements
+ * Validates commands against allowlist and determines approval requirements.
+ * Commands are parsed into argv first (see the shared shell-command.ts); anything the
+ * shell would expand or chain is refused before the rules are consulted.
  */
 
+// The subpath leaves out the bun:sqlite database, so the core app's
+// scripts/policy-explain.ts can load this module under Node.
+import {
+  commandRuleLabel,
+  formatArgv,
+  matchCommandRule,
+  parseCommand,
+  type RuleEvaluation,
+  unnormalizedPathArg,
+} from '@openclaw/shared/shell-command';
 import { z } from 'zod';
 import {
   type Action,
   type PolicyConfig,
+  type PolicyRule,
   RiskLevel,
   PolicyConfigSchema,
 } from './types.js';
+import type { SshTarget } from './ssh-targets.js';
 
 export type RiskLevelType = z.infer<typeof RiskLevel>;
 
+const UNIT_NAME = '[a-zA-Z0-9_.@-]+';
+const CONTAINER_NAME = '[a-zA-Z0-9][a-zA-Z0-9_.-]*';
+/** Files `cat` and `tail` may read without approval. */
+const READABLE_PATHS = [
+  '/var/log',
+  '/etc/os-release',
+  '/proc/loadavg',
+  '/proc/meminfo',
+];
+
+// Safe diagnostics - no approval needed. These match the parsed argv, so a
+// trailing "; rm -rf /" or "$(...)" is refused before any rule is consulted.
+const DIAGNOSTIC_RULES: PolicyRule[] = [
+  {
+    command: { binary: 'uptime' },
+    description: 'System uptime',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: { binary: 'df', options: { '-h': true }, requiredOptions: ['-h'] },
+    description: 'Disk usage',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: {
+      binary: 'free',
+      options: { '-m': true },
+      requiredOptions: ['-m'],
+    },
+    description: 'Memory usage',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: {
+      binary: 'top',
+      options: { '-bn1': true },
+      requiredOptions: ['-bn1'],
+    },
+    description: 'Process list',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: { binary: 'ps', subcommand: ['aux'] },
+    description: 'Process list',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: { binary: 'docker', subcommand: ['ps'] },
+    description: 'Docker containers',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: {
+      binary: 'docker',
+      subcommand: ['logs'],
+      options: { '--tail': { maxInt: 1000 } },
+      requiredOptions: ['--tail'],
+      args: [{ pattern: CONTAINER_NAME }],
+    },
+    description: 'Docker logs',
+    action: 'allow',
+    risk: 'low',
+  },
+  {
+    command: {
+      binary: 'docker',
+      subcommand: ['stats'],
+      options: { '--no-stream': true },
+      requiredOptions: ['--no-stream'],
+    },
+    description: 'Docker stats',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: {
+      binary: 'ls',
+      shortFlags: 'la',
+      args: [{ pathPrefix: ['/'] }],
+      minArgs: 0,
+    },
+    description: 'List directory',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: { binary: 'cat', args: [{ pathPrefix: READABLE_PATHS }] },
+    description: 'Read file',
+    action: 'allow',
+    risk: 'none',
+  },
+  {
+    command: {
+      binary: 'systemctl',
+      subcommand: ['status'],
+      args: [{ pattern: UNIT_NAME }],
+    },
+    description: 'Service status',
+    action: 'allow',
+    risk: 'none',
+  },
+];
+
+// Potentially risky - require approval
+const APPROVAL_RULES: PolicyRule[] = [
+  {
+    pattern: '^docker\\s+(restart|stop|start|kill)',
+    description: 'Docker control',
+    action: 'require_approval',
+    risk: 'medium',
+  },
+  {
+    pattern: '^systemctl\\s+(restart|stop|start|reload)',
+    description: 'Service control',
+    action: 'require_approval',
+    risk: 'high',
+  },
+  {
+    pattern: '^rm\\s+',
+    description: 'Remove files',
+    action: 'require_approval',
+    risk: 'high',
+  },
+  {
+    pattern: '^apt\\s+(install|remove|upgrade|update)',
+    description: 'Package management',
+    action: 'require_approval',
+    risk: 'high',
+  },
+  {
+    pattern: '^reboot$',
+    description: 'Reboot system',
+    action: 'require_approval',
+    risk: 'critical',
+  },
+];
+
+// Dangerous - blocked entirely. Chaining, substitution and redirection are
+// already refused by the parser, so these only cover single commands.
+const DENY_RULES: PolicyRule[] = [
+  {
+    pattern: '^bash\\s+-i',
+    description: 'Interactive shell',
+    action: 'deny',
+    risk: 'critical',
+  },
+  {
+    pattern: '^rm\\s+-rf\\s+/',
+    description: 'Recursive delete root',
+    action: 'deny',
+    risk: 'critical',
+  },
+  {
+    pattern: '^dd\\s+if=',
+    description: 'Disk write',
+    action: 'deny',
+    risk: 'critical',
+  },
+  {
+    pattern: '^mkfs',
+    description: 'Filesystem format',
+    action: 'deny',
+    risk: 'critical',
+  },
+];
+
 // Default policy configuration
 const DEFAULT_POLICY: PolicyConfig = {
   targets: {
     william: {
       allowlist: [
-        // Safe diagnostics - no approval needed
-        {
-          pattern: '^uptime$',
-          description: 'System uptime',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^df\\s+-h$',
-          description: 'Disk usage',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^free\\s+-m$',
-          description: 'Memory usage',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^top\\s+-bn1$',
-          description: 'Process list',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^ps\\s+aux$',
-          description: 'Process list',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^docker\\s+ps$',
-          description: 'Docker containers',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^docker\\s+logs\\s+--tail\\s+\\d+',
-          description: 'Docker logs',
-          action: 'allow',
-          risk: 'low',
-        },
-        {
-          pattern: '^docker\\s+stats\\s+--no-stream$',
-          description: 'Docker stats',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^ls\\s+-la?$',
-          description: 'List directory',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^cat\\s+[^;|&]+$',
-          description: 'Read file',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^systemctl\\s+status\\s+\\w+$',
-          description: 'Service status',
-          action: 'allow',
-          risk: 'none',
-        },
-
-        // Potentially risky - require approval
-        {
-          pattern: '^docker\\s+(restart|stop|start|kill)',
-          description: 'Docker control',
-          action: 'require_approval',
-          risk: 'medium',
-        },
-        {
-          pattern: '^systemctl\\s+(restart|stop|start|reload)',
-          description: 'Service control',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^rm\\s+',
-          description: 'Remove files',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^apt\\s+(install|remove|upgrade|update)',
-          description: 'Package management',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^reboot$',
-          description: 'Reboot system',
-          action: 'require_approval',
-          risk: 'critical',
-        },
+        ...DIAGNOSTIC_RULES,
+        ...APPROVAL_RULES,
         {
           pattern: '^shutdown',
           description: 'Shutdown system',
           action: 'require_approval',
           risk: 'critical',
         },
-
-        // Dangerous - blocked entirely
-        {
-          pattern: '^bash\\s+-i',
-          description: 'Interactive shell',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^rm\\s+-rf\\s+/',
-          description: 'Recursive delete root',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^dd\\s+if=',
-          description: 'Disk write',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^mkfs',
-          description: 'Filesystem format',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^>:?\\s*/dev',
-          description: 'Device overwrite',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '[;&|]\\s*rm',
-          description: 'Chained remove',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '\\$\\(',
-          description: 'Command substitution',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '\`.*\`',
-          description: 'Backtick execution',
-          action: 'deny',
-          risk: 'critical',
-        },
+        ...DENY_RULES,
       ],
       defaultAction: 'require_approval',
     },
     'willy-ubuntu': {
       allowlist: [
-        // Same patterns for willy-ubuntu
-        {
-          pattern: '^uptime$',
-          description: 'System uptime',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^df\\s+-h$',
-          description: 'Disk usage',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^free\\s+-m$',
-          description: 'Memory usage',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^top\\s+-bn1$',
-          description: 'Process list',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^ps\\s+aux$',
-          description: 'Process list',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^docker\\s+ps$',
-          description: 'Docker containers',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^docker\\s+logs\\s+--tail\\s+\\d+',
-          description: 'Docker logs',
-          action: 'allow',
-          risk: 'low',
-        },
-        {
-          pattern: '^docker\\s+stats\\s+--no-stream$',
-          description: 'Docker stats',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^ls\\s+-la?$',
-          description: 'List directory',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^cat\\s+[^;|&]+$',
-          description: 'Read file',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^systemctl\\s+status\\s+\\w+$',
-          description: 'Service status',
-          action: 'allow',
-          risk: 'none',
-        },
-        {
-          pattern: '^journalctl\\s+--since',
+        ...DIAGNOSTIC_RULES,
+        {
+          command: {
+            binary: 'journalctl',
+            options: {
+              '--since': { pattern: '[A-Za-z0-9 :-]+' },
+              '-u': { pattern: UNIT_NAME },
+              '-n': { maxInt: 1000 },
+              '--no-pager': true,
+            },
+            requiredOptions: ['--since'],
+          },
           description: 'System logs',
           action: 'allow',
           risk: 'low',
         },
         {
-          pattern: '^tail\\s+-n\\s+\\d+',
+          command: {
+            binary: 'tail',
+            options: { '-n': { maxInt: 1000 } },
+            requiredOptions: ['-n'],
+            args: [{ pathPrefix: READABLE_PATHS }],
+          },
           description: 'Tail logs',
           action: 'allow',
           risk: 'none',
         },
-
-        // Require approval
-        {
-          pattern: '^docker\\s+(restart|stop|start|kill)',
-          description: 'Docker control',
-          action: 'require_approval',
-          risk: 'medium',
-        },
-        {
-          pattern: '^systemctl\\s+(restart|stop|start|reload)',
-          description: 'Service control',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^rm\\s+',
-          description: 'Remove files',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^apt\\s+(install|remove|upgrade|update)',
-          description: 'Package management',
-          action: 'require_approval',
-          risk: 'high',
-        },
-        {
-          pattern: '^reboot$',
-          description: 'Reboot system',
-          action: 'require_approval',
-          risk: 'critical',
-        },
-
-        // Blocked
-        {
-          pattern: '^bash\\s+-i',
-          description: 'Interactive shell',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^rm\\s+-rf\\s+/',
-          description: 'Recursive delete root',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^dd\\s+if=',
-          description: 'Disk write',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '^mkfs',
-          description: 'Filesystem format',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '\\$\\(',
-          description: 'Command substitution',
-          action: 'deny',
-          risk: 'critical',
-        },
-        {
-          pattern: '\`.*\`',
-          description: 'Backtick execution',
-          action: 'deny',
-          risk: 'critical',
-        },
+        ...APPROVAL_RULES,
+        ...DENY_RULES,
       ],
       defaultAction: 'require_approval',
     },
@@ -348,6 +268,88 @@ const DEFAULT_POLICY: PolicyConfig = {
   },
 };
 
+/**
+ * Build a policy covering exactly the registry's targets. Targets without a
+ * rule set of their own start from william's rules, or from an empty list
+ * when the policy has no william entry. A target's own allowlist patterns are
+ * checked after the deny rules, so they cannot lift a block, and must match
+ * the whole normalized command.
+ */
+export function buildPolicyForTargets(
+  targets: SshTarget[],
+  base: PolicyConfig = DEFAULT_POLICY,
+): PolicyConfig {
+  return {
+    ...base,
+    targets: Object.fromEntries(
+      targets.map((target) => {
+        const baseTarget = base.targets[target.name] ??
+          base.targets.william ?? {
+            allowlist: [],
+            defaultAction: 'require_approval' as const,
+          };
+        const denyRules = baseTarget.allowlist.filter(
+          (rule) => rule.action === 'deny',
+        );
+        const otherRules = baseTarget.allowlist.filter(
+          (rule) => rule.action !== 'deny',
+        );
+        const targetRules: PolicyRule[] = target.allowlist.map((pattern) => ({
+          pattern: `^(?:${pattern})$`,
+          description: `${target.name} allowlist`,
+          action: 'allow',
+          risk: 'none',
+        }));
+        return [
+          target.name,
+          {
+            ...baseTarget,
+            allowlist: [...denyRules, ...targetRules, ...otherRules],
+          },
+        ];
+      }),
+    ),
+  };
+}
+
+function ruleLabel(rule: PolicyRule): string {
+  return rule.command
+    ? commandRuleLabel(rule.command)
+    : `/${rule.pattern ?? ''}/`;
+}
+
+/**
+ * A rule matches either structurally (binary and argument constraints) or by
+ * its regex, which sees the normalized argv rather than the raw command. A
+ * regex rule that allows never matches an unnormalized path argument.
+ */
+function evaluateRule(
+  rule: PolicyRule,
+  argv: string[],
+  normalized: string,
+): RuleEvaluation {
+  const label = `${ruleLabel(rule)} (${rule.description})`;
+  if (rule.command) {
+    const match = matchCommandRule(argv, rule.command);
+    return match.ok
+      ? { rule: label, matched: true }
+      : { rule: label, matched: false, detail: match.reason };
+  }
+  const unnormalized =
+    rule.action !== 'deny' ? unnormalizedPathArg(argv) : undefined;
+  if (rule.pattern !== undefined && unnormalized) {
+    return {
+      rule: label,
+      matched: false,
+      detail: `${unnormalized} is not a normalized path`,
+    };
+  }
+  return rule.pattern !== undefined &&
+    new RegExp(rule.pattern, 'i').test(normalized)
+    ? { rule: label, matched: true }
+    : { rule: label, matched: false, detail: `Does not match ${normalized}` };
+}
+
 export interface ValidationResult {
   allowed: boolean;
   requiresApproval: boolean;
@@ -356,6 +358,43 @@ export interface ValidationResult {
   matchedRule?: string;
 }
 
+export interface PolicyExplanation {
+  /** Rules in allowlist order, up to the first match. */
+  evaluated: RuleEvaluation[];
+  /** Set when the command did not parse; no rules were evaluated then. */
+  parseError?: string;
+  result: ValidationResult;
+}
+
+/** Render an explanation for Telegram or the command line. */
+export function formatPolicyExplanation(
+  target: string,
+  command: string,
+  explanation: PolicyExplanation,
+): string {
+  const { result } = explanation;
+  const lines = [`Gateway policy for "${command}" on ${target}`];
+  if (explanation.parseError) {
+    lines.push(`Refused by the shell parser: ${explanation.parseError}`);
+  } else if (explanation.evaluated.length > 0) {
+    lines.push('Rules evaluated:');
+    for (const entry of explanation.evaluated) {
+      lines.push(
+        entry.matched
+          ? `- ${entry.rule}: match`
+          : `- ${entry.rule}: no match (${entry.detail})`,
+      );
+    }
+  }
+  lines.push(
+    `Matched rule: ${result.matchedRule ?? 'none'}`,
+    `Risk: ${result.risk}`,
+    `Approval: ${result.requiresApproval ? 'required' : 'not required'}`,
+    `Outcome: ${result.allowed ? 'allowed' : 'denied'} (${result.reason})`,
+  );
+  return lines.join('\n');
+}
+
 export class PolicyEngine {
   private policy: PolicyConfig;
 
@@ -363,65 +402,109 @@ export class PolicyEngine {
     this.policy = customPolicy || DEFAULT_POLICY;
   }
 
+  /**
+   * Replace the active policy, e.g. after the policy file changed. The swap
+   * is a single assignment and evaluation is synchronous, so every check
+   * sees either the old policy or the new one, never a mix.
+   */
+  setPolicy(policy?: PolicyConfig): void {
+    this.policy = policy || DEFAULT_POLICY;
+  }
+
   validateAction(action: Action): ValidationResult {
+    return this.explainAction(action).result;
+  }
+
+  /** Validate an action and record every rule tried along the way. */
+  explainAction(action: Action): PolicyExplanation {
+    const decide = (result: ValidationResult): PolicyExplanation => ({
+      evaluated: [],
+      result,
+    });
+
     if (action.type !== 'ssh') {
       // Non-SSH actions (obsidian_write, web_fetch) have their own validation
-      return {
+      return decide({
         allowed: true,
         requiresApproval: action.requiresApproval,
         risk: action.risk,
         reason: 'Non-SSH action type',
-      };
+      });
     }
 
     if (!action.target) {
-      return {
+      return decide({
         allowed: false,
         requiresApproval: true,
         risk: 'high',
         reason: 'SSH action missing target',
-      };
+      });
     }
 
     const targetConfig = this.policy.targets[action.target];
     if (!targetConfig) {
-      return {
+      return decide({
         allowed: false,
         requiresApproval: true,
         risk: 'high',
         reason: `Unknown target: ${action.target}`,
+      });
+    }
+
+    const parsed = parseCommand(action.command);
+    if (!parsed.ok) {
+      return {
+        ...decide({
+          allowed: false,
+          requiresApproval: true,
+          risk: 'critical',
+          reason: `Command refused by shell parser: ${parsed.reason}`,
+        }),
+        parseError: parsed.reason,
       };
     }
 
     // Check against allowlist
+    const normalized = formatArgv(parsed.argv);
+    const evaluated: RuleEvaluation[] = [];
     for (const rule of targetConfig.allowlist) {
-      const regex = new RegExp(rule.pattern, 'i');
-      if (regex.test(action.command)) {
+      const evaluation = evaluateRule(rule, parsed.argv, normalized);
+      evaluated.push(evaluation);
+      if (evaluation.matched) {
         return {
-          allowed: rule.action !== 'deny',
-          requiresApproval:
-            rule.action === 'require_approval' ||
-            (rule.action === 'allow' && action.requiresApproval),
-          risk: rule.risk,
-          reason: rule.description,
-          matchedRule: rule.pattern,
+          evaluated,
+          result: {
+            allowed: rule.action !== 'deny',
+            requiresApproval:
+              rule.action === 'require_approval' ||
+              (rule.action === 'allow' && action.requiresApproval),
+            risk: rule.risk,
+            reason: rule.description,
+            matchedRule: rule.pattern ?? ruleLabel(rule),
+          },
         };
       }
     }
 
     // No rule matched - use default action
     return {
-      allowed: targetConfig.defaultAction !== 'deny',
-      requiresApproval: targetConfig.defaultAction === 'require_approval',
-      risk: 'medium',
-      reason: `No specific rule matched, using default: ${targetConfig.defaultAction}`,
+      evaluated,
+      result: {
+        allowed: targetConfig.defaultAction !== 'deny',
+        requiresApproval: targetConfig.defaultAction === 'require_approval',
+        risk: 'medium',
+        reason: `No specific rule matched, using default: ${targetConfig.defaultAction}`,
+      },
     };
   }
 
   isDiagnosticCommand(command: string): boolean {
+    const parsed = parseCommand(command);
+    if (!parsed.ok) return false;
+    const normalized = formatArgv(parsed.argv);
     return this.policy.diagnostics.patterns.some((pattern) => {
       const regex = new RegExp(pattern, 'i');
-      return regex.test(command);
+      return regex.test(normalized);
     });
   }
 
@@ -0,0 +1,47 @@
+/**
+ * SSH Target Registry
+ * Same file format as the core app (~/.config/nanoclaw/ssh-targets.json),
+ * mounted into the container at SSH_TARGETS_PATH.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+
+export const SshTargetSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/i),
+  host: z.string().min(1),
+  user: z.string().optional(),
+  keyPath: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  allowlist: z.array(z.string()).default([]), // Extra readonly regex patterns
+  readablePaths: z.array(z.string().startsWith('/')).default([]), // file_read roots
+});
+
+export type SshTarget = z.infer<typeof SshTargetSchema>;
+
+export const SshTargetRegistrySchema = z.object({
+  targets: z.array(SshTargetSchema),
+});
+
+/**
+ * Load targets from the registry file, or return the fallback list when the
+ * file does not exist. An invalid file throws so the service refuses to start.
+ */
+export function loadSshTargets(
+  path: string,
+  fallback: SshTarget[],
+): SshTarget[] {
+  if (!existsSync(path)) return fallback;
+
+  const registry = SshTargetRegistrySchema.parse(
+    JSON.parse(readFileSync(path, 'utf-8')),
+  );
+  const names = new Set<string>();
+  for (const target of registry.targets) {
+    if (names.has(target.name)) {
+      throw new Error(`Duplicate SSH target name: ${target.name}`);
+    }
+    names.add(target.name);
+  }
+  return registry.targets;
+}
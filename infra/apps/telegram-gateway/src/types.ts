@@ -29,7 +29,7 @@ const BaseActionSchema = z.object({
 
 const SSHActionSchema = BaseActionSchema.extend({
   type: z.literal('ssh'),
-  target: z.enum(['william', 'willy-ubuntu']),
+  target: z.string().min(1), // Name from the SSH target registry
   command: z.string().min(1),
 });
 
@@ -119,13 +119,51 @@ export const JobSchema = z.object({
 export type Job = z.infer<typeof JobSchema>;
 
 // Policy Types
-export const PolicyRuleSchema = z.object({
-  pattern: z.string(),
-  description: z.string(),
-  action: z.enum(['allow', 'deny', 'require_approval']),
-  risk: RiskLevel.default('low'),
+// Patterns are compiled when a policy is loaded, so a bad one rejects the
+// file instead of throwing on the first command it is checked against.
+const RegexSourceSchema = z.string().superRefine((pattern, ctx) => {
+  try {
+    new RegExp(pattern);
+  } catch (err) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
+
+const ArgSpecSchema = z.object({
+  oneOf: z.array(z.string()).optional(),
+  pathPrefix: z.array(z.string()).optional(),
+  maxInt: z.number().int().nonnegative().optional(),
+  pattern: RegexSourceSchema.optional(),
 });
 
+export const CommandRuleSchema = z.object({
+  binary: z.string().min(1),
+  subcommand: z.array(z.string()).optional(),
+  shortFlags: z.string().optional(),
+  options: z
+    .record(z.string(), z.union([z.literal(true), ArgSpecSchema]))
+    .optional(),
+  requiredOptions: z.array(z.string()).optional(),
+  args: z.array(ArgSpecSchema).optional(),
+  minArgs: z.number().int().nonnegative().optional(),
+});
+
+export const PolicyRuleSchema = z
+  .object({
+    // Regex over the normalized argv; prefer `command` for allow rules
+    pattern: RegexSourceSchema.optional(),
+    command: CommandRuleSchema.optional(),
+    description: z.string(),
+    action: z.enum(['allow', 'deny', 'require_approval']),
+    risk: RiskLevel.default('low'),
+  })
+  .refine((rule) => rule.pattern !== undefined || rule.command !== undefined, {
+    message: 'A policy rule needs a pattern or a command',
+  });
+
 export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
 
 export const PolicyConfigSchema = z.object({
@@ -141,7 +179,7 @@ export const PolicyConfigSchema = z.object({
   diagnostics: z
     .object({
       allowedWithoutApproval: z.boolean().default(true),
-      patterns: z.array(z.string()),
+      patterns: z.array(RegexSourceSchema),
     })
     .default({
       allowedWithoutApproval: true,
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync, type FSWatcher } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadPolicyFile,
+  parsePolicyFile,
+  type PolicyReload,
+  watchPolicyFile,
+} from '../src/policy-file.js';
+import type { PolicyConfig } from '../src/types.js';
+
+const YAML_POLICY = `
+targets:
+  william:
+    defaultAction: require_approval
+    allowlist:
+      - description: Interactive shell
+        pattern: '^bash\\s+-i'
+        action: deny
+        risk: critical
+      - description: System uptime
+        command: { binary: uptime }
+        action: allow
+        risk: none
+diagnostics:
+  patterns: ['^uptime$']
+`;
+
+function jsonPolicy(target: string, pattern = '^uptime$'): string {
+  return JSON.stringify({
+    targets: {
+      [target]: {
+        allowlist: [{ description: 'Uptime', pattern, action: 'allow' }],
+      },
+    },
+  });
+}
+
+const cleanups: Array<() => void> = [];
+afterEach(() => {
+  while (cleanups.length) cleanups.pop()!();
+});
+
+function tempDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'policy-file-test-'));
+  cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** Resolve with the next reload report, or fail after timeoutMs. */
+function nextReload(
+  reports: PolicyReload[],
+  count: number,
+  timeoutMs = 3000,
+): Promise<PolicyReload> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (reports.length >= count) return resolve(reports[count - 1]);
+      if (Date.now() > deadline) {
+        return reject(
+          new Error(`no policy reload #${count} within ${timeoutMs}ms`),
+        );
+      }
+      setTimeout(poll, 20);
+    };
+    poll();
+  });
+}
+
+describe('parsePolicyFile', () => {
+  test('parses YAML and fills schema defaults', () => {
+    const policy = parsePolicyFile('/etc/policy.yaml', YAML_POLICY);
+    const william = policy.targets.william;
+    expect(william.defaultAction).toBe('require_approval');
+    expect(william.allowlist.map((rule) => rule.action)).toEqual([
+      'deny',
+      'allow',
+    ]);
+    expect(william.allowlist[1].command?.binary).toBe('uptime');
+    expect(policy.diagnostics.allowedWithoutApproval).toBe(true);
+  });
+
+  test('parses JSON for any other extension', () => {
+    const policy = parsePolicyFile('/etc/policy.json', jsonPolicy('web'));
+    expect(Object.keys(policy.targets)).toEqual(['web']);
+    expect(policy.targets.web.defaultAction).toBe('require_approval');
+  });
+
+  test('rejects patterns that do not compile', () => {
+    expect(() =>
+      parsePolicyFile('/p.json', jsonPolicy('web', '^(uptime')),
+    ).toThrow(/Invalid regular expression/);
+    const badArg = JSON.stringify({
+      targets: {
+        web: {
+          allowlist: [
+            {
+              description: 'Tail',
+              command: { binary: 'tail', args: [{ pattern: '[a-' }] },
+              action: 'allow',
+            },
+          ],
+        },
+      },
+    });
+    expect(() => parsePolicyFile('/p.json', badArg)).toThrow(
+      /Invalid regular expression/,
+    );
+    const badDiagnostic = JSON.stringify({
+      targets: {},
+      diagnostics: { patterns: ['*uptime'] },
+    });
+    expect(() => parsePolicyFile('/p.json', badDiagnostic)).toThrow(
+      /Invalid regular expression/,
+    );
+  });
+
+  test('rejects rules with neither pattern nor command', () => {
+    const text = JSON.stringify({
+      targets: {
+        web: { allowlist: [{ description: 'Empty', action: 'allow' }] },
+      },
+    });
+    expect(() => parsePolicyFile('/p.json', text)).toThrow(
+      'A policy rule needs a pattern or a command',
+    );
+  });
+});
+
+describe('loadPolicyFile', () => {
+  test('returns undefined for a missing file and names the field of an invalid one', () => {
+    const dir = tempDir();
+    expect(loadPolicyFile(join(dir, 'policy.json'))).toBeUndefined();
+
+    const path = join(dir, 'policy.json');
+    writeFileSync(path, jsonPolicy('web', '(('));
+    expect(() => loadPolicyFile(path)).toThrow(
+      `Invalid policy file ${path}: targets.web.allowlist.0.pattern: Invalid regular expression`,
+    );
+  });
+});
+
+describe('watchPolicyFile', () => {
+  test('applies valid edits and keeps the previous policy on invalid ones', async () => {
+    const dir = tempDir();
+    const path = join(dir, 'policy.json');
+    writeFileSync(path, jsonPolicy('web'));
+
+    const applied: PolicyConfig[] = [];
+    const reports: PolicyReload[] = [];
+    const watcher = watchPolicyFile(
+      path,
+      (policy) => applied.push(policy),
+      (reload) => reports.push(reload),
+    ) as FSWatcher;
+    expect(watcher).not.toBeNull();
+    cleanups.unshift(() => watcher.close());
+
+    // Other files in the directory are ignored
+    writeFileSync(join(dir, 'notes.txt'), 'unrelated');
+    writeFileSync(path, jsonPolicy('db'));
+    const good = await nextReload(reports, 1);
+    expect(good).toEqual({
+      ok: true,
+      message: `Policy reloaded from ${path} (targets: db)`,
+    });
+    expect(applied.map((policy) => Object.keys(policy.targets))).toEqual([
+      ['db'],
+    ]);
+
+    writeFileSync(path, jsonPolicy('db', '[unclosed'));
+    const bad = await nextReload(reports, 2);
+    expect(bad.ok).toBe(false);
+    expect(bad.message).toStartWith(
+      `Policy file ${path} rejected, keeping the previous policy: targets.db.allowlist.0.pattern: Invalid regular expression`,
+    );
+    expect(applied).toHaveLength(1);
+  });
+
+  test('returns null when the policy directory does not exist', () => {
+    const path = join(tempDir(), 'missing', 'policy.json');
+    expect(
+      watchPolicyFile(
+        path,
+        () => {},
+        () => {},
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Signed Approvals
+ * The gateway signs every approval with an Ed25519 private key and sends it
+ * with the run request; ops-runner verifies it with the public key before
+ * executing anything. A signature covers the job, the approver, a hash of
+ * the plan and whether a human approved it or the gateway's policy let it
+ * run unattended, so neither a replayed request, a plan edited after
+ * approval nor an auto approval passed off as a human one gets through.
+ * ops-runner records used nonces in SQLite so a replay is refused even
+ * after a restart.
+ */
+
+import {
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  verify,
+} from 'crypto';
+
+/**
+ * 'human': approved with the approval buttons, userId is the approver.
+ * 'auto': policy-cleared diagnostics run for the requester, userId.
+ */
+export type ApprovalMode = 'human' | 'auto';
+
+export interface SignedApproval {
+  jobId: string;
+  action: 'approve' | 'deny';
+  mode: ApprovalMode;
+  userId: number;
+  /** sha256 of the approved plan, see hashPlan. */
+  planHash: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export type ApprovalCheck = { ok: true } | { ok: false; reason: string };
+
+/** Remembers used nonces until they expire (ops-runner persists them). */
+export interface NonceStore {
+  /** Record a nonce until expiresAt; false when it was already recorded. */
+  claim(nonce: string, expiresAt: number): boolean;
+}
+
+/** Nonce store for tests and single-process use; lost on restart. */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  claim(nonce: string, expiresAt: number): boolean {
+    const now = Date.now();
+    for (const [used, expiry] of this.nonces) {
+      if (expiry <= now) this.nonces.delete(used);
+    }
+    if (this.nonces.has(nonce)) return false;
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+/** Approvals older than this are refused; nonces are kept as long. */
+export const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+/** Tolerated clock difference between gateway and runner. */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export function hashPlan(plan: unknown): string {
+  return createHash('sha256').update(JSON.stringify(plan)).digest('hex');
+}
+
+export class ApprovalSigner {
+  private privateKey?: string;
+  private publicKey?: string;
+  private nonces: NonceStore;
+
+  /**
+   * The gateway passes only the private key, ops-runner only the public key.
+   * With neither, a throwaway key pair is generated (tests).
+   */
+  constructor(
+    keys: { privateKey?: string; publicKey?: string } = {},
+    nonces: NonceStore = new MemoryNonceStore(),
+  ) {
+    if (keys.privateKey || keys.publicKey) {
+      this.privateKey = keys.privateKey;
+      this.publicKey = keys.publicKey;
+    } else {
+      const pair = generateKeyPairSync('ed25519', {
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+      });
+      this.privateKey = pair.privateKey;
+      this.publicKey = pair.publicKey;
+    }
+    this.nonces = nonces;
+  }
+
+  /**
+   * Create a signed approval
+   */
+  signApproval(
+    jobId: string,
+    action: 'approve' | 'deny',
+    mode: ApprovalMode,
+    userId: number,
+    plan: unknown,
+  ): SignedApproval {
+    if (!this.privateKey) {
+      throw new Error('ApprovalSigner has no private key to sign with');
+    }
+    const unsigned = {
+      jobId,
+      action,
+      mode,
+      userId,
+      planHash: hashPlan(plan),
+      timestamp: Date.now(),
+      nonce: randomBytes(16).toString('hex'),
+    };
+    const signature = sign(
+      null,
+      Buffer.from(this.serializeData(unsigned)),
+      this.privateKey,
+    ).toString('base64');
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * Verify a signed approval for the given job and plan. A valid approval's
+   * nonce is claimed, so the same approval is refused the second time.
+   */
+  verifyApproval(
+    approval: SignedApproval,
+    expected: { jobId: string; plan: unknown },
+  ): ApprovalCheck {
+    if (!this.publicKey) {
+      throw new Error('ApprovalSigner has no public key to verify with');
+    }
+    if (approval.jobId !== expected.jobId) {
+      return { ok: false, reason: 'Approval is for a different job' };
+    }
+    if (approval.action !== 'approve') {
+      return { ok: false, reason: 'Approval does not approve the job' };
+    }
+
+    const now = Date.now();
+    if (now - approval.timestamp > APPROVAL_TTL_MS) {
+      return { ok: false, reason: 'Approval expired' };
+    }
+    if (approval.timestamp - now > MAX_CLOCK_SKEW_MS) {
+      return { ok: false, reason: 'Approval timestamp is in the future' };
+    }
+
+    let valid = false;
+    try {
+      valid = verify(
+        null,
+        Buffer.from(this.serializeData(approval)),
+        this.publicKey,
+        Buffer.from(approval.signature, 'base64'),
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) return { ok: false, reason: 'Invalid approval signature' };
+
+    if (approval.planHash !== hashPlan(expected.plan)) {
+      return { ok: false, reason: 'Plan changed after it was approved' };
+    }
+    if (
+      !this.nonces.claim(approval.nonce, approval.timestamp + APPROVAL_TTL_MS)
+    ) {
+      return { ok: false, reason: 'Approval was already used (replay)' };
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Serialize data for signing
+   */
+  private serializeData(approval: Omit<SignedApproval, 'signature'>): string {
+    // Deterministic JSON serialization
+    return JSON.stringify({
+      jobId: approval.jobId,
+      action: approval.action,
+      mode: approval.mode,
+      userId: approval.userId,
+      planHash: approval.planHash,
+      timestamp: approval.timestamp,
+      nonce: approval.nonce,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Audit Chain
+ * Hashing and verification for the telegram-gateway's hash-chained audit
+ * log. Each entry carries the previous entry's hash and its own hash covers
+ * that link. The rules match the core app's src/audit-log.ts, so
+ * `gorky verify-audit` checks both chains the same way.
+ */
+
+import { createHash } from 'crypto';
+
+export interface AuditEntry {
+  /** 1-based position in the chain; gaps mean entries were deleted. */
+  seq: number;
+  timestamp: string;
+  event: string;
+  /** Event details as stored (JSON text), hashed byte for byte. */
+  data: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  /** Entries checked before the first broken link (all of them when ok). */
+  checked: number;
+  brokenAt?: { seq: number; reason: string };
+}
+
+/** prevHash of the first entry. */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export function hashAuditEntry(
+  prevHash: string,
+  entry: Pick<AuditEntry, 'seq' | 'timestamp' | 'event' | 'data'>,
+): string {
+  return createHash('sha256')
+    .update(
+      prevHash +
+        JSON.stringify([entry.seq, entry.timestamp, entry.event, entry.data]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Walk a chain in seq order and report the first broken link: a missing
+ * entry, a prevHash that does not point at the entry before, or a hash that
+ * no longer matches the entry's contents.
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = AUDIT_GENESIS_HASH;
+  let expectedSeq = 1;
+  for (const [index, entry] of entries.entries()) {
+    const broken = (reason: string): AuditVerification => ({
+      ok: false,
+      checked: index,
+      brokenAt: { seq: entry.seq, reason },
+    });
+    if (entry.seq !== expectedSeq) {
+      return broken(`expected entry ${expectedSeq}, found ${entry.seq}`);
+    }
+    if (entry.prevHash !== prevHash) {
+      return broken('previous hash does not match the entry before it');
+    }
+    if (entry.hash !== hashAuditEntry(prevHash, entry)) {
+      return broken('contents do not match the stored hash');
+    }
+    prevHash = entry.hash;
+    expectedSeq++;
+  }
+  return { ok: true, checked: entries.length };
+}
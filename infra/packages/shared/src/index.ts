@@ -5,10 +5,32 @@
 
 import { z } from 'zod';
 
+import { NanoClawPlanSchema, PlanActionSchemas } from './plan-actions.js';
+import planJsonSchema from './plan.schema.json';
+
+// ============================================================================
+// NanoClaw Plan Contract
+// ============================================================================
+
+// plan.schema.json is generated from NanoClaw's src/plan-schema.ts by
+// `npm run schema:plan` in the repo root; do not edit it here.
+export { planJsonSchema as NanoClawPlanJsonSchema };
+export { NanoClawPlanSchema, PlanActionSchemas };
+
+export const NanoClawActionType = z.enum(
+  Object.keys(PlanActionSchemas) as [
+    keyof typeof PlanActionSchemas,
+    ...(keyof typeof PlanActionSchemas)[],
+  ],
+);
+export type NanoClawActionType = z.infer<typeof NanoClawActionType>;
+
 // ============================================================================
 // Action Types
 // ============================================================================
 
+// Actions the gateway can dispatch to ops-runner. reply and question are
+// handled by NanoClaw itself and never reach the gateway.
 export const ActionType = z.enum([
   'ssh',
   'obsidian_write',
@@ -28,38 +50,28 @@ export type RiskLevel = z.infer<typeof RiskLevel>;
 // Action Schema (for NanoClaw plan output)
 // ============================================================================
 
-const BaseActionSchema = z.object({
+// The action fields come from plan-actions.ts, which `npm run schema:plan`
+// generates from plan.schema.json; only the gateway's own fields are added
+// here.
+const GatewayActionFields = {
   id: z.string().optional(), // Generated by gateway if not provided
-  type: ActionType,
   risk: RiskLevel.default('low'),
   requiresApproval: z.boolean().default(true),
-  reason: z.string(), // Explanation of what this action does
   timeout: z.number().optional(), // Seconds, defaults to 60
-});
+};
 
-const SSHActionSchema = BaseActionSchema.extend({
-  type: z.literal('ssh'),
-  target: z.enum(['william', 'willy-ubuntu']),
-  command: z.string().min(1),
-});
+const SSHActionSchema = PlanActionSchemas.ssh.extend(GatewayActionFields);
 
-const ObsidianWriteActionSchema = BaseActionSchema.extend({
-  type: z.literal('obsidian_write'),
-  path: z.string().min(1),
-  patch: z.string().min(1),
-});
+const ObsidianWriteActionSchema =
+  PlanActionSchemas.obsidian_write.extend(GatewayActionFields);
 
-const WebFetchActionSchema = BaseActionSchema.extend({
-  type: z.literal('web_fetch'),
-  url: z.string().url(),
-  mode: z.enum(['http', 'browser']).default('http'),
-  extract: z.string().optional(),
+const WebFetchActionSchema = PlanActionSchemas.web_fetch.extend({
+  ...GatewayActionFields,
+  mode: PlanActionSchemas.web_fetch.shape.mode.unwrap().default('http'),
 });
 
-const NotifyActionSchema = BaseActionSchema.extend({
-  type: z.literal('notify'),
-  message: z.string().min(1),
-});
+const NotifyActionSchema =
+  PlanActionSchemas.notify.extend(GatewayActionFields);
 
 export const ActionSchema = z.discriminatedUnion('type', [
   SSHActionSchema,
@@ -144,9 +156,22 @@ export type Job = z.infer<typeof JobSchema>;
 // API Types
 // ============================================================================
 
+// Ed25519-signed approval from the gateway, verified by ops-runner
+export const SignedApprovalSchema = z.object({
+  jobId: z.string(),
+  action: z.enum(['approve', 'deny']),
+  mode: z.enum(['human', 'auto']),
+  userId: z.number(),
+  planHash: z.string(),
+  timestamp: z.number(),
+  nonce: z.string(),
+  signature: z.string(),
+});
+
 export const RunJobRequestSchema = z.object({
   jobId: z.string(),
   sharedSecret: z.string(),
+  approval: SignedApprovalSchema,
 });
 
 export type RunJobRequest = z.infer<typeof RunJobRequestSchema>;
@@ -244,3 +269,8 @@ export const NanoClawResponseSchema = z.object({
 export type NanoClawResponse = z.infer<typeof NanoClawResponseSchema>;
 
 export { JobsDatabase } from './db.js';
+export * from './approval-signer.js';
+export * from './audit-chain.js';
+export * from './obsidian-patch.js';
+export * from './shell-command.js';
+export * from './url-safety.js';
@@ -0,0 +1,182 @@
+/**
+ * Obsidian Note Patches
+ * ops-runner writes obsidian_write actions with the patch modes of the core
+ * app's src/obsidian-patch.ts. The core app hashes the note when the action
+ * is proposed; the write is refused if the note no longer matches.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+
+export type ObsidianPatchMode =
+  'append' | 'prepend' | 'replace_section' | 'diff';
+
+export interface ObsidianPatch {
+  mode: ObsidianPatchMode;
+  patch: string;
+  /** Heading whose section is replaced (replace_section only). */
+  heading?: string;
+}
+
+export type PatchResult = { content: string } | { error: string };
+
+/** Hash recorded for a note that does not exist yet. */
+export const ABSENT_NOTE_HASH = 'absent';
+
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function hashNoteContent(content: string | null): string {
+  if (content === null) return ABSENT_NOTE_HASH;
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Resolve a vault-relative note path, adding ".md" when missing. Returns null
+ * for absolute paths, paths escaping the vault and hidden segments such as
+ * ".obsidian".
+ */
+export function resolveNotePath(
+  vaultPath: string,
+  notePath: string,
+): string | null {
+  if (!vaultPath || !notePath || path.isAbsolute(notePath)) return null;
+  const segments = notePath.split(/[\\/]/);
+  if (segments.some((segment) => segment === '' || segment.startsWith('.'))) {
+    return null;
+  }
+  const root = path.resolve(vaultPath);
+  const relative = notePath.endsWith('.md') ? notePath : `${notePath}.md`;
+  const resolved = path.resolve(root, relative);
+  return resolved.startsWith(`${root}${path.sep}`) ? resolved : null;
+}
+
+function withTrailingNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function splitFrontmatter(content: string): [string, string] {
+  const match = content.match(/^---\n[\s\S]*?\n---\n/);
+  return match ? [match[0], content.slice(match[0].length)] : ['', content];
+}
+
+function headingText(line: string): { level: number; text: string } | null {
+  const match = line.match(HEADING_LINE);
+  return match ? { level: match[1].length, text: match[2] } : null;
+}
+
+function replaceSection(
+  content: string,
+  heading: string,
+  body: string,
+): PatchResult {
+  const wanted = headingText(heading)?.text ?? heading.trim();
+  const lines = content.split('\n');
+  const start = lines.findIndex((line) => headingText(line)?.text === wanted);
+  if (start === -1) return { error: `Heading not found: ${wanted}` };
+
+  const level = headingText(lines[start])!.level;
+  let end = start + 1;
+  while (end < lines.length) {
+    const next = headingText(lines[end]);
+    if (next && next.level <= level) break;
+    end += 1;
+  }
+
+  const replacement = withTrailingNewline(body).split('\n').slice(0, -1);
+  // Keep a blank line before the next heading, as notes are usually written.
+  if (end < lines.length) replacement.push('');
+  return {
+    content: [
+      ...lines.slice(0, start + 1),
+      ...replacement,
+      ...lines.slice(end),
+    ].join('\n'),
+  };
+}
+
+/** Apply a unified diff; every context and removed line must match exactly. */
+function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  const lines = content.split('\n');
+  const diffLines = diff.split('\n');
+  const output: string[] = [];
+  let cursor = 0;
+  let hunks = 0;
+
+  for (let i = 0; i < diffLines.length; i += 1) {
+    const header = diffLines[i].match(HUNK_HEADER);
+    if (!header) continue;
+    hunks += 1;
+
+    const oldStart = Number(header[1]);
+    let oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+    let newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+    // A hunk that removes nothing inserts after line oldStart.
+    const start = oldRemaining === 0 ? oldStart : oldStart - 1;
+    if (start < cursor || start > lines.length) {
+      return {
+        error: `Hunk ${hunks} is out of order or past the end of the note`,
+      };
+    }
+    output.push(...lines.slice(cursor, start));
+    cursor = start;
+
+    while (oldRemaining > 0 || newRemaining > 0) {
+      i += 1;
+      if (i >= diffLines.length) return { error: `Hunk ${hunks} is truncated` };
+      const line = diffLines[i];
+      if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+      const marker = line[0] ?? ' ';
+      const text = line.slice(1);
+
+      if (marker === '+') {
+        output.push(text);
+        newRemaining -= 1;
+        continue;
+      }
+      if (marker !== ' ' && marker !== '-') {
+        return { error: `Hunk ${hunks} has an invalid line: ${line}` };
+      }
+      if (lines[cursor] !== text) {
+        return {
+          error: `Hunk ${hunks} does not match the note at line ${cursor + 1}`,
+        };
+      }
+      if (marker === ' ') {
+        output.push(text);
+        newRemaining -= 1;
+      }
+      oldRemaining -= 1;
+      cursor += 1;
+    }
+  }
+
+  if (hunks === 0) return { error: 'Diff has no hunks' };
+  output.push(...lines.slice(cursor));
+  return { content: output.join('\n') };
+}
+
+/** Apply a patch to the current note text (null when the note is missing). */
+export function applyObsidianPatch(
+  current: string | null,
+  patch: ObsidianPatch,
+): PatchResult {
+  switch (patch.mode) {
+    case 'append': {
+      const base = current ? withTrailingNewline(current) : '';
+      return { content: `${base}${withTrailingNewline(patch.patch)}` };
+    }
+    case 'prepend': {
+      const [frontmatter, body] = splitFrontmatter(current ?? '');
+      return {
+        content: `${frontmatter}${withTrailingNewline(patch.patch)}${body}`,
+      };
+    }
+    case 'replace_section':
+      if (current === null) return { error: 'Note does not exist' };
+      if (!patch.heading) return { error: 'replace_section needs a heading' };
+      return replaceSection(current, patch.heading, patch.patch);
+    case 'diff':
+      return applyUnifiedDiff(current ?? '', patch.patch);
+  }
+}
@@ -0,0 +1,117 @@
+// Generated from NanoClaw's src/plan-schema.ts by `npm run schema:plan`;
+// do not edit.
+import { z } from 'zod';
+
+export const PlanActionSchemas = {
+  reply: z.object({
+    type: z.literal("reply"),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Answer in the reply text only"),
+  question: z.object({
+    type: z.literal("question"),
+    question: z.string().min(1).describe("question to ask the user"),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Ask the user for missing information"),
+  ssh: z.object({
+    type: z.literal("ssh"),
+    target: z.string().min(1).describe("name of a target in the SSH target registry"),
+    command: z.string().min(1).describe("shell command to run on the target"),
+    reason: z.string().min(1).describe("why the command is needed"),
+    requiresApproval: z.boolean().describe("ask before running (default true)").optional(),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Run a command on a registered host over SSH"),
+  obsidian_write: z.object({
+    type: z.literal("obsidian_write"),
+    path: z.string().min(1).regex(new RegExp("^(?:[^/\\\\.\\u0000\\r\\n][^/\\\\\\u0000\\r\\n]*)(?:\\/[^/\\\\.\\u0000\\r\\n][^/\\\\\\u0000\\r\\n]*)*$")).describe("note path relative to the vault root, e.g. \"Projects/Homelab.md\""),
+    mode: z.enum(["append","prepend","replace_section","diff"]).describe("append (default), prepend (after frontmatter), replace_section (body under heading) or diff (unified diff)").optional(),
+    heading: z.string().min(1).describe("heading whose section is replaced, e.g. \"## Tasks\" (replace_section only)").optional(),
+    patch: z.string().min(1).describe("text to add, new section body, or unified diff for mode diff"),
+    reason: z.string().min(1).describe("why the note should change"),
+    requiresApproval: z.boolean().describe("ask before writing (default true)").optional(),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Change a note in the Obsidian vault"),
+  web_fetch: z.object({
+    type: z.literal("web_fetch"),
+    url: z.string().url().describe("absolute http(s) URL to fetch"),
+    mode: z.enum(["http","browser"]).describe("\"http\" (default) or \"browser\" for pages that need JavaScript").optional(),
+    extract: z.string().describe("what to pull out of the page").optional(),
+    reason: z.string().min(1).describe("why the page is needed"),
+    requiresApproval: z.boolean().describe("ask before fetching (default true in browser mode, false otherwise)").optional(),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Fetch a web page"),
+  file_read: z.object({
+    type: z.literal("file_read"),
+    target: z.string().min(1).describe("name of a target in the SSH target registry"),
+    path: z.string().regex(new RegExp("^(?:\\/(?!\\.\\.?(?:\\/|$))[^/\\u0000\\r\\n]+)+$")).describe("absolute path of the file, within the target readablePaths"),
+    offset: z.number().int().min(0).max(9007199254740991).describe("byte offset to start reading at").optional(),
+    length: z.number().int().min(1).max(9007199254740991).describe("number of bytes to read").optional(),
+    tailLines: z.number().int().min(1).max(9007199254740991).describe("read only the last N lines instead of a byte range").optional(),
+    reason: z.string().min(1).describe("why the file is needed"),
+    requiresApproval: z.boolean().describe("ask before reading (default true)").optional(),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Read a file on a registered host (output is size-capped)"),
+  notify: z.object({
+    type: z.literal("notify"),
+    message: z.string().min(1).describe("text to send"),
+    to: z.string().min(1).describe("folder of the registered group to notify; omit for this chat").optional(),
+    channel: z.string().min(1).describe("channel to deliver on; omit for the channel of the recipient chat").optional(),
+    reason: z.string().min(1).describe("why the notification is needed"),
+    requiresApproval: z.boolean().describe("ask before sending (default true)").optional(),
+    id: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("unique id other actions can refer to").optional(),
+    dependsOn: z.array(z.string().regex(new RegExp("^[A-Za-z0-9_-]+$"))).describe("ids of actions that must finish first").optional(),
+    onlyIf: z.object({
+      action: z.string().regex(new RegExp("^[A-Za-z0-9_-]+$")).describe("id of the earlier action whose result is checked"),
+      exitCode: z.number().int().min(-9007199254740991).max(9007199254740991).describe("run only if the action exited with this code").optional(),
+      outputMatches: z.string().describe("run only if the action output matches this regex").optional(),
+    }).describe("run only when an earlier result matches; implies a dependency").optional(),
+  }).describe("Send a message to this chat or another registered group"),
+};
+
+export const NanoClawPlanSchema = z.object({
+  version: z.union([z.literal(1), z.literal(2)]).describe("omit (or 1) for flat plans; 2 enables id, dependsOn and onlyIf").optional(),
+  actions: z.array(z.discriminatedUnion('type', [
+    PlanActionSchemas.reply,
+    PlanActionSchemas.question,
+    PlanActionSchemas.ssh,
+    PlanActionSchemas.obsidian_write,
+    PlanActionSchemas.web_fetch,
+    PlanActionSchemas.file_read,
+    PlanActionSchemas.notify,
+  ])),
+});
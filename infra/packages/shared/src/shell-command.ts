@@ -0,0 +1,271 @@
+/**
+ * Shell Command Parsing
+ * The gateway policy engine parses every SSH command into argv and matches
+ * rules over the binary and its arguments, never the raw text. The tokenizer
+ * mirrors the core app's src/shell-command.ts, so a command the core app
+ * accepts is read the same way here.
+ */
+
+import path from 'path';
+
+export type ParsedCommand =
+  { ok: true; argv: string[] } | { ok: false; reason: string };
+
+export type RuleMatch = { ok: true } | { ok: false; reason: string };
+
+/** One rule as seen by a policy explanation. */
+export interface RuleEvaluation {
+  rule: string;
+  matched: boolean;
+  /** Why the rule did not match. */
+  detail?: string;
+}
+
+/** Constraints on one argument or option value; every given field must hold. */
+export interface ArgSpec {
+  /** Exact values allowed. */
+  oneOf?: string[];
+  /** Absolute, normalized path equal to or below one of these. */
+  pathPrefix?: string[];
+  /** Whole number no larger than this. */
+  maxInt?: number;
+  /** Regex the whole value must match. */
+  pattern?: string;
+}
+
+export interface CommandRule {
+  binary: string;
+  /** Words that must follow the binary, e.g. ['status'] for systemctl. */
+  subcommand?: string[];
+  /** Single-letter switches that may be given alone or bundled ("lah"). */
+  shortFlags?: string;
+  /** Options by spelling: true for a switch, an ArgSpec when it takes a value. */
+  options?: Record<string, true | ArgSpec>;
+  requiredOptions?: string[];
+  /** Positional arguments, in order. */
+  args?: ArgSpec[];
+  /** Positional arguments that must be present (default: all of args). */
+  minArgs?: number;
+}
+
+const UNQUOTED_REFUSALS: Array<[RegExp, string]> = [
+  [/[;&|]/, 'command chaining or pipes'],
+  [/[<>]/, 'redirection'],
+  [/[$`]/, 'substitution or variable expansion'],
+  [/[*?[]/, 'globbing'],
+  [/[{}]/, 'brace expansion'],
+  [/[()]/, 'subshells'],
+  [/\\/, 'escapes'],
+];
+
+const SAFE_WORD = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/** C0 controls other than tab and line feed, and DEL. */
+function isControlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code < 0x20 && code !== 0x09 && code !== 0x0a) || code === 0x7f;
+}
+
+/**
+ * Split a command into argv. Single and double quotes group words; anything
+ * the shell would expand or treat as an operator is refused with a reason.
+ */
+export function parseCommand(command: string): ParsedCommand {
+  if (/[\r\n]/.test(command)) {
+    return { ok: false, reason: 'Line breaks are not allowed' };
+  }
+  if ([...command].some(isControlCharacter)) {
+    return { ok: false, reason: 'Control characters are not allowed' };
+  }
+
+  const argv: string[] = [];
+  let word = '';
+  let inWord = false;
+
+  for (let i = 0; i < command.length; i += 1) {
+    const ch = command[i];
+    if (ch === ' ' || ch === '\t') {
+      if (inWord) argv.push(word);
+      word = '';
+      inWord = false;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = command.indexOf(ch, i + 1);
+      if (end === -1) {
+        return { ok: false, reason: `Unterminated ${ch} quote` };
+      }
+      const quoted = command.slice(i + 1, end);
+      if (ch === '"') {
+        const expansion = quoted.match(/[$`\\]/);
+        if (expansion) {
+          return {
+            ok: false,
+            reason: `"${expansion[0]}" inside double quotes is not allowed`,
+          };
+        }
+      }
+      word += quoted;
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (!inWord && (ch === '~' || ch === '#')) {
+      return {
+        ok: false,
+        reason: `"${ch}" at the start of a word is not allowed (${
+          ch === '~' ? 'home directory expansion' : 'comment'
+        })`,
+      };
+    }
+    const refusal = UNQUOTED_REFUSALS.find(([chars]) => chars.test(ch));
+    if (refusal) {
+      return {
+        ok: false,
+        reason: `Unquoted "${ch}" is not allowed (${refusal[1]})`,
+      };
+    }
+    word += ch;
+    inWord = true;
+  }
+  if (inWord) argv.push(word);
+
+  if (argv.length === 0) return { ok: false, reason: 'Command is empty' };
+  return { ok: true, argv };
+}
+
+/**
+ * Join argv back into a single normalized command, quoting only words that
+ * need it. Regex rules are matched against this form, never the raw text.
+ */
+export function formatArgv(argv: string[]): string {
+  return argv
+    .map((word) =>
+      SAFE_WORD.test(word) ? word : `'${word.replace(/'/g, `'"'"'`)}'`,
+    )
+    .join(' ');
+}
+
+/**
+ * The first argument containing a path with "." or ".." segments or repeated
+ * slashes. Regex rules cannot tell /var/log/../../etc/shadow from a log
+ * file, so commands with such arguments never match an allow pattern.
+ */
+export function unnormalizedPathArg(argv: string[]): string | undefined {
+  return argv.find(
+    (word) => word.includes('/') && path.posix.normalize(word) !== word,
+  );
+}
+
+/** Short name for a rule in explanations, e.g. "docker ps". */
+export function commandRuleLabel(rule: CommandRule): string {
+  return formatArgv([rule.binary, ...(rule.subcommand ?? [])]);
+}
+
+/** Why value fails spec, or null when it satisfies it. */
+export function checkArg(value: string, spec: ArgSpec): string | null {
+  if (spec.oneOf && !spec.oneOf.includes(value)) {
+    return `must be one of ${spec.oneOf.join(', ')}`;
+  }
+  if (spec.maxInt !== undefined) {
+    if (!/^\d+$/.test(value)) return 'must be a whole number';
+    if (Number(value) > spec.maxInt) return `must be at most ${spec.maxInt}`;
+  }
+  if (spec.pathPrefix) {
+    if (!path.posix.isAbsolute(value)) return 'must be an absolute path';
+    if (path.posix.normalize(value) !== value) {
+      return 'must be a normalized path';
+    }
+    const allowed = spec.pathPrefix.some((entry) => {
+      const root = entry.replace(/\/+$/, '');
+      return value === root || value.startsWith(`${root}/`);
+    });
+    if (!allowed) return `must be under ${spec.pathPrefix.join(', ')}`;
+  }
+  if (spec.pattern && !new RegExp(`^(?:${spec.pattern})$`).test(value)) {
+    return `does not match ${spec.pattern}`;
+  }
+  return null;
+}
+
+/** Split "--name=value" or "-n50" into the option and its attached value. */
+function splitInlineOption(word: string): [string, string | undefined] {
+  if (word.startsWith('--')) {
+    const eq = word.indexOf('=');
+    return eq === -1
+      ? [word, undefined]
+      : [word.slice(0, eq), word.slice(eq + 1)];
+  }
+  return [word.slice(0, 2), word.length > 2 ? word.slice(2) : undefined];
+}
+
+/** Check parsed argv against a rule, explaining the first mismatch. */
+export function matchCommandRule(argv: string[], rule: CommandRule): RuleMatch {
+  const fail = (reason: string): RuleMatch => ({ ok: false, reason });
+  if (argv[0] !== rule.binary) return fail(`Command is not ${rule.binary}`);
+
+  const subcommand = rule.subcommand ?? [];
+  const prefix = [rule.binary, ...subcommand].join(' ');
+  if (subcommand.some((word, i) => argv[i + 1] !== word)) {
+    return fail(`Command is not ${prefix}`);
+  }
+
+  const options = rule.options ?? {};
+  const args = rule.args ?? [];
+  const seen = new Set<string>();
+  let positional = 0;
+
+  for (let i = 1 + subcommand.length; i < argv.length; i += 1) {
+    const word = argv[i];
+    if (!word.startsWith('-') || word === '-') {
+      const spec = args[positional];
+      if (!spec) return fail(`Unexpected argument ${word} for ${prefix}`);
+      const reason = checkArg(word, spec);
+      if (reason) return fail(`Argument ${word} ${reason}`);
+      positional += 1;
+      continue;
+    }
+
+    const spec = options[word];
+    if (spec === true) {
+      seen.add(word);
+      continue;
+    }
+    if (spec) {
+      const value = argv[i + 1];
+      if (value === undefined) return fail(`Option ${word} needs a value`);
+      const reason = checkArg(value, spec);
+      if (reason) return fail(`Option ${word} value ${value} ${reason}`);
+      seen.add(word);
+      i += 1;
+      continue;
+    }
+
+    const [name, inline] = splitInlineOption(word);
+    const inlineSpec = options[name];
+    if (inline !== undefined && inlineSpec && inlineSpec !== true) {
+      const reason = checkArg(inline, inlineSpec);
+      if (reason) return fail(`Option ${name} value ${inline} ${reason}`);
+      seen.add(name);
+      continue;
+    }
+
+    const shortFlags = rule.shortFlags ?? '';
+    if (
+      /^-[A-Za-z0-9]+$/.test(word) &&
+      [...word.slice(1)].every((flag) => shortFlags.includes(flag))
+    ) {
+      continue;
+    }
+    return fail(`Option ${word} is not allowed for ${prefix}`);
+  }
+
+  const missing = (rule.requiredOptions ?? []).find((name) => !seen.has(name));
+  if (missing) return fail(`Option ${missing} is required for ${prefix}`);
+  if (positional < (rule.minArgs ?? args.length)) {
+    return fail(`Missing argument for ${prefix}`);
+  }
+  return { ok: true };
+}
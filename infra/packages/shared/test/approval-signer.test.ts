@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import {
+  APPROVAL_TTL_MS,
+  ApprovalSigner,
+  hashPlan,
+  MemoryNonceStore,
+} from '../src/approval-signer.js';
+
+const PLAN = {
+  summary: 'Check load',
+  actions: [{ type: 'ssh', target: 'william', command: 'uptime' }],
+};
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('ApprovalSigner', () => {
+  test('verifies an approval signed for the job and plan', () => {
+    const signer = new ApprovalSigner();
+    const approval = signer.signApproval('job-1', 'approve', 'human', 42, PLAN);
+
+    expect(approval.planHash).toBe(hashPlan(PLAN));
+    expect(
+      signer.verifyApproval(approval, { jobId: 'job-1', plan: PLAN }),
+    ).toEqual({ ok: true });
+  });
+
+  test('verifies with only the public key of the signing side', () => {
+    const gateway = new ApprovalSigner();
+    const publicKey = (gateway as unknown as { publicKey: string }).publicKey;
+    const runner = new ApprovalSigner({ publicKey });
+    const approval = gateway.signApproval('job-1', 'approve', 'auto', 42, PLAN);
+
+    expect(
+      runner.verifyApproval(approval, { jobId: 'job-1', plan: PLAN }).ok,
+    ).toBe(true);
+    expect(() =>
+      runner.signApproval('job-1', 'approve', 'human', 42, PLAN),
+    ).toThrow(/no private key/);
+  });
+
+  test('refuses a plan edited after approval', () => {
+    const signer = new ApprovalSigner();
+    const approval = signer.signApproval('job-1', 'approve', 'human', 42, PLAN);
+    const edited = {
+      ...PLAN,
+      actions: [{ type: 'ssh', target: 'william', command: 'reboot' }],
+    };
+
+    expect(
+      signer.verifyApproval(approval, { jobId: 'job-1', plan: edited }),
+    ).toEqual({
+      ok: false,
+      reason: 'Plan changed after it was approved',
+    });
+    // Swapping in the edited plan's hash breaks the signature instead
+    expect(
+      signer.verifyApproval(
+        { ...approval, planHash: hashPlan(edited) },
+        { jobId: 'job-1', plan: edited },
+      ),
+    ).toEqual({ ok: false, reason: 'Invalid approval signature' });
+  });
+
+  test('refuses an approval whose approver or mode was changed', () => {
+    const signer = new ApprovalSigner();
+    const approval = signer.signApproval('job-1', 'approve', 'auto', 42, PLAN);
+    const expected = { jobId: 'job-1', plan: PLAN };
+
+    const invalid = { ok: false, reason: 'Invalid approval signature' };
+    expect(signer.verifyApproval({ ...approval, userId: 7 }, expected)).toEqual(
+      invalid,
+    );
+    expect(
+      signer.verifyApproval({ ...approval, mode: 'human' }, expected),
+    ).toEqual(invalid);
+  });
+
+  test('refuses another job, a denial and a signature from another key', () => {
+    const signer = new ApprovalSigner();
+    const expected = { jobId: 'job-1', plan: PLAN };
+
+    expect(
+      signer.verifyApproval(
+        signer.signApproval('job-2', 'approve', 'human', 42, PLAN),
+        expected,
+      ).ok,
+    ).toBe(false);
+    expect(
+      signer.verifyApproval(
+        signer.signApproval('job-1', 'deny', 'human', 42, PLAN),
+        expected,
+      ),
+    ).toEqual({ ok: false, reason: 'Approval does not approve the job' });
+    expect(
+      signer.verifyApproval(
+        new ApprovalSigner().signApproval(
+          'job-1',
+          'approve',
+          'human',
+          42,
+          PLAN,
+        ),
+        expected,
+      ),
+    ).toEqual({ ok: false, reason: 'Invalid approval signature' });
+  });
+
+  test('refuses the same approval twice', () => {
+    const signer = new ApprovalSigner();
+    const approval = signer.signApproval('job-1', 'approve', 'human', 42, PLAN);
+    const expected = { jobId: 'job-1', plan: PLAN };
+
+    expect(signer.verifyApproval(approval, expected).ok).toBe(true);
+    expect(signer.verifyApproval(approval, expected)).toEqual({
+      ok: false,
+      reason: 'Approval was already used (replay)',
+    });
+  });
+
+  test('refuses expired approvals and approvals from the future', () => {
+    const signer = new ApprovalSigner();
+    const expected = { jobId: 'job-1', plan: PLAN };
+    const now = Date.now();
+
+    setSystemTime(new Date(now - APPROVAL_TTL_MS - 1000));
+    const old = signer.signApproval('job-1', 'approve', 'human', 42, PLAN);
+    setSystemTime(new Date(now + 10 * 60 * 1000));
+    const future = signer.signApproval('job-1', 'approve', 'human', 42, PLAN);
+    setSystemTime();
+
+    expect(signer.verifyApproval(old, expected)).toEqual({
+      ok: false,
+      reason: 'Approval expired',
+    });
+    expect(signer.verifyApproval(future, expected)).toEqual({
+      ok: false,
+      reason: 'Approval timestamp is in the future',
+    });
+  });
+});
+
+describe('MemoryNonceStore', () => {
+  test('forgets nonces once they expire', () => {
+    const store = new MemoryNonceStore();
+    const now = Date.now();
+
+    expect(store.claim('a', now + 1000)).toBe(true);
+    expect(store.claim('a', now + 1000)).toBe(false);
+
+    setSystemTime(new Date(now + 2000));
+    expect(store.claim('a', now + 3000)).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+#!/bin/bash
+#
+# Generate the Ed25519 key pair the gateway signs approvals with
+#
+
+set -euo pipefail
+
+KEY_DIR="$(dirname "$0")/../keys"
+KEY_NAME="approval"
+
+mkdir -p "$KEY_DIR"
+
+echo "🔑 Generating approval signing key..."
+echo "   Location: $KEY_DIR/$KEY_NAME.key"
+
+# Private key stays with the gateway, public key goes to ops-runner
+openssl genpkey -algorithm ed25519 -out "$KEY_DIR/$KEY_NAME.key"
+chmod 600 "$KEY_DIR/$KEY_NAME.key"
+openssl pkey -in "$KEY_DIR/$KEY_NAME.key" -pubout -out "$KEY_DIR/$KEY_NAME.pub"
+
+echo "✅ Key generated!"
+echo ""
+echo "Next steps:"
+echo "1. The gateway mounts $KEY_NAME.key (APPROVAL_PRIVATE_KEY_PATH)"
+echo "2. Put $KEY_NAME.pub in ops-runner's keys directory (APPROVAL_PUBLIC_KEY_PATH)"
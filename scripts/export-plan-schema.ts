@@ -0,0 +1,35 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Write the plan contract as JSON Schema for tooling, plus copies for the
+ * agent-runner and the infra shared package (their Docker build contexts
+ * cannot reach src/), and the zod action schemas generated from it for the
+ * infra shared package. Run after changing src/plan-schema.ts:
+ *
+ *   npm run schema:plan
+ */
+import fs from 'fs';
+import path from 'path';
+
+import { buildPlanJsonSchema, buildPlanZodSource } from '../src/plan-schema.js';
+
+const PLAN_SCHEMA_OUTPUTS = [
+  'schema/plan.schema.json',
+  'container/agent-runner/src/plan.schema.json',
+  'infra/packages/shared/src/plan.schema.json',
+];
+
+const PLAN_ZOD_OUTPUT = 'infra/packages/shared/src/plan-actions.ts';
+
+function write(output: string, content: string): void {
+  const filePath = path.join(process.cwd(), output);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  console.log(`Wrote ${output}`);
+}
+
+const content = `${JSON.stringify(buildPlanJsonSchema(), null, 2)}\n`;
+
+for (const output of PLAN_SCHEMA_OUTPUTS) {
+  write(output, content);
+}
+write(PLAN_ZOD_OUTPUT, buildPlanZodSource());
@@ -1,12 +1,22 @@
 #!/usr/bin/env bash
 set -euo pipefail
 
-QUEUE_FILE="${1:-$(pwd)/data/action-queue.json}"
+DB_FILE="${1:-$(pwd)/store/messages.db}"
+LIMIT="${LIMIT:-20}"
 
-if [[ ! -f "$QUEUE_FILE" ]]; then
-  echo "No action queue file found at: $QUEUE_FILE"
+if [[ ! -f "$DB_FILE" ]]; then
+  echo "No message store found at: $DB_FILE"
   exit 0
 fi
 
-echo "Latest action proposals from: $QUEUE_FILE"
-cat "$QUEUE_FILE"
+if ! command -v sqlite3 >/dev/null 2>&1; then
+  echo "sqlite3 is required to list action proposals."
+  exit 1
+fi
+
+echo "Latest action proposals from: $DB_FILE"
+sqlite3 -header -column "$DB_FILE" \
+  "SELECT id, status, chat_jid, created_at, decided_at, completed_at, substr(request_text, 1, 60) AS request
+   FROM action_proposals
+   ORDER BY created_at DESC
+   LIMIT ${LIMIT};"
@@ -0,0 +1,40 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Explain how an SSH command would be treated: the core readonly allowlist
+ * (risk, approvals, whether the executor runs it) and the telegram-gateway
+ * PolicyEngine, each listing the rules it tried. Run through the CLI, with
+ * the command quoted as one argument so its own quoting survives:
+ *
+ *   gorky policy explain <target> '<command>'
+ */
+import {
+  buildPolicyForTargets,
+  formatPolicyExplanation as formatGatewayExplanation,
+  PolicyEngine,
+} from '../infra/apps/telegram-gateway/src/policy.js';
+import {
+  explainSshCommand,
+  formatPolicyExplanation,
+} from '../src/policy-explain.js';
+import { getSshTargets } from '../src/ssh-targets.js';
+
+const [target, rawCommand, ...extra] = process.argv.slice(2);
+const command = rawCommand?.trim();
+if (!target || !command || extra.length > 0) {
+  console.error("Usage: gorky policy explain <target> '<command>'");
+  process.exit(1);
+}
+
+const gateway = new PolicyEngine(buildPolicyForTargets(getSshTargets()));
+const gatewayExplanation = gateway.explainAction({
+  type: 'ssh',
+  target,
+  command,
+  risk: 'none',
+  requiresApproval: false,
+  reason: 'Policy explanation',
+});
+
+console.log(formatPolicyExplanation(explainSshCommand(target, command)));
+console.log('');
+console.log(formatGatewayExplanation(target, command, gatewayExplanation));
@@ -0,0 +1,37 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Verify the hash-chained audit logs: the core chain in store/messages.db and
+ * the telegram-gateway chain in infra/data/jobs.db (GATEWAY_DB_PATH). Both
+ * databases are opened read-only. Prints the first broken link of each and
+ * exits 1 if either is broken. Run through the CLI:
+ *
+ *   gorky verify-audit
+ */
+import fs from 'fs';
+import path from 'path';
+
+import { formatAuditVerification, verifyAuditChain } from '../src/audit-log.js';
+import { STORE_DIR } from '../src/config.js';
+import { readAuditEntries } from '../src/db.js';
+
+/** Verify the chain in dbPath and print the result; false when broken. */
+function verifyDatabase(label: string, dbPath: string): boolean {
+  if (!fs.existsSync(dbPath)) {
+    console.log(`${label}: skipped (${dbPath} not found)`);
+    return true;
+  }
+  const result = verifyAuditChain(readAuditEntries(dbPath));
+  console.log(formatAuditVerification(label, result));
+  return result.ok;
+}
+
+const coreOk = verifyDatabase(
+  'Core audit log',
+  path.join(STORE_DIR, 'messages.db'),
+);
+const gatewayOk = verifyDatabase(
+  'Gateway audit log',
+  process.env.GATEWAY_DB_PATH || path.join('infra', 'data', 'jobs.db'),
+);
+
+process.exit(coreOk && gatewayOk ? 0 : 1);
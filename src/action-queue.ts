@@ -1,27 +1,124 @@
-import fs from 'fs';
-import path from 'path';
+import {
+  checkReadonlyCommand,
+  type DryRunReport,
+  type ExecuteOptions,
+  type ExecutionResult,
+  type HeldOutcome,
+  isAllowedReadonlyCommand,
+  simulateApprovedActions,
+} from './approved-executor.js';
+import { recordAuditEvent } from './audit-log.js';
+import {
+  ACTION_PROPOSAL_TTL_BY_TYPE_MS,
+  ACTION_PROPOSAL_TTL_MS,
+  HIGH_RISK_APPROVAL_QUORUM,
+  PROPOSAL_SWEEP_INTERVAL,
+} from './config.js';
+import {
+  createActionProposal,
+  getActionProposal,
+  getActionProposalsForChat,
+  getExpiredActionProposals,
+  runInTransaction,
+  updateActionProposal,
+} from './db.js';
+import { logger } from './logger.js';
+import {
+  applyObsidianPatch,
+  readNote,
+  snapshotNoteHashes,
+} from './obsidian-patch.js';
+import { type Action, type Plan, validateAction } from './plan-contract.js';
+import type { ApprovalConfig } from './types.js';
 
-import { DATA_DIR } from './config.js';
-import type { Plan } from './plan-contract.js';
+export type ActionProposalStatus =
+  | 'proposed'
+  | 'approved'
+  | 'denied'
+  | 'executing'
+  | 'executed'
+  | 'failed'
+  | 'expired'
+  | 'superseded';
+
+export type ActionDecision = 'pending' | 'approved' | 'denied';
+
+export type ActionRisk = 'normal' | 'high';
+
+export interface ActionApproval {
+  approverId: string;
+  approvedAt: string;
+}
+
+export interface ActionDecisionRecord {
+  decision: ActionDecision;
+  decidedAt?: string;
+  reason?: string;
+  /** User who denied the action, when known. */
+  deniedBy?: string;
+  /** Distinct approvals collected so far, in the order they arrived. */
+  approvals?: ActionApproval[];
+  /** Approvals needed before the action counts as approved. */
+  requiredApprovals?: number;
+}
 
 export interface ActionProposalRecord {
   id: string;
   createdAt: string;
-  status: 'proposed' | 'approved' | 'denied';
+  status: ActionProposalStatus;
   groupFolder: string;
   chatJid: string;
   requestText?: string;
   actions: Plan['actions'];
+  /** One entry per action, in the same order as `actions`. */
+  actionDecisions?: ActionDecisionRecord[];
   decidedAt?: string;
   decisionReason?: string;
+  results?: ExecutionResult[];
+  completedAt?: string;
+  /** Id of the proposal this one revises (set by amendActionProposal). */
+  revisionOf?: string;
+  /** Id of the revision that replaced this proposal. */
+  supersededBy?: string;
+  /** After this time an undecided proposal can no longer be approved. */
+  expiresAt?: string;
+  /** Channel message carrying the approval buttons, so it can be edited. */
+  approvalMessageId?: string;
 }
 
-const ACTION_QUEUE_PATH = path.join(DATA_DIR, 'action-queue.json');
+export interface ProposalAmendResult {
+  revision: ActionProposalRecord | null;
+  errors: string[];
+  warnings: string[];
+}
 
 function createId(): string {
   return `ap-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/** The shortest TTL among the proposal's action types wins. */
+export function proposalTtlMs(
+  actions: Plan['actions'],
+  defaultTtlMs = ACTION_PROPOSAL_TTL_MS,
+  ttlByType: Record<string, number> = ACTION_PROPOSAL_TTL_BY_TYPE_MS,
+): number {
+  return Math.min(
+    ...actions.map((action) => ttlByType[action.type] ?? defaultTtlMs),
+  );
+}
+
+function expiryFrom(createdAt: string, actions: Plan['actions']): string {
+  return new Date(
+    new Date(createdAt).getTime() + proposalTtlMs(actions),
+  ).toISOString();
+}
+
+function isPastExpiry(record: ActionProposalRecord, now: Date): boolean {
+  return Boolean(
+    record.expiresAt && new Date(record.expiresAt).getTime() <= now.getTime(),
+  );
+}
+
 export function enqueueActionProposal(input: {
   groupFolder: string;
   chatJid: string;
@@ -32,50 +129,46 @@ export function enqueueActionProposal(input: {
     return null;
   }
 
+  const createdAt = new Date().toISOString();
+  const actions = snapshotNoteHashes(input.plan.actions);
   const record: ActionProposalRecord = {
     id: createId(),
-    createdAt: new Date().toISOString(),
+    createdAt,
     status: 'proposed',
     groupFolder: input.groupFolder,
     chatJid: input.chatJid,
     requestText: input.requestText?.trim() || undefined,
-    actions: input.plan.actions,
+    actions,
+    actionDecisions: actions.map(() => ({ decision: 'pending' })),
+    expiresAt: expiryFrom(createdAt, actions),
   };
 
-  const queue = readActionQueue();
-  queue.push(record);
-  writeActionQueue(queue);
-
+  runInTransaction(() => {
+    createActionProposal(record);
+    recordAuditEvent('proposal.created', {
+      proposalId: record.id,
+      chatJid: record.chatJid,
+      actions,
+    });
+  });
   return record;
 }
 
-export function readActionQueue(): ActionProposalRecord[] {
-  try {
-    if (!fs.existsSync(ACTION_QUEUE_PATH)) return [];
-    const raw = fs.readFileSync(ACTION_QUEUE_PATH, 'utf8').trim();
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed as ActionProposalRecord[];
-  } catch {
-    return [];
-  }
+export function getPendingActionProposals(
+  chatJid: string,
+): ActionProposalRecord[] {
+  return getActionProposalsForChat(chatJid, ['proposed']);
 }
 
-function writeActionQueue(queue: ActionProposalRecord[]): void {
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(ACTION_QUEUE_PATH, JSON.stringify(queue, null, 2), 'utf8');
-}
-
-export function getPendingActionProposals(chatJid: string): ActionProposalRecord[] {
-  return readActionQueue()
-    .filter((item) => item.chatJid === chatJid && item.status === 'proposed')
-    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+export function getRecentActionProposals(
+  chatJid: string,
+  limit = 10,
+): ActionProposalRecord[] {
+  return getActionProposalsForChat(chatJid, undefined, limit);
 }
 
 export function getActionProposalById(id: string): ActionProposalRecord | null {
-  const item = readActionQueue().find((entry) => entry.id === id);
-  return item || null;
+  return getActionProposal(id) || null;
 }
 
 export function decideActionProposal(
@@ -83,14 +176,517 @@ export function decideActionProposal(
   decision: 'approved' | 'denied',
   decisionReason?: string,
 ): ActionProposalRecord | null {
-  const queue = readActionQueue();
-  const target = queue.find((item) => item.id === id);
-  if (!target || target.status !== 'proposed') return null;
-  target.status = decision;
-  target.decidedAt = new Date().toISOString();
-  if (decisionReason) {
-    target.decisionReason = decisionReason;
-  }
-  writeActionQueue(queue);
-  return target;
+  return decideProposalActions(id, decision, undefined, { decisionReason });
+}
+
+/**
+ * Actions that can run and reach beyond the built-in readonly rules need a
+ * quorum of approvers: Obsidian writes, and ssh commands allowed only by the
+ * target's own allowlist. Commands outside every allowlist are not high risk,
+ * since the executor blocks them however many approve.
+ */
+export function classifyActionRisk(action: Action): ActionRisk {
+  if (action.type === 'obsidian_write') return 'high';
+  if (
+    action.type === 'ssh' &&
+    checkReadonlyCommand(action.command, action.target).targetRule
+  ) {
+    return 'high';
+  }
+  return 'normal';
+}
+
+/** With no approver list configured, anyone in the chat may decide. */
+export function isAllowedApprover(
+  config: ApprovalConfig | undefined,
+  approverId: string | undefined,
+): boolean {
+  if (!config?.approvers || config.approvers.length === 0) return true;
+  return approverId !== undefined && config.approvers.includes(approverId);
+}
+
+export function requiredApprovalsFor(
+  action: Action,
+  config: ApprovalConfig | undefined,
+): number {
+  if (classifyActionRisk(action) === 'normal') return 1;
+  return Math.max(1, config?.highRiskQuorum ?? HIGH_RISK_APPROVAL_QUORUM);
+}
+
+export interface DecideOptions {
+  decisionReason?: string;
+  denyRemaining?: boolean;
+  /** Channel user id of whoever made the decision. */
+  approverId?: string;
+  approvalConfig?: ApprovalConfig;
+  /** Chat the decision came from; must be the chat of the proposal. */
+  chatJid?: string;
+}
+
+/**
+ * Record a decision for some or all actions of a proposal. Without
+ * actionIndices (0-based) every still-pending action gets the decision.
+ * Approving a high-risk action adds one approval; the action stays pending
+ * until enough distinct approvers agree. With denyRemaining, pending actions
+ * outside actionIndices are denied. Once no action is pending the proposal
+ * becomes `approved` if any action was approved, otherwise `denied`.
+ * Returns null if the proposal is not open for decisions, an index is out of
+ * range, the decision comes from another chat, or the approver is not on the
+ * group's approver list.
+ */
+export function decideProposalActions(
+  id: string,
+  decision: 'approved' | 'denied',
+  actionIndices?: number[],
+  options: DecideOptions = {},
+): ActionProposalRecord | null {
+  if (!isAllowedApprover(options.approvalConfig, options.approverId)) {
+    return null;
+  }
+
+  const record = getActionProposalById(id);
+  if (!record || record.status !== 'proposed') return null;
+  if (options.chatJid !== undefined && options.chatJid !== record.chatJid) {
+    return null;
+  }
+  // The sweeper runs periodically; never let a late tap slip through the gap.
+  if (isPastExpiry(record, new Date())) {
+    expireActionProposal(record);
+    return null;
+  }
+
+  const count = record.actions.length;
+  if (actionIndices?.some((index) => index < 0 || index >= count)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const decisions: ActionDecisionRecord[] = record.actions.map(
+    (_action, index) =>
+      record.actionDecisions?.[index] ?? { decision: 'pending' },
+  );
+  const selected = new Set(actionIndices ?? decisions.keys());
+  for (const index of selected) {
+    const current = decisions[index];
+    if (current.decision !== 'pending') continue;
+    if (decision === 'denied') {
+      decisions[index] = {
+        ...current,
+        decision,
+        decidedAt: now,
+        ...(options.decisionReason ? { reason: options.decisionReason } : {}),
+        ...(options.approverId ? { deniedBy: options.approverId } : {}),
+      };
+      continue;
+    }
+
+    const approverId = options.approverId ?? 'unknown';
+    const approvals = current.approvals ?? [];
+    if (!approvals.some((entry) => entry.approverId === approverId)) {
+      approvals.push({ approverId, approvedAt: now });
+    }
+    const requiredApprovals = requiredApprovalsFor(
+      record.actions[index],
+      options.approvalConfig,
+    );
+    decisions[index] = {
+      ...current,
+      approvals,
+      requiredApprovals,
+      ...(approvals.length >= requiredApprovals
+        ? { decision: 'approved', decidedAt: now }
+        : {}),
+    };
+  }
+  if (options.denyRemaining) {
+    for (const [index, entry] of decisions.entries()) {
+      if (entry.decision === 'pending' && !selected.has(index)) {
+        decisions[index] = {
+          ...entry,
+          decision: 'denied',
+          decidedAt: now,
+          reason: 'Not selected for approval',
+          ...(options.approverId ? { deniedBy: options.approverId } : {}),
+        };
+      }
+    }
+  }
+
+  const settled = decisions.every((entry) => entry.decision !== 'pending');
+  const anyApproved = decisions.some((entry) => entry.decision === 'approved');
+  return runInTransaction(() => {
+    const updated = updateActionProposal(
+      id,
+      {
+        actionDecisions: decisions,
+        ...(settled
+          ? {
+              status: anyApproved ? 'approved' : 'denied',
+              decidedAt: now,
+              ...(options.decisionReason
+                ? { decisionReason: options.decisionReason }
+                : {}),
+            }
+          : {}),
+      },
+      'proposed',
+    );
+    if (!updated) return null;
+    const result = getActionProposalById(id);
+    recordAuditEvent('proposal.decided', {
+      proposalId: id,
+      decision,
+      actionIndices: actionIndices ?? null,
+      approverId: options.approverId ?? null,
+      status: result?.status ?? null,
+    });
+    return result;
+  });
+}
+
+/**
+ * Dry run of approving a proposal: what would execute if approverId approved
+ * actionIndices (all pending actions when omitted) right now. Nothing is
+ * recorded or dispatched. Actions that would still be short of quorum are
+ * reported as needs_approval; like /approve with a list, unselected pending
+ * actions count as denied.
+ */
+export function simulateProposalApproval(
+  record: ActionProposalRecord,
+  actionIndices: number[] | undefined,
+  options: DecideOptions = {},
+  executeOptions: ExecuteOptions = {},
+): Promise<DryRunReport> {
+  const selected = new Set(actionIndices ?? record.actions.keys());
+  const held = new Map<number, HeldOutcome>();
+  for (const [index, action] of record.actions.entries()) {
+    const entry = record.actionDecisions?.[index] ?? { decision: 'pending' };
+    if (entry.decision === 'approved') continue;
+    if (entry.decision === 'denied' || !selected.has(index)) {
+      held.set(index, {
+        outcome: 'skipped',
+        reason:
+          entry.decision === 'denied'
+            ? 'Denied.'
+            : 'Not selected for approval.',
+      });
+      continue;
+    }
+    const approvers = new Set(
+      (entry.approvals ?? []).map((approval) => approval.approverId),
+    );
+    approvers.add(options.approverId ?? 'unknown');
+    const missing =
+      requiredApprovalsFor(action, options.approvalConfig) - approvers.size;
+    if (missing > 0) {
+      held.set(index, {
+        outcome: 'needs_approval',
+        reason: `High risk: needs ${missing} more approval(s) before anything runs.`,
+      });
+    }
+  }
+  return simulateApprovedActions(record.actions, executeOptions, held);
+}
+
+/** 0-based indices of actions holding some approvals but short of quorum. */
+export function getAwaitingQuorumIndices(
+  record: ActionProposalRecord,
+): number[] {
+  return record.actions
+    .map((_action, index) => index)
+    .filter((index) => {
+      const entry = record.actionDecisions?.[index];
+      return (
+        entry?.decision === 'pending' && (entry.approvals?.length ?? 0) > 0
+      );
+    });
+}
+
+/** 0-based indices of the actions that were approved. */
+export function getApprovedActionIndices(
+  record: ActionProposalRecord,
+): number[] {
+  return record.actions
+    .map((_action, index) => index)
+    .filter(
+      (index) => record.actionDecisions?.[index]?.decision === 'approved',
+    );
+}
+
+/**
+ * Move an approved proposal into `executing`. Returns null if the proposal is
+ * not (or no longer) approved, e.g. because another handler already took it.
+ */
+export function markActionProposalExecuting(
+  id: string,
+): ActionProposalRecord | null {
+  return runInTransaction(() => {
+    if (!updateActionProposal(id, { status: 'executing' }, 'approved')) {
+      return null;
+    }
+    const record = getActionProposalById(id);
+    recordAuditEvent('proposal.dispatched', {
+      proposalId: id,
+      actionIndices: record ? getApprovedActionIndices(record) : [],
+    });
+    return record;
+  });
+}
+
+/**
+ * Store per-action results and settle the proposal as `executed`, or `failed`
+ * when any action failed or was blocked. Returns null if the proposal is no
+ * longer executing, e.g. because it was already settled.
+ */
+export function recordActionProposalResults(
+  id: string,
+  results: ExecutionResult[],
+): ActionProposalRecord | null {
+  const failed = results.some(
+    (result) => result.status === 'failed' || result.status === 'blocked',
+  );
+  return runInTransaction(() => {
+    const updated = updateActionProposal(
+      id,
+      {
+        status: failed ? 'failed' : 'executed',
+        results,
+        completedAt: new Date().toISOString(),
+      },
+      'executing',
+    );
+    if (!updated) {
+      logger.warn(
+        { proposalId: id },
+        'Proposal no longer executing, results not recorded',
+      );
+      return null;
+    }
+    recordAuditEvent('proposal.results', {
+      proposalId: id,
+      status: failed ? 'failed' : 'executed',
+      results: results.map((result) => ({
+        actionIndex: result.actionIndex ?? null,
+        status: result.status,
+        exitCode: result.exitCode ?? null,
+      })),
+    });
+    return getActionProposalById(id);
+  });
+}
+
+function amendAction(action: Action, replacement: string): Action | null {
+  switch (action.type) {
+    case 'ssh':
+      return validateAction({ ...action, command: replacement });
+    case 'obsidian_write':
+      return validateAction({ ...action, patch: replacement });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace the command (ssh) or patch (obsidian_write) of one action and
+ * re-queue the result as a new proposal linked to the original. The original
+ * is marked `superseded` so it can no longer be approved; both rows are kept.
+ */
+export function amendActionProposal(
+  id: string,
+  actionIndex: number,
+  replacement: string,
+): ProposalAmendResult {
+  const original = getActionProposalById(id);
+  if (!original) {
+    return {
+      revision: null,
+      errors: [`Proposal ${id} not found.`],
+      warnings: [],
+    };
+  }
+  if (original.status === 'proposed' && isPastExpiry(original, new Date())) {
+    expireActionProposal(original);
+    original.status = 'expired';
+  }
+  if (original.status !== 'proposed') {
+    return {
+      revision: null,
+      errors: [`Proposal ${id} is already ${original.status}.`],
+      warnings: [],
+    };
+  }
+
+  const action = original.actions[actionIndex];
+  if (!action) {
+    return {
+      revision: null,
+      errors: [
+        `Proposal ${id} has ${original.actions.length} action(s); ` +
+          `use a number between 1 and ${original.actions.length}.`,
+      ],
+      warnings: [],
+    };
+  }
+  if (action.type !== 'ssh' && action.type !== 'obsidian_write') {
+    return {
+      revision: null,
+      errors: [`Action ${actionIndex + 1} (${action.type}) cannot be amended.`],
+      warnings: [],
+    };
+  }
+
+  const validated = amendAction(action, replacement.trim());
+  const amended = validated ? snapshotNoteHashes([validated])[0] : null;
+  if (!amended) {
+    return {
+      revision: null,
+      errors: [`Amended action ${actionIndex + 1} failed plan validation.`],
+      warnings: [],
+    };
+  }
+
+  if (
+    amended.type === 'ssh' &&
+    !isAllowedReadonlyCommand(amended.command, amended.target)
+  ) {
+    return {
+      revision: null,
+      errors: [
+        `Command for action ${actionIndex + 1} is outside the readonly allowlist.`,
+      ],
+      warnings: [],
+    };
+  }
+
+  const warnings: string[] = [];
+  if (amended.type === 'obsidian_write') {
+    const applied = applyObsidianPatch(readNote(amended.path), amended);
+    if ('error' in applied) {
+      warnings.push(
+        `Patch for action ${actionIndex + 1} does not apply to the note as it is now: ${applied.error}`,
+      );
+    }
+  }
+
+  const actions = original.actions.map((entry, index) =>
+    index === actionIndex ? amended : entry,
+  );
+  const createdAt = new Date().toISOString();
+  const revision: ActionProposalRecord = {
+    id: createId(),
+    createdAt,
+    status: 'proposed',
+    groupFolder: original.groupFolder,
+    chatJid: original.chatJid,
+    requestText: original.requestText,
+    actions,
+    actionDecisions: actions.map(() => ({ decision: 'pending' })),
+    revisionOf: original.id,
+    expiresAt: expiryFrom(createdAt, actions),
+  };
+
+  const superseded = runInTransaction(() => {
+    const changed = updateActionProposal(
+      original.id,
+      {
+        status: 'superseded',
+        supersededBy: revision.id,
+        decidedAt: revision.createdAt,
+        decisionReason: `Amended action ${actionIndex + 1}`,
+      },
+      'proposed',
+    );
+    if (!changed) return false;
+    createActionProposal(revision);
+    recordAuditEvent('proposal.amended', {
+      proposalId: original.id,
+      revisionId: revision.id,
+      actionIndex,
+      action: amended,
+    });
+    return true;
+  });
+  if (!superseded) {
+    return {
+      revision: null,
+      errors: [`Proposal ${id} changed while amending; try again.`],
+      warnings: [],
+    };
+  }
+  return { revision, errors: [], warnings };
+}
+
+/** Remember which channel message holds the approval buttons. */
+export function setApprovalMessageId(id: string, messageId: string): void {
+  updateActionProposal(id, { approvalMessageId: messageId });
+}
+
+function expireActionProposal(record: ActionProposalRecord): boolean {
+  return runInTransaction(() => {
+    const expired = updateActionProposal(
+      record.id,
+      {
+        status: 'expired',
+        decidedAt: new Date().toISOString(),
+        decisionReason: 'Not decided before expiry',
+      },
+      'proposed',
+    );
+    if (expired) {
+      recordAuditEvent('proposal.expired', { proposalId: record.id });
+    }
+    return expired;
+  });
+}
+
+/**
+ * Move every undecided proposal past its expiry to `expired`. Returns the
+ * proposals this call expired (not ones another caller expired first).
+ */
+export function expireStaleActionProposals(
+  now = new Date(),
+): ActionProposalRecord[] {
+  return getExpiredActionProposals(now.toISOString())
+    .filter((record) => expireActionProposal(record))
+    .map((record) => getActionProposalById(record.id) ?? record);
+}
+
+export interface ProposalSweeperDependencies {
+  onExpired: (record: ActionProposalRecord) => Promise<void>;
+}
+
+let sweeperRunning = false;
+
+export function startProposalSweeper(deps: ProposalSweeperDependencies): void {
+  if (sweeperRunning) {
+    logger.debug('Proposal sweeper already running, skipping duplicate start');
+    return;
+  }
+  sweeperRunning = true;
+  logger.info('Proposal sweeper started');
+
+  const loop = async () => {
+    try {
+      const expired = expireStaleActionProposals();
+      if (expired.length > 0) {
+        logger.info({ count: expired.length }, 'Expired action proposals');
+      }
+      for (const record of expired) {
+        try {
+          await deps.onExpired(record);
+        } catch (err) {
+          logger.error(
+            { err, proposalId: record.id },
+            'Failed to announce expired proposal',
+          );
+        }
+      }
+    } catch (err) {
+      logger.error({ err }, 'Error in proposal sweeper');
+    }
+
+    setTimeout(loop, PROPOSAL_SWEEP_INTERVAL);
+  };
+
+  loop();
 }
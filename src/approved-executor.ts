@@ -1,4 +1,5 @@
 import { createHmac, randomUUID } from 'crypto';
+import path from 'path';
 
 import {
   APPROVED_ACTION_WEBHOOK_SECRET,
@@ -7,33 +8,83 @@ import {
   ENABLE_APPROVED_EXECUTION,
   ENABLE_LOCAL_APPROVED_EXECUTION,
 } from './config.js';
-import type { Action } from './plan-contract.js';
-
-const BLOCKED_META_CHARS = /[;&|`$<>{}\\]/;
-
-const ALLOWED_READONLY_COMMANDS: RegExp[] = [
-  /^uptime$/,
-  /^whoami$/,
-  /^id$/,
-  /^hostname$/,
-  /^date$/,
-  /^ping -c \d+ [A-Za-z0-9._:-]+$/,
-  /^ls(?:\s+-[a-zA-Z]+)?\s+\/[A-Za-z0-9._/-]+$/,
-  /^uname(?:\s+-[a-zA-Z]+)?$/,
-  /^free(?:\s+-[a-zA-Z]+)?$/,
-  /^df(?:\s+-[a-zA-ZhT]+)*(?:\s+\/[A-Za-z0-9._/-]+)?$/,
-  /^docker ps(?:\s+[-a-zA-Z0-9=:_./]+)*$/,
-  /^docker stats --no-stream$/,
-  /^systemctl status [a-zA-Z0-9_.@-]+(?:\s+--no-pager)?$/,
-  /^journalctl -u [a-zA-Z0-9_.@-]+(?:\s+--no-pager)?(?:\s+-n\s+\d+)?$/,
+import {
+  checkNotification,
+  deliverNotification,
+  type NotifyContext,
+} from './notify.js';
+import type { Action, ActionCondition } from './plan-contract.js';
+import { ONLY_IF_PATTERN_MAX_LENGTH } from './plan-schema.js';
+import {
+  type CommandRule,
+  commandRuleLabel,
+  formatArgv,
+  matchCommandRule,
+  parseCommand,
+  type RuleEvaluation,
+  unnormalizedPathArg,
+} from './shell-command.js';
+import { getSshTarget } from './ssh-targets.js';
+import { checkWebUrl, checkWebUrlLiteral, type HostLookup } from './url-safety.js';
+
+const UNIT_NAME = '[a-zA-Z0-9_.@-]+';
+
+/** Commands that may run without approval, matched against parsed argv. */
+const READONLY_COMMAND_RULES: CommandRule[] = [
+  { binary: 'uptime' },
+  { binary: 'whoami' },
+  { binary: 'id' },
+  { binary: 'hostname' },
+  { binary: 'date' },
+  {
+    binary: 'ping',
+    options: { '-c': { maxInt: 10 } },
+    requiredOptions: ['-c'],
+    args: [{ pattern: '[A-Za-z0-9._:-]+' }],
+  },
+  { binary: 'ls', shortFlags: 'aAdFhilrRSt1', args: [{ pathPrefix: ['/'] }] },
+  { binary: 'uname', shortFlags: 'amnoprsv' },
+  { binary: 'free', shortFlags: 'bghkmtw' },
+  { binary: 'df', shortFlags: 'ahiklPTx', args: [{ pathPrefix: ['/'] }], minArgs: 0 },
+  {
+    binary: 'docker',
+    subcommand: ['ps'],
+    shortFlags: 'alqs',
+    options: {
+      '--all': true,
+      '--latest': true,
+      '--no-trunc': true,
+      '--quiet': true,
+      '--size': true,
+      '-n': { maxInt: 100 },
+      '--last': { maxInt: 100 },
+      '--filter': { pattern: '[a-z]+=[A-Za-z0-9_.:/-]+' },
+    },
+  },
+  { binary: 'docker', subcommand: ['stats'], options: { '--no-stream': true }, requiredOptions: ['--no-stream'] },
+  {
+    binary: 'systemctl',
+    subcommand: ['status'],
+    options: { '--no-pager': true },
+    args: [{ pattern: UNIT_NAME }],
+  },
+  {
+    binary: 'journalctl',
+    options: { '-u': { pattern: UNIT_NAME }, '--no-pager': true, '-n': { maxInt: 1000 } },
+    requiredOptions: ['-u'],
+  },
 ];
 
 export interface ExecutionResult {
+  /** Position of the action in the list passed to executeApprovedActions. */
+  actionIndex?: number;
   actionType: string;
   target?: string;
   command?: string;
   status: 'executed' | 'blocked' | 'failed' | 'skipped';
   output: string;
+  /** Exit code reported by the runner, when the action ran remotely. */
+  exitCode?: number;
 }
 
 interface RunnerActionResult {
@@ -44,86 +95,107 @@ interface RunnerActionResult {
   executedAt?: string;
 }
 
+type DispatchableAction = Extract<
+  Action,
+  { type: 'ssh' | 'web_fetch' | 'file_read' | 'obsidian_write' }
+>;
+
 interface DispatchPayload {
   event: 'approved_actions.dispatch';
   dispatchId: string;
   dispatchedAt: string;
   source: 'nanoclaw-core';
-  actions: Array<Extract<Action, { type: 'ssh' | 'web_fetch' }>>;
+  actions: DispatchableAction[];
 }
 
 function buildWebhookSignature(timestamp: string, payload: string, secret: string): string {
   return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
 }
 
-export function isAllowedReadonlyCommand(command: string): boolean {
-  const trimmed = command.trim();
-  if (!trimmed) return false;
-  if (BLOCKED_META_CHARS.test(trimmed)) return false;
-  return ALLOWED_READONLY_COMMANDS.some((pattern) => pattern.test(trimmed));
+export interface ReadonlyCommandCheck {
+  allowed: boolean;
+  /** Set when the command does not parse; no rules were evaluated then. */
+  parseError?: string;
+  /** Rules in the order they were tried, up to the first match. */
+  evaluated: RuleEvaluation[];
+  matchedRule?: string;
+  /** The match came from the target's own allowlist, not the built-in rules. */
+  targetRule?: boolean;
 }
 
-function isPrivateHostname(hostname: string): boolean {
-  const lower = hostname.toLowerCase();
-  if (lower === 'localhost') return true;
-  if (lower.endsWith('.local')) return true;
-  if (lower.endsWith('.internal')) return true;
-  return false;
+/**
+ * Check a command against the readonly allowlist, recording each rule tried.
+ * The command must parse without shell expansion or operators; when a target
+ * is given, that target's registry allowlist patterns are matched against the
+ * normalized argv as well.
+ */
+export function checkReadonlyCommand(command: string, target?: string): ReadonlyCommandCheck {
+  const parsed = parseCommand(command);
+  if (!parsed.ok) return { allowed: false, parseError: parsed.reason, evaluated: [] };
+
+  const evaluated: RuleEvaluation[] = [];
+  for (const rule of READONLY_COMMAND_RULES) {
+    const label = commandRuleLabel(rule);
+    const match = matchCommandRule(parsed.argv, rule);
+    if (match.ok) {
+      evaluated.push({ rule: label, matched: true });
+      return { allowed: true, evaluated, matchedRule: label };
+    }
+    evaluated.push({ rule: label, matched: false, detail: match.reason });
+  }
+
+  // Target patterns must match the whole normalized command
+  const normalized = formatArgv(parsed.argv);
+  const unnormalized = unnormalizedPathArg(parsed.argv);
+  const targetPatterns = target ? getSshTarget(target)?.allowlist ?? [] : [];
+  for (const pattern of targetPatterns) {
+    const label = `${target} allowlist /${pattern}/`;
+    if (unnormalized) {
+      evaluated.push({ rule: label, matched: false, detail: `${unnormalized} is not a normalized path` });
+      continue;
+    }
+    if (new RegExp(`^(?:${pattern})$`).test(normalized)) {
+      evaluated.push({ rule: label, matched: true });
+      return { allowed: true, evaluated, matchedRule: label, targetRule: true };
+    }
+    evaluated.push({ rule: label, matched: false, detail: `Does not match ${normalized}` });
+  }
+  return { allowed: false, evaluated };
 }
 
-function isPrivateIpv4(hostname: string): boolean {
-  if (!/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) return false;
-  const [a, b] = hostname.split('.').map(Number);
-  if (a === 10 || a === 127 || a === 0) return true;
-  if (a === 169 && b === 254) return true;
-  if (a === 172 && b >= 16 && b <= 31) return true;
-  if (a === 192 && b === 168) return true;
-  return false;
+export function isAllowedReadonlyCommand(command: string, target?: string): boolean {
+  return checkReadonlyCommand(command, target).allowed;
 }
 
-function isPrivateIpv6(hostname: string): boolean {
-  const lower = hostname.toLowerCase();
-  if (lower === '::1') return true;
-  if (lower.startsWith('fc') || lower.startsWith('fd')) return true;
-  if (lower.startsWith('fe80:')) return true;
-  return false;
+/**
+ * Check a file_read path against the target's readablePaths. Each entry
+ * allows that exact file or anything below it when it is a directory.
+ */
+export function isAllowedReadPath(filePath: string, target: string): boolean {
+  if (!path.posix.isAbsolute(filePath)) return false;
+  if (path.posix.normalize(filePath) !== filePath) return false;
+  const readablePaths = getSshTarget(target)?.readablePaths ?? [];
+  return readablePaths.some((entry) => {
+    const root = entry.replace(/\/+$/, '');
+    return filePath === root || filePath.startsWith(`${root}/`);
+  });
 }
 
+/**
+ * Literal URL check (no DNS): scheme, internal hostnames, private or
+ * reserved IPs and obfuscated IP encodings. Resolution is checked at
+ * execution time by checkWebUrl.
+ */
 export function isAllowedWebUrl(url: string): boolean {
-  let parsed: URL;
-  try {
-    parsed = new URL(url.trim());
-  } catch {
-    return false;
-  }
-
-  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-    return false;
-  }
-
-  const host = parsed.hostname.trim();
-  if (!host) return false;
-  if (host === '169.254.169.254') return false;
-  if (isPrivateHostname(host)) return false;
-  if (isPrivateIpv4(host) || isPrivateIpv6(host)) return false;
-  return true;
+  return checkWebUrlLiteral(url).ok;
 }
 
-async function dispatchApprovedActions(
-  actions: Array<Extract<Action, { type: 'ssh' | 'web_fetch' }>>,
-): Promise<{
-  ok: boolean;
-  output: string;
-  actionResults?: RunnerActionResult[];
-}> {
-  if (!APPROVED_ACTION_WEBHOOK_URL) {
-    return {
-      ok: false,
-      output:
-        'No APPROVED_ACTION_WEBHOOK_URL configured. Action stayed queued/orchestrated only.',
-    };
-  }
-
+/** The dispatch body and headers, signed when a webhook secret is set. */
+function buildDispatchRequest(actions: DispatchableAction[]): {
+  payload: DispatchPayload;
+  body: string;
+  headers: Record<string, string>;
+} {
   const payload: DispatchPayload = {
     event: 'approved_actions.dispatch',
     dispatchId: randomUUID(),
@@ -146,6 +218,25 @@ async function dispatchApprovedActions(
       APPROVED_ACTION_WEBHOOK_SECRET,
     )}`;
   }
+  return { payload, body, headers };
+}
+
+async function dispatchApprovedActions(
+  actions: DispatchableAction[],
+): Promise<{
+  ok: boolean;
+  output: string;
+  actionResults?: RunnerActionResult[];
+}> {
+  if (!APPROVED_ACTION_WEBHOOK_URL) {
+    return {
+      ok: false,
+      output:
+        'No APPROVED_ACTION_WEBHOOK_URL configured. Action stayed queued/orchestrated only.',
+    };
+  }
+
+  const { payload, body, headers } = buildDispatchRequest(actions);
 
   try {
     const response = await fetch(APPROVED_ACTION_WEBHOOK_URL, {
@@ -156,6 +247,14 @@ async function dispatchApprovedActions(
     });
 
     const responseBody = (await response.text()).trim();
+    if (response.status === 409) {
+      return {
+        ok: false,
+        output: `Runner refused dispatch ${payload.dispatchId} as a replay (HTTP 409): ${
+          responseBody || '(empty body)'
+        }. Nothing was executed.`,
+      };
+    }
     if (!response.ok) {
       return {
         ok: false,
@@ -194,106 +293,472 @@ async function dispatchApprovedActions(
   }
 }
 
-export async function executeApprovedActions(actions: Action[]): Promise<ExecutionResult[]> {
-  if (ENABLE_LOCAL_APPROVED_EXECUTION) {
-    return actions.map((action) => ({
-      actionType: action.type,
-      target: action.type === 'ssh' ? action.target : undefined,
-      command:
-        action.type === 'ssh'
-          ? action.command
-          : action.type === 'web_fetch'
-            ? action.url
-            : undefined,
-      status: 'blocked',
-      output: 'Local execution is disabled in core app; route through webhook dispatcher.',
-    }));
+// The onlyIf pattern comes from the model; bound the work a bad one can cause
+const CONDITION_OUTPUT_MAX_CHARS = 16_000;
+
+/**
+ * Whether an earlier action's result satisfies an onlyIf condition. Only the
+ * first CONDITION_OUTPUT_MAX_CHARS of the output are matched, and a pattern
+ * longer than ONLY_IF_PATTERN_MAX_LENGTH never matches.
+ */
+export function isConditionMet(condition: ActionCondition, result: ExecutionResult): boolean {
+  if (result.status !== 'executed' && result.status !== 'failed') return false;
+  if (condition.exitCode !== undefined && result.exitCode !== condition.exitCode) {
+    return false;
   }
+  if (condition.outputMatches !== undefined) {
+    if (condition.outputMatches.length > ONLY_IF_PATTERN_MAX_LENGTH) return false;
+    const output = result.output.slice(0, CONDITION_OUTPUT_MAX_CHARS);
+    if (!new RegExp(condition.outputMatches, 'm').test(output)) return false;
+  }
+  return true;
+}
 
-  const results: ExecutionResult[] = [];
-  const dispatchableActions: Array<Extract<Action, { type: 'ssh' | 'web_fetch' }>> = [];
+export interface ExecuteOptions {
+  /** Where notify actions come from; they are blocked without it. */
+  notify?: NotifyContext;
+  /** Resolver for web_fetch hostnames (defaults to the system resolver). */
+  resolve?: HostLookup;
+}
 
-  for (const action of actions) {
-    if (action.type !== 'ssh' && action.type !== 'web_fetch') {
-      results.push({
-        actionType: action.type,
-        status: 'skipped',
-        output: `Action type ${action.type} is not executable by external runner in this step.`,
-      });
-      continue;
+/**
+ * Execute approved actions. Plans without dependencies go out in a single
+ * dispatch; otherwise actions run in dependency order, one dispatch per wave,
+ * and an action is skipped when a dependency did not succeed or its onlyIf
+ * condition does not match.
+ */
+export async function executeApprovedActions(
+  actions: Action[],
+  options: ExecuteOptions = {},
+): Promise<ExecutionResult[]> {
+  if (!actions.some((action) => action.dependsOn && action.dependsOn.length > 0)) {
+    return executeActionBatch(actions, options);
+  }
+
+  const indexById = new Map<string, number>();
+  for (const [index, action] of actions.entries()) {
+    if (action.id) indexById.set(action.id, index);
+  }
+
+  const results = new Map<number, ExecutionResult>();
+  let remaining = actions.map((_action, index) => index);
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((index) =>
+      (actions[index].dependsOn ?? []).every((dep) => {
+        const depIndex = indexById.get(dep);
+        return depIndex === undefined || results.has(depIndex);
+      }),
+    );
+    if (ready.length === 0) {
+      for (const index of remaining) {
+        results.set(index, skippedResult(actions[index], index, 'Dependency cycle.'));
+      }
+      break;
     }
 
-    if (action.type === 'ssh' && !isAllowedReadonlyCommand(action.command)) {
-      results.push({
-        actionType: 'ssh',
-        target: action.target,
-        command: action.command,
-        status: 'blocked',
-        output: 'Command blocked by readonly allowlist policy.',
-      });
-      continue;
+    const runnable: number[] = [];
+    for (const index of ready) {
+      const reason = unmetDependency(actions[index], indexById, results);
+      if (reason) {
+        results.set(index, skippedResult(actions[index], index, reason));
+      } else {
+        runnable.push(index);
+      }
     }
 
-    if (action.type === 'web_fetch') {
-      if (!isAllowedWebUrl(action.url)) {
-        results.push({
+    if (runnable.length > 0) {
+      const batch = await executeActionBatch(
+        runnable.map((index) => actions[index]),
+        options,
+      );
+      for (const result of batch) {
+        const index = runnable[result.actionIndex ?? 0];
+        results.set(index, { ...result, actionIndex: index });
+      }
+    }
+
+    remaining = remaining.filter((index) => !ready.includes(index));
+  }
+
+  return [...results.entries()].sort(([a], [b]) => a - b).map(([, result]) => result);
+}
+
+function unmetDependency(
+  action: Action,
+  indexById: Map<string, number>,
+  results: Map<number, ExecutionResult>,
+): string | null {
+  for (const dep of action.dependsOn ?? []) {
+    const depIndex = indexById.get(dep);
+    const depResult = depIndex === undefined ? undefined : results.get(depIndex);
+    if (!depResult) {
+      return `Dependency ${dep} was not approved.`;
+    }
+    if (action.onlyIf?.action === dep) {
+      if (!isConditionMet(action.onlyIf, depResult)) {
+        return `Condition on ${dep} not met.`;
+      }
+    } else if (depResult.status !== 'executed') {
+      return `Dependency ${dep} was ${depResult.status}.`;
+    }
+  }
+  return null;
+}
+
+export type DryRunOutcome = 'would_run' | 'blocked' | 'skipped' | 'needs_approval';
+
+/** What would happen to one action if the proposal were executed now. */
+export interface SimulatedAction {
+  /** Position of the action in the list passed to simulateApprovedActions. */
+  actionIndex: number;
+  actionType: string;
+  target?: string;
+  command?: string;
+  outcome: DryRunOutcome;
+  reason: string;
+}
+
+export interface DryRunReport {
+  actions: SimulatedAction[];
+  /**
+   * The signed request that would be POSTed for the dispatchable actions;
+   * never sent. Plans with dependencies are dispatched one wave at a time,
+   * so the real run splits these actions over several requests.
+   */
+  dispatch?: {
+    url?: string;
+    headers: Record<string, string>;
+    payload: DispatchPayload;
+  };
+}
+
+/** An outcome decided before the checks run, e.g. an action still short of approvals. */
+export type HeldOutcome = Pick<SimulatedAction, 'outcome' | 'reason'>;
+
+/**
+ * Run the same checks as executeApprovedActions (registry, allowlists, URL
+ * and path policy, notification authorization) and build the dispatch
+ * request, without sending anything. Actions in held keep the given outcome
+ * and count as not running for their dependents. onlyIf conditions depend on
+ * earlier results, so they are reported rather than evaluated.
+ */
+export async function simulateApprovedActions(
+  actions: Action[],
+  options: ExecuteOptions = {},
+  held: Map<number, HeldOutcome> = new Map(),
+): Promise<DryRunReport> {
+  const indexById = new Map<string, number>();
+  for (const [index, action] of actions.entries()) {
+    if (action.id) indexById.set(action.id, index);
+  }
+
+  const simulated = new Map<number, SimulatedAction>();
+  const visiting = new Set<number>();
+  // Actions that pass the checks go into the request even when dispatch is
+  // disabled, so the payload can be inspected before enabling it.
+  const dispatchable: number[] = [];
+  const unavailable = dispatchUnavailableReason();
+
+  const evaluate = async (index: number): Promise<SimulatedAction> => {
+    const action = actions[index];
+    const entry = (outcome: DryRunOutcome, reason: string) =>
+      simulatedEntry(action, index, outcome, reason);
+    const hold = held.get(index);
+    if (hold) return entry(hold.outcome, hold.reason);
+
+    for (const dep of action.dependsOn ?? []) {
+      const depIndex = indexById.get(dep);
+      if (depIndex === undefined) {
+        return entry('skipped', `Dependency ${dep} was not approved.`);
+      }
+      const depOutcome = (await simulate(depIndex)).outcome;
+      if (depOutcome !== 'would_run') {
+        return entry('skipped', `Dependency ${dep} would not run (${depOutcome}).`);
+      }
+    }
+
+    if (ENABLE_LOCAL_APPROVED_EXECUTION) {
+      return entry('blocked', LOCAL_EXECUTION_BLOCKED);
+    }
+    const screened = await screenAction(action, index, options);
+    if (screened) {
+      return entry(screened.status === 'blocked' ? 'blocked' : 'skipped', screened.output);
+    }
+
+    const condition = action.onlyIf
+      ? ` Only if the condition on ${action.onlyIf.action} holds at run time.`
+      : '';
+    if (action.type === 'notify') {
+      if (!ENABLE_APPROVED_EXECUTION) return entry('skipped', EXECUTION_DISABLED);
+      return entry('would_run', `Would be delivered by the core app.${condition}`);
+    }
+    dispatchable.push(index);
+    if (unavailable) return entry('skipped', unavailable);
+    return entry('would_run', `Would be dispatched to the runner.${condition}`);
+  };
+
+  const simulate = async (index: number): Promise<SimulatedAction> => {
+    const known = simulated.get(index);
+    if (known) return known;
+    if (visiting.has(index)) {
+      return simulatedEntry(actions[index], index, 'skipped', 'Dependency cycle.');
+    }
+    visiting.add(index);
+    const result = await evaluate(index);
+    visiting.delete(index);
+    simulated.set(index, result);
+    return result;
+  };
+
+  // One at a time, so dependencies are evaluated before their dependents.
+  const report: DryRunReport = { actions: [] };
+  for (const index of actions.keys()) {
+    report.actions.push(await simulate(index));
+  }
+
+  if (dispatchable.length > 0) {
+    const { payload, headers } = buildDispatchRequest(
+      dispatchable
+        .sort((a, b) => a - b)
+        .map((index) => actions[index] as DispatchableAction),
+    );
+    report.dispatch = {
+      ...(APPROVED_ACTION_WEBHOOK_URL ? { url: APPROVED_ACTION_WEBHOOK_URL } : {}),
+      headers,
+      payload,
+    };
+  }
+  return report;
+}
+
+function simulatedEntry(
+  action: Action,
+  actionIndex: number,
+  outcome: DryRunOutcome,
+  reason: string,
+): SimulatedAction {
+  return {
+    actionIndex,
+    actionType: action.type,
+    target: actionTarget(action),
+    command: actionCommand(action),
+    outcome,
+    reason,
+  };
+}
+
+function actionTarget(action: Action): string | undefined {
+  return action.type === 'ssh' || action.type === 'file_read' ? action.target : undefined;
+}
+
+/** What the action runs, for display: command, URL or file (with range). */
+function actionCommand(action: Action): string | undefined {
+  switch (action.type) {
+    case 'ssh':
+      return action.command;
+    case 'web_fetch':
+      return action.url;
+    case 'obsidian_write':
+      return `${action.path} (${action.mode})`;
+    case 'notify':
+      return `${action.to ?? 'this chat'}${action.channel ? ` via ${action.channel}` : ''}`;
+    case 'file_read':
+      if (action.tailLines !== undefined) {
+        return `${action.path} (last ${action.tailLines} lines)`;
+      }
+      if (action.offset !== undefined || action.length !== undefined) {
+        return `${action.path} (bytes ${action.offset ?? 0}+${action.length ?? 'rest'})`;
+      }
+      return action.path;
+    default:
+      return undefined;
+  }
+}
+
+function skippedResult(action: Action, actionIndex: number, output: string): ExecutionResult {
+  return {
+    actionIndex,
+    actionType: action.type,
+    target: actionTarget(action),
+    command: actionCommand(action),
+    status: 'skipped',
+    output,
+  };
+}
+
+/**
+ * The result for an action that cannot run (blocked by policy or not
+ * executable), or null when it may be dispatched or delivered.
+ */
+async function screenAction(
+  action: Action,
+  actionIndex: number,
+  options: ExecuteOptions,
+): Promise<ExecutionResult | null> {
+  const blocked = (output: string): ExecutionResult => ({
+    actionIndex,
+    actionType: action.type,
+    target: actionTarget(action),
+    command: actionCommand(action),
+    status: 'blocked',
+    output,
+  });
+
+  switch (action.type) {
+    case 'reply':
+    case 'question':
+      return {
+        actionIndex,
+        actionType: action.type,
+        status: 'skipped',
+        output: `Action type ${action.type} is not executable by external runner in this step.`,
+      };
+    case 'ssh':
+      if (!getSshTarget(action.target)) {
+        return blocked(`Target ${action.target} is not in the SSH target registry.`);
+      }
+      if (!isAllowedReadonlyCommand(action.command, action.target)) {
+        return blocked('Command blocked by readonly allowlist policy.');
+      }
+      return null;
+    case 'file_read':
+      if (!getSshTarget(action.target)) {
+        return blocked(`Target ${action.target} is not in the SSH target registry.`);
+      }
+      if (!isAllowedReadPath(action.path, action.target)) {
+        return blocked('Path is not in the readable paths of this target.');
+      }
+      return null;
+    case 'notify': {
+      // Delivered by the core app, which owns the chat connections.
+      if (!options.notify) {
+        return blocked('No notification delivery is available here.');
+      }
+      const refused = checkNotification(action, options.notify);
+      return refused ? { ...refused, actionIndex } : null;
+    }
+    case 'obsidian_write':
+      if (!action.baseHash) {
+        return blocked(
+          'Note was not snapshotted when proposed (is OBSIDIAN_VAULT_PATH set?); propose the change again.',
+        );
+      }
+      return null;
+    case 'web_fetch': {
+      // Resolves the hostname; ops-runner repeats this for every redirect.
+      const check = await checkWebUrl(action.url, options.resolve);
+      if (!check.ok) {
+        return {
+          actionIndex,
           actionType: 'web_fetch',
           status: 'blocked',
-          output: 'URL blocked by web-fetch safety policy.',
-        });
-        continue;
+          output: `URL blocked by web-fetch safety policy: ${check.reason}.`,
+        };
       }
-
       if (action.mode === 'browser' && !action.requiresApproval) {
-        results.push({
+        return {
+          actionIndex,
           actionType: 'web_fetch',
           status: 'blocked',
           output: 'Browser mode requires approval. Set requiresApproval=true.',
-        });
-        continue;
+        };
       }
+      return null;
     }
-
-    dispatchableActions.push(action);
   }
+}
+
+const EXECUTION_DISABLED =
+  'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).';
 
+/** Why screened actions would still not be dispatched, or null if they would. */
+function dispatchUnavailableReason(): string | null {
   if (!ENABLE_APPROVED_EXECUTION) {
-    for (const action of dispatchableActions) {
-      results.push({
-        actionType: action.type,
-        target: action.type === 'ssh' ? action.target : undefined,
-        command: action.type === 'ssh' ? action.command : action.url,
-        status: 'skipped',
-        output: 'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).',
-      });
+    return EXECUTION_DISABLED;
+  }
+  if (!APPROVED_ACTION_WEBHOOK_URL) {
+    return 'No APPROVED_ACTION_WEBHOOK_URL configured. Action stayed queued/orchestrated only.';
+  }
+  return null;
+}
+
+const LOCAL_EXECUTION_BLOCKED =
+  'Local execution is disabled in core app; route through webhook dispatcher.';
+
+async function executeActionBatch(
+  actions: Action[],
+  options: ExecuteOptions,
+): Promise<ExecutionResult[]> {
+  if (ENABLE_LOCAL_APPROVED_EXECUTION) {
+    return actions.map((action, actionIndex) => ({
+      actionIndex,
+      actionType: action.type,
+      target: actionTarget(action),
+      command: actionCommand(action),
+      status: 'blocked',
+      output: LOCAL_EXECUTION_BLOCKED,
+    }));
+  }
+
+  const results: ExecutionResult[] = [];
+  const dispatchableActions: DispatchableAction[] = [];
+  const dispatchableIndices: number[] = [];
+
+  for (const [actionIndex, action] of actions.entries()) {
+    const screened = await screenAction(action, actionIndex, options);
+    if (screened) {
+      results.push(screened);
+      continue;
     }
-    return results;
+
+    if (action.type === 'notify') {
+      if (!ENABLE_APPROVED_EXECUTION) {
+        results.push({
+          actionIndex,
+          actionType: 'notify',
+          command: actionCommand(action),
+          status: 'skipped',
+          output: EXECUTION_DISABLED,
+        });
+        continue;
+      }
+      const delivered = await deliverNotification(action, options.notify!);
+      results.push({ ...delivered, actionIndex });
+      continue;
+    }
+
+    dispatchableActions.push(action as DispatchableAction);
+    dispatchableIndices.push(actionIndex);
   }
 
   if (dispatchableActions.length === 0) {
     return results;
   }
 
-  if (!APPROVED_ACTION_WEBHOOK_URL) {
-    for (const action of dispatchableActions) {
+  const unavailable = dispatchUnavailableReason();
+  if (unavailable) {
+    for (const [i, action] of dispatchableActions.entries()) {
       results.push({
+        actionIndex: dispatchableIndices[i],
         actionType: action.type,
-        target: action.type === 'ssh' ? action.target : undefined,
-        command: action.type === 'ssh' ? action.command : action.url,
+        target: actionTarget(action),
+        command: actionCommand(action),
         status: 'skipped',
-        output:
-          'No APPROVED_ACTION_WEBHOOK_URL configured. Action stayed queued/orchestrated only.',
+        output: unavailable,
       });
     }
     return results;
   }
 
   const dispatch = await dispatchApprovedActions(dispatchableActions);
-  const status: ExecutionResult['status'] = dispatch.ok ? 'executed' : 'failed';
 
   for (let i = 0; i < dispatchableActions.length; i += 1) {
     const action = dispatchableActions[i];
     const runner = dispatch.actionResults?.[i];
+    // One failing action must not mark the others of the dispatch as failed
+    const succeeded = runner ? (runner.exitCode ?? 0) === 0 : dispatch.ok;
+    const status: ExecutionResult['status'] = succeeded ? 'executed' : 'failed';
     const runnerOut = [
       typeof runner?.exitCode === 'number' ? `exitCode=${runner.exitCode}` : '',
       typeof runner?.durationMs === 'number' ? `durationMs=${runner.durationMs}` : '',
@@ -304,11 +769,13 @@ export async function executeApprovedActions(actions: Action[]): Promise<Executi
       .join('\n');
 
     results.push({
+      actionIndex: dispatchableIndices[i],
       actionType: action.type,
-      target: action.type === 'ssh' ? action.target : undefined,
-      command: action.type === 'ssh' ? action.command : action.url,
+      target: actionTarget(action),
+      command: actionCommand(action),
       status,
       output: runnerOut || dispatch.output,
+      ...(typeof runner?.exitCode === 'number' ? { exitCode: runner.exitCode } : {}),
     });
   }
 
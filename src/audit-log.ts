@@ -0,0 +1,117 @@
+/**
+ * Hash-Chained Audit Log for NanoClaw
+ *
+ * Every proposal, decision, dispatch and result is appended to the audit_log
+ * table. Each entry stores the hash of the entry before it, and its own hash
+ * covers that link, so editing, deleting or reordering an entry breaks the
+ * chain from that point on. The infra gateway keeps its own chain in the same
+ * format (infra/packages/shared/src/audit-chain.ts); keep the two hashing
+ * rules in sync. `gorky verify-audit` checks both.
+ */
+import { createHash } from 'crypto';
+
+import { getAuditEntries, getLastAuditEntry, insertAuditEntry } from './db.js';
+
+export interface AuditEntry {
+  /** 1-based position in the chain; gaps mean entries were deleted. */
+  seq: number;
+  timestamp: string;
+  event: string;
+  /** Event details as stored (JSON text), hashed byte for byte. */
+  data: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  /** Entries checked before the first broken link (all of them when ok). */
+  checked: number;
+  brokenAt?: { seq: number; reason: string };
+}
+
+/** prevHash of the first entry. */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export function hashAuditEntry(
+  prevHash: string,
+  entry: Pick<AuditEntry, 'seq' | 'timestamp' | 'event' | 'data'>,
+): string {
+  return createHash('sha256')
+    .update(
+      prevHash +
+        JSON.stringify([entry.seq, entry.timestamp, entry.event, entry.data]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Append an event to the core chain and return the stored entry. Call it in
+ * the same runInTransaction as the change it records, so a change is never
+ * committed without its entry (or the other way round).
+ */
+export function recordAuditEvent(
+  event: string,
+  data: Record<string, unknown>,
+): AuditEntry {
+  const last = getLastAuditEntry();
+  const unhashed = {
+    seq: (last?.seq ?? 0) + 1,
+    timestamp: new Date().toISOString(),
+    event,
+    data: JSON.stringify(data),
+  };
+  const prevHash = last?.hash ?? AUDIT_GENESIS_HASH;
+  const entry: AuditEntry = {
+    ...unhashed,
+    prevHash,
+    hash: hashAuditEntry(prevHash, unhashed),
+  };
+  insertAuditEntry(entry);
+  return entry;
+}
+
+/**
+ * Walk a chain in seq order and report the first broken link: a missing
+ * entry, a prevHash that does not point at the entry before, or a hash that
+ * no longer matches the entry's contents. Entries cut off the end of the
+ * chain leave no gap and cannot be detected here.
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = AUDIT_GENESIS_HASH;
+  let expectedSeq = 1;
+  for (const [index, entry] of entries.entries()) {
+    const broken = (reason: string): AuditVerification => ({
+      ok: false,
+      checked: index,
+      brokenAt: { seq: entry.seq, reason },
+    });
+    if (entry.seq !== expectedSeq) {
+      return broken(`expected entry ${expectedSeq}, found ${entry.seq}`);
+    }
+    if (entry.prevHash !== prevHash) {
+      return broken('previous hash does not match the entry before it');
+    }
+    if (entry.hash !== hashAuditEntry(prevHash, entry)) {
+      return broken('contents do not match the stored hash');
+    }
+    prevHash = entry.hash;
+    expectedSeq++;
+  }
+  return { ok: true, checked: entries.length };
+}
+
+export function verifyCoreAuditLog(): AuditVerification {
+  return verifyAuditChain(getAuditEntries());
+}
+
+export function formatAuditVerification(
+  label: string,
+  result: AuditVerification,
+): string {
+  if (result.ok) {
+    return `${label}: OK, ${result.checked} entr${result.checked === 1 ? 'y' : 'ies'} verified`;
+  }
+  const { seq, reason } = result.brokenAt!;
+  return `${label}: BROKEN at entry ${seq} (${reason}); ${result.checked} entries before it verified`;
+}
@@ -0,0 +1,165 @@
+/**
+ * Channel Adapters for NanoClaw
+ *
+ * A channel is one chat transport (Telegram, WhatsApp, ...). The router in
+ * index.ts owns everything else: message storage, agent runs, the scheduler,
+ * the approval queue and IPC. It starts every configured adapter, feeds their
+ * inbound events through the same handlers and routes outbound messages to
+ * the adapter that owns the chat. Chat ids of different channels never
+ * overlap, so registered groups, proposals and tasks keep a plain chat id.
+ */
+import { MAIN_GROUP_FOLDER, TRIGGER_PATTERN } from './config.js';
+import type { RegisteredGroup } from './types.js';
+
+/** A text message received on a channel. */
+export interface InboundMessage {
+  chatJid: string;
+  text: string;
+  /** Channel-specific id, unique within the chat. */
+  id: string;
+  /** Display name of the sender. */
+  sender: string;
+  /** Stable sender id, used for approver checks. */
+  senderId: string;
+  timestamp: Date;
+  /** Sent by the account the channel is logged in as. */
+  fromMe?: boolean;
+}
+
+/** A button press (e.g. `approve:<proposalId>`) on a channel that has them. */
+export interface InboundAction {
+  chatJid: string;
+  data: string;
+  senderId: string;
+}
+
+export interface ChannelEvents {
+  onMessage: (message: InboundMessage) => Promise<void>;
+  onAction: (action: InboundAction) => Promise<void>;
+}
+
+/** An approval request for one proposal. */
+export interface ApprovalPrompt {
+  proposalId: string;
+  text: string;
+  actionCount: number;
+}
+
+export interface ChannelAdapter {
+  /** Channel name, also used as the notify channel name. */
+  readonly name: string;
+  /** Whether the chat id belongs to this channel. */
+  ownsChat(chatJid: string): boolean;
+  /** Connect and start delivering inbound events. */
+  start(events: ChannelEvents): Promise<void>;
+  stop(): Promise<void>;
+  sendMessage(chatJid: string, text: string): Promise<void>;
+  setTyping(chatJid: string, isTyping: boolean): Promise<void>;
+  /**
+   * Send an approval request, with buttons where the channel has them. Returns
+   * the id of the sent message when it can be edited later.
+   */
+  sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined>;
+  /** Replace the text of an earlier message and drop its buttons. */
+  editMessage?(chatJid: string, messageId: string, text: string): Promise<void>;
+  /** Names of the group chats the account is in, keyed by chat id. */
+  fetchGroupNames?(): Promise<Record<string, string>>;
+  /**
+   * The group to register for a chat seen for the first time, on channels
+   * where every conversation is a new chat (email threads). Messages in
+   * unregistered chats are otherwise not stored or answered.
+   */
+  groupForNewChat?(chatJid: string): RegisteredGroup | undefined;
+}
+
+function approvalHint(
+  prompt: ApprovalPrompt,
+  approve: string,
+  deny: string,
+): string {
+  const select =
+    prompt.actionCount > 1
+      ? `\n${approve} ${prompt.proposalId} 1,3 runs only the listed actions.`
+      : '';
+  return (
+    `Reply ${approve} ${prompt.proposalId} or ${deny} ${prompt.proposalId} <reason>.` +
+    select +
+    `\n${approve} --dry-run ${prompt.proposalId} shows what would run.`
+  );
+}
+
+/** Instructions appended to approval requests on channels without buttons. */
+export function approvalCommandHint(prompt: ApprovalPrompt): string {
+  return approvalHint(prompt, '/approve', '/deny');
+}
+
+/**
+ * Like approvalCommandHint, for channels where a leading slash is awkward to
+ * type. Replies are turned back into commands by approvalKeywordCommand.
+ */
+export function approvalKeywordHint(prompt: ApprovalPrompt): string {
+  return approvalHint(prompt, 'APPROVE', 'DENY');
+}
+
+/**
+ * Translate an `APPROVE <id> ...` or `DENY <id> ...` reply into the matching
+ * /approve or /deny command. Only replies naming a proposal id are
+ * translated, so ordinary chat starting with "approve" is left alone.
+ */
+export function approvalKeywordCommand(text: string): string | undefined {
+  const match = text
+    .trim()
+    .match(
+      /^(approve|deny)\s+((?:--dry-run\s+)?ap-[A-Za-z0-9-]+(?:\s[\s\S]*)?)$/i,
+    );
+  if (!match) return undefined;
+  const verb = match[1].toLowerCase();
+  // A dry run only exists for approvals
+  if (verb === 'deny' && match[2].startsWith('--')) return undefined;
+  return `/${verb} ${match[2]}`;
+}
+
+/**
+ * The group a stored message should start an agent run for: undefined when
+ * the chat is not registered, or when the group needs the trigger and the
+ * message lacks it. The main group and groups registered with
+ * requiresTrigger: false answer every message.
+ */
+export function groupToAnswer(
+  registeredGroups: Record<string, RegisteredGroup>,
+  chatJid: string,
+  content: string,
+): RegisteredGroup | undefined {
+  const group = registeredGroups[chatJid];
+  if (!group) return undefined;
+  const needsTrigger =
+    group.folder !== MAIN_GROUP_FOLDER && group.requiresTrigger !== false;
+  if (needsTrigger && !TRIGGER_PATTERN.test(content.trim())) return undefined;
+  return group;
+}
+
+const channels: ChannelAdapter[] = [];
+
+export function registerChannel(adapter: ChannelAdapter): void {
+  if (channels.some((channel) => channel.name === adapter.name)) {
+    throw new Error(`Channel ${adapter.name} is already registered`);
+  }
+  channels.push(adapter);
+}
+
+export function getChannels(): ChannelAdapter[] {
+  return [...channels];
+}
+
+/** The adapter that owns a chat id, if any channel does. */
+export function channelForChat(chatJid: string): ChannelAdapter | undefined {
+  return channels.find((channel) => channel.ownsChat(chatJid));
+}
+
+/** @internal - for tests only. Removes every registered channel. */
+export function _resetChannels(): void {
+  channels.length = 0;
+}
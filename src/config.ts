@@ -15,6 +15,10 @@ export const MOUNT_ALLOWLIST_PATH = path.join(
   'nanoclaw',
   'mount-allowlist.json',
 );
+// SSH target registry: also outside project root so agents cannot add hosts
+export const SSH_TARGETS_PATH =
+  process.env.SSH_TARGETS_PATH ||
+  path.join(HOME_DIR, '.config', 'nanoclaw', 'ssh-targets.json');
 export const STORE_DIR = path.resolve(PROJECT_ROOT, 'store');
 export const GROUPS_DIR = path.resolve(PROJECT_ROOT, 'groups');
 export const DATA_DIR = path.resolve(PROJECT_ROOT, 'data');
@@ -62,16 +66,84 @@ export const TRIGGER_PATTERN = new RegExp(
   `^@${escapeRegex(ASSISTANT_NAME)}\\b`,
   'i',
 );
+// Voice transcripts address the assistant by name, without the @
+export const SPOKEN_TRIGGER_PATTERN = new RegExp(
+  `^${escapeRegex(ASSISTANT_NAME)}\\b[,.!:]?\\s*`,
+  'i',
+);
 
 // Timezone for scheduled tasks (cron expressions, etc.)
 // Uses system timezone by default
 export const TIMEZONE =
   process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-// Channel configuration (telegram or whatsapp)
-export const CHANNEL = process.env.CHANNEL || 'whatsapp';
+// Channels the router starts, comma-separated (telegram, whatsapp, signal,
+// matrix, email). All of them share one scheduler and one approval queue.
+export const CHANNELS = (process.env.CHANNELS || process.env.CHANNEL || 'telegram')
+  .split(',')
+  .map((name) => name.trim().toLowerCase())
+  .filter(Boolean);
 export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
 export const TELEGRAM_ADMIN_CHAT_ID = process.env.TELEGRAM_ADMIN_CHAT_ID || '';
+// Signal goes through signal-cli-rest-api in normal or native mode
+export const SIGNAL_API_URL = process.env.SIGNAL_API_URL || '';
+export const SIGNAL_NUMBER = process.env.SIGNAL_NUMBER || '';
+export const SIGNAL_POLL_INTERVAL = parseInt(
+  process.env.SIGNAL_POLL_INTERVAL || String(POLL_INTERVAL),
+  10,
+);
+// Matrix uses an access token of a bot account that has joined the rooms
+export const MATRIX_HOMESERVER_URL = process.env.MATRIX_HOMESERVER_URL || '';
+export const MATRIX_ACCESS_TOKEN = process.env.MATRIX_ACCESS_TOKEN || '';
+export const MATRIX_SYNC_TIMEOUT_MS = parseInt(
+  process.env.MATRIX_SYNC_TIMEOUT_MS || '30000',
+  10,
+);
+// Email polls IMAP (one thread = one chat) and replies over SMTP
+export const EMAIL_ADDRESS = process.env.EMAIL_ADDRESS || '';
+export const EMAIL_IMAP_HOST = process.env.EMAIL_IMAP_HOST || '';
+export const EMAIL_IMAP_PORT = parseInt(process.env.EMAIL_IMAP_PORT || '993', 10);
+export const EMAIL_IMAP_SECURE =
+  (process.env.EMAIL_IMAP_SECURE || 'true').toLowerCase() === 'true';
+export const EMAIL_IMAP_MAILBOX = process.env.EMAIL_IMAP_MAILBOX || 'INBOX';
+export const EMAIL_SMTP_HOST = process.env.EMAIL_SMTP_HOST || '';
+export const EMAIL_SMTP_PORT = parseInt(process.env.EMAIL_SMTP_PORT || '465', 10);
+export const EMAIL_SMTP_SECURE =
+  (process.env.EMAIL_SMTP_SECURE || 'true').toLowerCase() === 'true';
+// Shared by IMAP and SMTP unless the SMTP_* overrides are set
+export const EMAIL_USER = process.env.EMAIL_USER || EMAIL_ADDRESS;
+export const EMAIL_PASSWORD = process.env.EMAIL_PASSWORD || '';
+export const EMAIL_SMTP_USER = process.env.EMAIL_SMTP_USER || EMAIL_USER;
+export const EMAIL_SMTP_PASSWORD =
+  process.env.EMAIL_SMTP_PASSWORD || EMAIL_PASSWORD;
+export const EMAIL_POLL_INTERVAL = parseInt(
+  process.env.EMAIL_POLL_INTERVAL || '60000',
+  10,
+);
+// New threads are registered as groups in this folder, answering every mail
+// (requiresTrigger: false); empty leaves them unregistered. Needs
+// EMAIL_ALLOWED_SENDERS, or anyone who can send mail would get an agent
+export const EMAIL_GROUP_FOLDER = process.env.EMAIL_GROUP_FOLDER || '';
+export const EMAIL_ALLOWED_SENDERS = (process.env.EMAIL_ALLOWED_SENDERS || '')
+  .split(',')
+  .map((address) => address.trim().toLowerCase())
+  .filter(Boolean);
+
+// Voice note transcription (voice-to-text addon); empty STT_PROVIDER leaves
+// voice messages unhandled
+export const STT_PROVIDER = process.env.STT_PROVIDER || '';
+export const STT_DEFAULT_LANGUAGE = process.env.STT_DEFAULT_LANGUAGE || 'auto';
+const STT_MAX_AUDIO_MINUTES_SETTING = process.env.STT_MAX_AUDIO_MINUTES || '15';
+export const STT_MAX_AUDIO_MINUTES = Number(STT_MAX_AUDIO_MINUTES_SETTING);
+// A limit that is not a positive number would let audio of any length through
+if (!Number.isFinite(STT_MAX_AUDIO_MINUTES) || STT_MAX_AUDIO_MINUTES <= 0) {
+  throw new Error(
+    `STT_MAX_AUDIO_MINUTES must be a positive number of minutes, got "${STT_MAX_AUDIO_MINUTES_SETTING}"`,
+  );
+}
+export const WHISPER_CPP_BIN = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+export const WHISPER_CPP_MODEL = process.env.WHISPER_CPP_MODEL || '';
+export const FFMPEG_BIN = process.env.FFMPEG_BIN || 'ffmpeg';
 
 // Approval-gated external dispatch (disabled by default)
 export const ENABLE_APPROVED_EXECUTION =
@@ -87,6 +159,34 @@ export const APPROVED_ACTION_WEBHOOK_SECRET =
 // Local execution remains opt-in and disabled by default.
 export const ENABLE_LOCAL_APPROVED_EXECUTION =
   (process.env.ENABLE_LOCAL_APPROVED_EXECUTION || 'false').toLowerCase() === 'true';
+// Positive integer setting; unset or invalid values fall back to the default
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+// Undecided action proposals expire after this long. Per-type overrides use
+// ACTION_PROPOSAL_TTL_<TYPE>_MS, e.g. ACTION_PROPOSAL_TTL_SSH_MS=600000.
+export const ACTION_PROPOSAL_TTL_MS = parsePositiveInt(
+  process.env.ACTION_PROPOSAL_TTL_MS,
+  3600000,
+); // 1 hour default
+function parseTtlOverrides(env: NodeJS.ProcessEnv): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(/^ACTION_PROPOSAL_TTL_([A-Z_]+)_MS$/);
+    const ms = parsePositiveInt(value, 0);
+    if (match && ms > 0) overrides[match[1].toLowerCase()] = ms;
+  }
+  return overrides;
+}
+export const ACTION_PROPOSAL_TTL_BY_TYPE_MS = parseTtlOverrides(process.env);
+export const PROPOSAL_SWEEP_INTERVAL = 60000;
+// Distinct approvers required for high-risk actions (Obsidian writes, ssh
+// commands allowed by a target's own allowlist)
+export const HIGH_RISK_APPROVAL_QUORUM = parsePositiveInt(
+  process.env.HIGH_RISK_APPROVAL_QUORUM,
+  2,
+);
 export const EXEC_SSH_USER = process.env.EXEC_SSH_USER || '';
 export const EXEC_SSH_KEY_PATH = process.env.EXEC_SSH_KEY_PATH || '';
 export const EXEC_TARGET_WILLIAM_HOST =
@@ -4,17 +4,27 @@ import path from 'path';
 
 import { proto } from '@whiskeysockets/baileys';
 
-import { DATA_DIR, STORE_DIR } from './config.js';
-import { NewMessage, RegisteredGroup, ScheduledTask, TaskRunLog } from './types.js';
+import type { ActionProposalRecord } from './action-queue.js';
+import type { AuditEntry } from './audit-log.js';
+import type { InboundMessage } from './channel.js';
+import {
+  ACTION_PROPOSAL_TTL_BY_TYPE_MS,
+  ACTION_PROPOSAL_TTL_MS,
+  DATA_DIR,
+  STORE_DIR,
+} from './config.js';
+import {
+  EmailThread,
+  NewMessage,
+  RegisteredGroup,
+  ScheduledTask,
+  TaskRunLog,
+} from './types.js';
 
 let db: Database.Database;
 
-export function initDatabase(): void {
-  const dbPath = path.join(STORE_DIR, 'messages.db');
-  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
-
-  db = new Database(dbPath);
-  db.exec(`
+function createSchema(database: Database.Database): void {
+  database.exec(`
     CREATE TABLE IF NOT EXISTS chats (
       jid TEXT PRIMARY KEY,
       name TEXT,
@@ -64,14 +74,14 @@ export function initDatabase(): void {
 
   // Add sender_name column if it doesn't exist (migration for existing DBs)
   try {
-    db.exec(`ALTER TABLE messages ADD COLUMN sender_name TEXT`);
+    database.exec(`ALTER TABLE messages ADD COLUMN sender_name TEXT`);
   } catch {
     /* column already exists */
   }
 
   // Add context_mode column if it doesn't exist (migration for existing DBs)
   try {
-    db.exec(
+    database.exec(
       `ALTER TABLE scheduled_tasks ADD COLUMN context_mode TEXT DEFAULT 'isolated'`,
     );
   } catch {
@@ -80,7 +90,7 @@ export function initDatabase(): void {
 
   // Add requires_trigger column if it doesn't exist (migration for existing DBs)
   try {
-    db.exec(
+    database.exec(
       `ALTER TABLE registered_groups ADD COLUMN requires_trigger INTEGER DEFAULT 1`,
     );
   } catch {
@@ -88,7 +98,7 @@ export function initDatabase(): void {
   }
 
   // State tables (replacing JSON files)
-  db.exec(`
+  database.exec(`
     CREATE TABLE IF NOT EXISTS router_state (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL
@@ -104,12 +114,117 @@ export function initDatabase(): void {
       trigger_pattern TEXT NOT NULL,
       added_at TEXT NOT NULL,
       container_config TEXT,
-      requires_trigger INTEGER DEFAULT 1
+      requires_trigger INTEGER DEFAULT 1,
+      approval_config TEXT
+    );
+  `);
+
+  // Action proposals (replacing data/action-queue.json)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS action_proposals (
+      id TEXT PRIMARY KEY,
+      group_folder TEXT NOT NULL,
+      chat_jid TEXT NOT NULL,
+      request_text TEXT,
+      actions_json TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'proposed',
+      created_at TEXT NOT NULL,
+      decided_at TEXT,
+      decision_reason TEXT,
+      results_json TEXT,
+      completed_at TEXT,
+      action_decisions_json TEXT,
+      revision_of TEXT,
+      superseded_by TEXT,
+      expires_at TEXT,
+      approval_message_id TEXT
     );
+    CREATE INDEX IF NOT EXISTS idx_action_proposals_chat ON action_proposals(chat_jid, status);
+    CREATE INDEX IF NOT EXISTS idx_action_proposals_created ON action_proposals(created_at);
   `);
 
+  // Hash-chained audit trail (see audit-log.ts)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      seq INTEGER PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      event TEXT NOT NULL,
+      data_json TEXT NOT NULL,
+      prev_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
+    );
+  `);
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS email_threads (
+      chat_jid TEXT PRIMARY KEY,
+      subject TEXT NOT NULL,
+      reply_to_json TEXT NOT NULL,
+      last_message_id TEXT NOT NULL,
+      references_json TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  // Add action_decisions_json column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(
+      `ALTER TABLE action_proposals ADD COLUMN action_decisions_json TEXT`,
+    );
+  } catch {
+    /* column already exists */
+  }
+
+  // Add revision link columns if they don't exist (migration for existing DBs)
+  for (const column of ['revision_of', 'superseded_by']) {
+    try {
+      database.exec(`ALTER TABLE action_proposals ADD COLUMN ${column} TEXT`);
+    } catch {
+      /* column already exists */
+    }
+  }
+
+  // Add approval_config column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE registered_groups ADD COLUMN approval_config TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add expiry tracking columns if they don't exist (migration for existing DBs)
+  for (const column of ['expires_at', 'approval_message_id']) {
+    try {
+      database.exec(`ALTER TABLE action_proposals ADD COLUMN ${column} TEXT`);
+    } catch {
+      /* column already exists */
+    }
+  }
+}
+
+export function initDatabase(): void {
+  const dbPath = path.join(STORE_DIR, 'messages.db');
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  db = new Database(dbPath);
+  createSchema(db);
+
   // Migrate from JSON files if they exist
   migrateJsonState();
+  backfillActionProposalExpiry();
+}
+
+/**
+ * Run fn in one SQLite transaction: everything it writes is committed
+ * together or, if it throws, not at all. Nested calls join the outer one.
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  return db.transaction(fn)();
+}
+
+/** @internal - for tests only. Creates a fresh in-memory database. */
+export function _initTestDatabase(): void {
+  db = new Database(':memory:');
+  createSchema(db);
 }
 
 /**
@@ -236,6 +351,28 @@ export function storeMessage(
   );
 }
 
+/**
+ * Store a message received on any channel. storeMessage expects a WhatsApp
+ * proto message, so every channel's message is mapped to one.
+ */
+export function storeInboundMessage(message: InboundMessage): void {
+  const fromMe = message.fromMe ?? false;
+  const messageData = {
+    key: {
+      remoteJid: message.chatJid,
+      fromMe,
+      id: message.id,
+      participant: message.senderId,
+    },
+    message: {
+      conversation: message.text,
+    },
+    messageTimestamp: Math.floor(message.timestamp.getTime() / 1000),
+    pushName: message.sender,
+  };
+  storeMessage(messageData, message.chatJid, fromMe, message.sender);
+}
+
 export function getNewMessages(
   jids: string[],
   lastTimestamp: string,
@@ -471,6 +608,7 @@ export function getRegisteredGroup(
         added_at: string;
         container_config: string | null;
         requires_trigger: number | null;
+        approval_config: string | null;
       }
     | undefined;
   if (!row) return undefined;
@@ -484,6 +622,9 @@ export function getRegisteredGroup(
       ? JSON.parse(row.container_config)
       : undefined,
     requiresTrigger: row.requires_trigger === null ? undefined : row.requires_trigger === 1,
+    approvalConfig: row.approval_config
+      ? JSON.parse(row.approval_config)
+      : undefined,
   };
 }
 
@@ -492,8 +633,8 @@ export function setRegisteredGroup(
   group: RegisteredGroup,
 ): void {
   db.prepare(
-    `INSERT OR REPLACE INTO registered_groups (jid, name, folder, trigger_pattern, added_at, container_config, requires_trigger)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR REPLACE INTO registered_groups (jid, name, folder, trigger_pattern, added_at, container_config, requires_trigger, approval_config)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
   ).run(
     jid,
     group.name,
@@ -502,6 +643,7 @@ export function setRegisteredGroup(
     group.added_at,
     group.containerConfig ? JSON.stringify(group.containerConfig) : null,
     group.requiresTrigger === undefined ? 1 : group.requiresTrigger ? 1 : 0,
+    group.approvalConfig ? JSON.stringify(group.approvalConfig) : null,
   );
 }
 
@@ -516,6 +658,7 @@ export function getAllRegisteredGroups(): Record<string, RegisteredGroup> {
     added_at: string;
     container_config: string | null;
     requires_trigger: number | null;
+    approval_config: string | null;
   }>;
   const result: Record<string, RegisteredGroup> = {};
   for (const row of rows) {
@@ -528,11 +671,354 @@ export function getAllRegisteredGroups(): Record<string, RegisteredGroup> {
         ? JSON.parse(row.container_config)
         : undefined,
       requiresTrigger: row.requires_trigger === null ? undefined : row.requires_trigger === 1,
+      approvalConfig: row.approval_config
+        ? JSON.parse(row.approval_config)
+        : undefined,
     };
   }
   return result;
 }
 
+// --- Action proposal accessors ---
+
+interface ActionProposalRow {
+  id: string;
+  group_folder: string;
+  chat_jid: string;
+  request_text: string | null;
+  actions_json: string;
+  status: string;
+  created_at: string;
+  decided_at: string | null;
+  decision_reason: string | null;
+  results_json: string | null;
+  completed_at: string | null;
+  action_decisions_json: string | null;
+  revision_of: string | null;
+  superseded_by: string | null;
+  expires_at: string | null;
+  approval_message_id: string | null;
+}
+
+function rowToActionProposal(row: ActionProposalRow): ActionProposalRecord {
+  const actions = JSON.parse(row.actions_json) as ActionProposalRecord['actions'];
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    status: row.status as ActionProposalRecord['status'],
+    groupFolder: row.group_folder,
+    chatJid: row.chat_jid,
+    requestText: row.request_text ?? undefined,
+    actions,
+    actionDecisions: row.action_decisions_json
+      ? JSON.parse(row.action_decisions_json)
+      : actions.map(() => ({ decision: 'pending' })),
+    decidedAt: row.decided_at ?? undefined,
+    decisionReason: row.decision_reason ?? undefined,
+    results: row.results_json ? JSON.parse(row.results_json) : undefined,
+    completedAt: row.completed_at ?? undefined,
+    revisionOf: row.revision_of ?? undefined,
+    supersededBy: row.superseded_by ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    approvalMessageId: row.approval_message_id ?? undefined,
+  };
+}
+
+export function createActionProposal(record: ActionProposalRecord): void {
+  db.prepare(
+    `
+    INSERT INTO action_proposals (id, group_folder, chat_jid, request_text, actions_json, action_decisions_json, status, created_at, decided_at, decision_reason, results_json, completed_at, revision_of, superseded_by, expires_at, approval_message_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    record.id,
+    record.groupFolder,
+    record.chatJid,
+    record.requestText ?? null,
+    JSON.stringify(record.actions),
+    record.actionDecisions ? JSON.stringify(record.actionDecisions) : null,
+    record.status,
+    record.createdAt,
+    record.decidedAt ?? null,
+    record.decisionReason ?? null,
+    record.results ? JSON.stringify(record.results) : null,
+    record.completedAt ?? null,
+    record.revisionOf ?? null,
+    record.supersededBy ?? null,
+    record.expiresAt ?? null,
+    record.approvalMessageId ?? null,
+  );
+}
+
+/**
+ * Give proposals from before expiry tracking, or migrated from JSON, an
+ * expires_at derived from created_at; without one they never expire.
+ * Uses the same per-type TTLs as new proposals.
+ */
+export function backfillActionProposalExpiry(): number {
+  const rows = db
+    .prepare(
+      'SELECT id, created_at, actions_json FROM action_proposals WHERE expires_at IS NULL',
+    )
+    .all() as { id: string; created_at: string; actions_json: string }[];
+  const update = db.prepare(
+    'UPDATE action_proposals SET expires_at = ? WHERE id = ?',
+  );
+  for (const row of rows) {
+    const types = (JSON.parse(row.actions_json) as { type: string }[]).map(
+      (action) => action.type,
+    );
+    const ttlMs =
+      types.length > 0
+        ? Math.min(
+            ...types.map(
+              (type) =>
+                ACTION_PROPOSAL_TTL_BY_TYPE_MS[type] ?? ACTION_PROPOSAL_TTL_MS,
+            ),
+          )
+        : ACTION_PROPOSAL_TTL_MS;
+    // An unparseable created_at expires right away rather than never
+    const createdAt = new Date(row.created_at).getTime() || 0;
+    update.run(new Date(createdAt + ttlMs).toISOString(), row.id);
+  }
+  return rows.length;
+}
+
+export function getActionProposal(id: string): ActionProposalRecord | undefined {
+  const row = db
+    .prepare('SELECT * FROM action_proposals WHERE id = ?')
+    .get(id) as ActionProposalRow | undefined;
+  return row ? rowToActionProposal(row) : undefined;
+}
+
+export function getActionProposalsForChat(
+  chatJid: string,
+  statuses?: ActionProposalRecord['status'][],
+  limit = 20,
+): ActionProposalRecord[] {
+  const filter =
+    statuses && statuses.length > 0
+      ? `AND status IN (${statuses.map(() => '?').join(',')})`
+      : '';
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM action_proposals
+    WHERE chat_jid = ? ${filter}
+    ORDER BY created_at DESC
+    LIMIT ?
+  `,
+    )
+    .all(chatJid, ...(statuses || []), limit) as ActionProposalRow[];
+  return rows.map(rowToActionProposal);
+}
+
+/** Proposals still awaiting a decision whose expiry time has passed. */
+export function getExpiredActionProposals(now: string): ActionProposalRecord[] {
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM action_proposals
+    WHERE status = 'proposed' AND expires_at IS NOT NULL AND expires_at <= ?
+    ORDER BY expires_at
+  `,
+    )
+    .all(now) as ActionProposalRow[];
+  return rows.map(rowToActionProposal);
+}
+
+/**
+ * Apply updates to a proposal. When expectedStatus is given, the update only
+ * happens if the row is still in that status (compare-and-set), so two
+ * concurrent deciders cannot both win. Returns true if a row was updated.
+ */
+export function updateActionProposal(
+  id: string,
+  updates: Partial<
+    Pick<
+      ActionProposalRecord,
+      | 'status'
+      | 'actionDecisions'
+      | 'decidedAt'
+      | 'decisionReason'
+      | 'results'
+      | 'completedAt'
+      | 'supersededBy'
+      | 'approvalMessageId'
+    >
+  >,
+  expectedStatus?: ActionProposalRecord['status'],
+): boolean {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  if (updates.status !== undefined) {
+    fields.push('status = ?');
+    values.push(updates.status);
+  }
+  if (updates.actionDecisions !== undefined) {
+    fields.push('action_decisions_json = ?');
+    values.push(JSON.stringify(updates.actionDecisions));
+  }
+  if (updates.decidedAt !== undefined) {
+    fields.push('decided_at = ?');
+    values.push(updates.decidedAt);
+  }
+  if (updates.decisionReason !== undefined) {
+    fields.push('decision_reason = ?');
+    values.push(updates.decisionReason);
+  }
+  if (updates.results !== undefined) {
+    fields.push('results_json = ?');
+    values.push(JSON.stringify(updates.results));
+  }
+  if (updates.completedAt !== undefined) {
+    fields.push('completed_at = ?');
+    values.push(updates.completedAt);
+  }
+  if (updates.supersededBy !== undefined) {
+    fields.push('superseded_by = ?');
+    values.push(updates.supersededBy);
+  }
+  if (updates.approvalMessageId !== undefined) {
+    fields.push('approval_message_id = ?');
+    values.push(updates.approvalMessageId);
+  }
+
+  if (fields.length === 0) return false;
+
+  let sql = `UPDATE action_proposals SET ${fields.join(', ')} WHERE id = ?`;
+  values.push(id);
+  if (expectedStatus) {
+    sql += ' AND status = ?';
+    values.push(expectedStatus);
+  }
+  return db.prepare(sql).run(...values).changes > 0;
+}
+
+// --- Audit log accessors ---
+
+interface AuditLogRow {
+  seq: number;
+  timestamp: string;
+  event: string;
+  data_json: string;
+  prev_hash: string;
+  hash: string;
+}
+
+function rowToAuditEntry(row: AuditLogRow): AuditEntry {
+  return {
+    seq: row.seq,
+    timestamp: row.timestamp,
+    event: row.event,
+    data: row.data_json,
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
+}
+
+export function getLastAuditEntry(): AuditEntry | undefined {
+  const row = db
+    .prepare('SELECT * FROM audit_log ORDER BY seq DESC LIMIT 1')
+    .get() as AuditLogRow | undefined;
+  return row ? rowToAuditEntry(row) : undefined;
+}
+
+export function insertAuditEntry(entry: AuditEntry): void {
+  db.prepare(
+    `INSERT INTO audit_log (seq, timestamp, event, data_json, prev_hash, hash) VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(
+    entry.seq,
+    entry.timestamp,
+    entry.event,
+    entry.data,
+    entry.prevHash,
+    entry.hash,
+  );
+}
+
+export function getAuditEntries(): AuditEntry[] {
+  const rows = db
+    .prepare('SELECT * FROM audit_log ORDER BY seq')
+    .all() as AuditLogRow[];
+  return rows.map(rowToAuditEntry);
+}
+
+/**
+ * Read the audit chain of the database file at dbPath without opening it for
+ * writing, so checking a log never creates, migrates or locks it. The core
+ * and gateway databases share the audit_log layout. Returns an empty chain
+ * when the table does not exist.
+ */
+export function readAuditEntries(dbPath: string): AuditEntry[] {
+  const database = new Database(dbPath, {
+    readonly: true,
+    fileMustExist: true,
+  });
+  try {
+    const hasTable = database
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'audit_log'",
+      )
+      .get();
+    if (!hasTable) return [];
+    const rows = database
+      .prepare('SELECT * FROM audit_log ORDER BY seq')
+      .all() as AuditLogRow[];
+    return rows.map(rowToAuditEntry);
+  } finally {
+    database.close();
+  }
+}
+
+// --- Email threads ---
+
+interface EmailThreadRow {
+  chat_jid: string;
+  subject: string;
+  reply_to_json: string;
+  last_message_id: string;
+  references_json: string;
+  updated_at: string;
+}
+
+export function getEmailThread(chatJid: string): EmailThread | undefined {
+  const row = db
+    .prepare('SELECT * FROM email_threads WHERE chat_jid = ?')
+    .get(chatJid) as EmailThreadRow | undefined;
+  if (!row) return undefined;
+  return {
+    chatJid: row.chat_jid,
+    subject: row.subject,
+    replyTo: JSON.parse(row.reply_to_json),
+    lastMessageId: row.last_message_id,
+    references: JSON.parse(row.references_json),
+    updatedAt: row.updated_at,
+  };
+}
+
+export function setEmailThread(thread: EmailThread): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO email_threads (chat_jid, subject, reply_to_json, last_message_id, references_json, updated_at) VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(
+    thread.chatJid,
+    thread.subject,
+    JSON.stringify(thread.replyTo),
+    thread.lastMessageId,
+    JSON.stringify(thread.references),
+    thread.updatedAt,
+  );
+}
+
+/** Subjects of every known email thread, keyed by chat id. */
+export function getEmailThreadSubjects(): Record<string, string> {
+  const rows = db
+    .prepare('SELECT chat_jid, subject FROM email_threads')
+    .all() as Array<{ chat_jid: string; subject: string }>;
+  return Object.fromEntries(rows.map((row) => [row.chat_jid, row.subject]));
+}
+
 // --- JSON migration ---
 
 function migrateJsonState(): void {
@@ -586,4 +1072,15 @@ function migrateJsonState(): void {
       setRegisteredGroup(jid, group);
     }
   }
+
+  // Migrate action-queue.json
+  const proposals = migrateFile('action-queue.json') as
+    | ActionProposalRecord[]
+    | null;
+  if (Array.isArray(proposals)) {
+    for (const proposal of proposals) {
+      if (!proposal?.id || getActionProposal(proposal.id)) continue;
+      createActionProposal(proposal);
+    }
+  }
 }
@@ -0,0 +1,232 @@
+/**
+ * Email channel for NanoClaw
+ * Polls an IMAP mailbox and treats every thread as a chat: the chat id is
+ * `email:` plus the Message-ID that started the thread. Replies, approval
+ * requests and scheduled task reports for a thread go out over SMTP as
+ * replies in that thread. Meant for low-urgency requests, so the mailbox is
+ * polled once a minute by default. Approvals work with APPROVE and DENY
+ * replies; since sender addresses are easy to forge, restrict senders and
+ * approvers (EMAIL_ALLOWED_SENDERS, approvalConfig) when the address is public.
+ * With a group folder configured, a new thread is registered as a group in it
+ * that answers every mail, so all threads share that folder's memory and
+ * session; that is only allowed together with a sender allowlist. A mail
+ * joins a thread only when the message it replies to belongs to the thread.
+ */
+import crypto from 'crypto';
+
+import {
+  type ApprovalPrompt,
+  approvalKeywordCommand,
+  approvalKeywordHint,
+  type ChannelAdapter,
+  type ChannelEvents,
+} from './channel.js';
+import { ASSISTANT_NAME } from './config.js';
+import {
+  getEmailThread,
+  getEmailThreadSubjects,
+  setEmailThread,
+} from './db.js';
+import { formatEmail, parseEmail, replySubject } from './email-message.js';
+import {
+  type FetchedMail,
+  ImapClient,
+  type ImapConfig,
+} from './imap-client.js';
+import { logger } from './logger.js';
+import { SmtpClient, type SmtpConfig } from './smtp-client.js';
+import type { RegisteredGroup } from './types.js';
+
+const CHAT_PREFIX = 'email:';
+
+export interface EmailChannelConfig {
+  /** The channel's own address, used as From and to skip its own mail. */
+  address: string;
+  imap: ImapConfig;
+  smtp: SmtpConfig;
+  pollIntervalMs: number;
+  /** Lowercase sender addresses to accept; empty accepts everyone. */
+  allowedSenders: string[];
+  /**
+   * Group folder for new threads; empty leaves them unregistered. Requires
+   * allowedSenders.
+   */
+  groupFolder: string;
+}
+
+function threadChatJid(rootMessageId: string): string {
+  return `${CHAT_PREFIX}${rootMessageId.replace(/^<|>$/g, '')}`;
+}
+
+export class EmailChannel implements ChannelAdapter {
+  readonly name = 'email';
+  private imap: ImapClient;
+  private smtp: SmtpClient;
+  private pollTimer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private stopped = true;
+
+  constructor(private config: EmailChannelConfig) {
+    if (config.groupFolder && config.allowedSenders.length === 0) {
+      throw new Error(
+        'EMAIL_GROUP_FOLDER registers a group for every new thread; set EMAIL_ALLOWED_SENDERS too',
+      );
+    }
+    this.imap = new ImapClient(config.imap);
+    this.smtp = new SmtpClient(config.smtp);
+  }
+
+  ownsChat(chatJid: string): boolean {
+    return chatJid.startsWith(CHAT_PREFIX);
+  }
+
+  async start(events: ChannelEvents): Promise<void> {
+    this.stopped = false;
+    this.polling = this.poll(events);
+    logger.info({ address: this.config.address }, 'Email channel polling');
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.pollTimer);
+    // Let a poll in progress finish so no mail is left half-handled
+    await this.polling;
+  }
+
+  /** Reply in the thread, to whoever wrote to it last. */
+  async sendMessage(chatJid: string, text: string): Promise<void> {
+    const thread = getEmailThread(chatJid);
+    if (!thread) throw new Error(`Unknown email thread ${chatJid}`);
+
+    const domain = this.config.address.split('@')[1] || 'localhost';
+    const messageId = `<nanoclaw-${Date.now()}-${crypto.randomBytes(6).toString('hex')}@${domain}>`;
+    const message = formatEmail({
+      from: this.config.address,
+      to: thread.replyTo,
+      subject: replySubject(thread.subject),
+      text,
+      messageId,
+      inReplyTo: thread.lastMessageId,
+      references: thread.references,
+    });
+    await this.smtp.send(this.config.address, thread.replyTo, message);
+
+    setEmailThread({
+      ...thread,
+      lastMessageId: messageId,
+      references: [...thread.references, messageId],
+      updatedAt: new Date().toISOString(),
+    });
+    logger.info({ chatJid, to: thread.replyTo }, 'Sent email reply');
+  }
+
+  async setTyping(): Promise<void> {
+    // Email has no typing indicator
+  }
+
+  async sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined> {
+    await this.sendMessage(
+      chatJid,
+      `${prompt.text}\n\n${approvalKeywordHint(prompt)}`,
+    );
+    return undefined;
+  }
+
+  async fetchGroupNames(): Promise<Record<string, string>> {
+    return getEmailThreadSubjects();
+  }
+
+  groupForNewChat(chatJid: string): RegisteredGroup | undefined {
+    const thread = getEmailThread(chatJid);
+    if (!this.config.groupFolder || !thread) return undefined;
+    return {
+      name: `Email: ${thread.subject}`,
+      folder: this.config.groupFolder,
+      trigger: `@${ASSISTANT_NAME}`,
+      added_at: new Date().toISOString(),
+      // Every mail in a thread is a request
+      requiresTrigger: false,
+    };
+  }
+
+  private async poll(events: ChannelEvents): Promise<void> {
+    try {
+      await this.imap.processUnseen((mail) => this.handleMail(mail, events));
+    } catch (err) {
+      logger.error({ err }, 'Email poll failed');
+    }
+    if (!this.stopped) {
+      this.pollTimer = setTimeout(
+        () => (this.polling = this.poll(events)),
+        this.config.pollIntervalMs,
+      );
+    }
+  }
+
+  private async handleMail(
+    mail: FetchedMail,
+    events: ChannelEvents,
+  ): Promise<void> {
+    const email = parseEmail(mail.raw);
+    const sender = email.from.address;
+    if (!sender || !email.replyTo) {
+      logger.warn(
+        { uid: mail.uid },
+        'Ignoring email without a valid From or Reply-To address',
+      );
+      return;
+    }
+    if (sender === this.config.address.toLowerCase()) return;
+    if (
+      this.config.allowedSenders.length > 0 &&
+      !this.config.allowedSenders.includes(sender)
+    ) {
+      logger.warn(
+        { sender, uid: mail.uid },
+        'Ignoring email from unknown sender',
+      );
+      return;
+    }
+
+    const messageId = email.messageId || `<imap-${mail.uid}@nanoclaw>`;
+    // References is the sender's to write: naming a thread's root is not
+    // enough, the message replied to must be one the thread already has
+    const root = email.references[0];
+    const parent = email.references[email.references.length - 1];
+    const candidate = root ? getEmailThread(threadChatJid(root)) : undefined;
+    const existing =
+      parent && candidate?.references.includes(parent) ? candidate : undefined;
+    const chatJid = existing?.chatJid ?? threadChatJid(messageId);
+    if (!existing && getEmailThread(chatJid)) {
+      logger.warn(
+        { sender, uid: mail.uid, messageId },
+        'Ignoring email reusing the Message-ID of a thread',
+      );
+      return;
+    }
+    const references = [...(existing?.references ?? [])];
+    if (!references.includes(messageId)) references.push(messageId);
+    setEmailThread({
+      chatJid,
+      subject:
+        existing?.subject ??
+        (email.subject.replace(/^(re|fwd?):\s*/i, '') || '(no subject)'),
+      replyTo: [email.replyTo],
+      lastMessageId: messageId,
+      references,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await events.onMessage({
+      chatJid,
+      text: approvalKeywordCommand(email.text) ?? email.text,
+      id: messageId,
+      sender: email.from.name || sender,
+      senderId: sender,
+      timestamp: email.date,
+    });
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Email message parsing and formatting for NanoClaw
+ * Just enough of RFC 5322/2045/2047 for the email channel: headers with
+ * encoded words, the first text/plain part of a (nested) multipart message,
+ * quoted-printable and base64 bodies, and plain-text replies.
+ */
+
+export interface ParsedEmail {
+  messageId: string;
+  /** Message ids this mail replies to, oldest first (References, In-Reply-To). */
+  references: string[];
+  /** Empty address when From is not a single valid mailbox. */
+  from: { address: string; name: string };
+  /** Reply-To address, falling back to the sender; empty when invalid. */
+  replyTo: string;
+  subject: string;
+  date: Date;
+  /** Plain text with quoted history and signature removed. */
+  text: string;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+// Header values and bodies are latin1 strings, one char per raw byte
+type Headers = Map<string, string>;
+
+function splitHeaderBlock(raw: string): { headers: Headers; body: string } {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body =
+    separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+  const headers: Headers = new Map();
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?UTF-8?B?...?=`, `=?...?Q?...?=`) in a
+ * header read as latin1. Raw 8-bit header bytes are taken as UTF-8.
+ */
+export function decodeHeader(value: string): string {
+  return Buffer.from(value, 'latin1')
+    .toString('utf8')
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_match, charset: string, encoding: string, data: string) =>
+        decodeCharset(
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(data, 'base64')
+            : decodeQuotedPrintable(data.replace(/_/g, ' ')),
+          charset,
+        ),
+    );
+}
+
+function headerParam(value: string, param: string): string | undefined {
+  const match = value.match(
+    new RegExp(`;\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'),
+  );
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+// Dot-atom addr-spec (RFC 5322 3.4.1): no quoted local parts, comments or
+// domain literals, and the domain needs at least one dot
+const ATOM = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+";
+const LABEL = '[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?';
+const ADDR_SPEC = new RegExp(
+  `^${ATOM}(?:\\.${ATOM})*@${LABEL}(?:\\.${LABEL})+$`,
+);
+
+/**
+ * One mailbox, `addr-spec` or `Display Name <addr-spec>`. Only the display
+ * name is decoded; an encoded word can never turn into the address. Returns
+ * undefined for anything else (groups, lists, comments, odd syntax).
+ */
+export function parseAddress(
+  value: string,
+): { address: string; name: string } | undefined {
+  const trimmed = value.trim();
+  const angle = trimmed.match(/^([^<>]*)<([^<>]*)>$/);
+  const address = angle ? angle[2] : trimmed;
+  if (!ADDR_SPEC.test(address)) return undefined;
+  return {
+    address: address.toLowerCase(),
+    name: angle ? decodeHeader(angle[1].trim()).replace(/^"|"$/g, '') : '',
+  };
+}
+
+/** Throw if an address could break out of its header or SMTP command line. */
+export function assertAddressLine(address: string): void {
+  if (/[\r\n]/.test(address)) {
+    throw new Error(
+      `Refusing email address with a line break: ${JSON.stringify(address)}`,
+    );
+  }
+}
+
+function messageIds(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/** The decoded text/plain content of a MIME entity, if it has one. */
+function plainText(headers: Headers, body: string): string | undefined {
+  const contentType = headers.get('content-type') || 'text/plain';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return undefined;
+    const parts = body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith('--')) break;
+      const entity = splitHeaderBlock(part.replace(/^\r?\n/, ''));
+      const text = plainText(entity.headers, entity.body);
+      if (text !== undefined) return text;
+    }
+    return undefined;
+  }
+  if (type !== 'text/plain') return undefined;
+
+  const encoding = (headers.get('content-transfer-encoding') || '')
+    .trim()
+    .toLowerCase();
+  const charset = headerParam(contentType, 'charset') || 'utf-8';
+  const bytes =
+    encoding === 'base64'
+      ? Buffer.from(body.replace(/\s+/g, ''), 'base64')
+      : encoding === 'quoted-printable'
+        ? decodeQuotedPrintable(body)
+        : Buffer.from(body, 'latin1');
+  return decodeCharset(bytes, charset);
+}
+
+/**
+ * Keep only what the sender wrote: cut at the "On ... wrote:" attribution,
+ * an Outlook "Original Message" divider or the signature separator, and
+ * drop any remaining quoted lines.
+ */
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^On .+ wrote:$/.test(line.trim())) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())) break;
+    if (line === '-- ') break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+export function parseEmail(raw: Buffer): ParsedEmail {
+  // latin1 keeps one char per byte until each part's charset is known
+  const { headers, body } = splitHeaderBlock(raw.toString('latin1'));
+  const from = parseAddress(headers.get('from') || '') ?? {
+    address: '',
+    name: '',
+  };
+  const replyTo = headers.get('reply-to');
+  const inReplyTo = messageIds(headers.get('in-reply-to'));
+  const references = messageIds(headers.get('references'));
+  for (const id of inReplyTo) {
+    if (!references.includes(id)) references.push(id);
+  }
+  const date = new Date(headers.get('date') || '');
+
+  return {
+    messageId: messageIds(headers.get('message-id'))[0] || '',
+    references,
+    from,
+    replyTo: replyTo ? (parseAddress(replyTo)?.address ?? '') : from.address,
+    subject: decodeHeader(headers.get('subject') || '').trim(),
+    date: Number.isNaN(date.getTime()) ? new Date() : date,
+    text: stripQuotedReply(plainText(headers, body) ?? ''),
+  };
+}
+
+/** `Re: <subject>`, without stacking prefixes. */
+export function replySubject(subject: string): string {
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/** A plain-text message ready for SMTP DATA (CRLF line endings, base64 body). */
+export function formatEmail(email: OutgoingEmail): string {
+  for (const address of [email.from, ...email.to]) assertAddressLine(address);
+  const lines = [
+    `From: ${email.from}`,
+    `To: ${email.to.join(', ')}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${email.messageId}`,
+  ];
+  if (email.inReplyTo) lines.push(`In-Reply-To: ${email.inReplyTo}`);
+  if (email.references?.length) {
+    lines.push(`References: ${email.references.join(' ')}`);
+  }
+  lines.push(
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(Buffer.from(email.text, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []),
+  );
+  return lines.join('\r\n');
+}
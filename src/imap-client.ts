@@ -0,0 +1,137 @@
+/**
+ * Minimal IMAP client for the email channel
+ * Each poll logs in, hands every unseen message of one mailbox to a handler,
+ * marks the handled ones \Seen and logs out. Only the IMAP4rev1 commands
+ * that needs are implemented: LOGIN, SELECT, UID SEARCH, UID FETCH, UID STORE
+ * and LOGOUT. There is no STARTTLS, so LOGIN needs an implicit TLS
+ * connection (IMAPS); the password is never sent in plain text.
+ */
+import { logger } from './logger.js';
+import { type MailServerConfig, MailSocket } from './mail-socket.js';
+
+export interface ImapConfig extends MailServerConfig {
+  mailbox: string;
+}
+
+export interface FetchedMail {
+  uid: number;
+  raw: Buffer;
+}
+
+interface ImapResponse {
+  /** The response with every literal replaced by `{n}`. */
+  line: string;
+  literals: Buffer[];
+}
+
+/** Quote a string argument (RFC 3501 quoted string). */
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+}
+
+export class ImapClient {
+  private tagCounter = 0;
+
+  constructor(private config: ImapConfig) {}
+
+  private async readResponse(socket: MailSocket): Promise<ImapResponse> {
+    let line = await socket.readLine();
+    const literals: Buffer[] = [];
+    // A line ending in {n} is followed by n bytes and the rest of the line
+    for (
+      let literal = line.match(/\{(\d+)\}$/);
+      literal;
+      literal = line.match(/\{(\d+)\}$/)
+    ) {
+      literals.push(await socket.readBytes(Number(literal[1])));
+      line += await socket.readLine();
+    }
+    return { line, literals };
+  }
+
+  /** Run one command and return its untagged responses. */
+  private async command(
+    socket: MailSocket,
+    command: string,
+  ): Promise<ImapResponse[]> {
+    this.tagCounter += 1;
+    const tag = `N${this.tagCounter}`;
+    socket.write(`${tag} ${command}\r\n`);
+    const untagged: ImapResponse[] = [];
+    for (;;) {
+      const response = await this.readResponse(socket);
+      if (!response.line.startsWith(`${tag} `)) {
+        untagged.push(response);
+        continue;
+      }
+      const status = response.line.slice(tag.length + 1);
+      if (!/^OK\b/i.test(status)) {
+        // Never echo the password back into logs
+        const shown = command.startsWith('LOGIN ') ? 'LOGIN' : command;
+        throw new Error(`IMAP ${shown} failed: ${status}`);
+      }
+      return untagged;
+    }
+  }
+
+  /**
+   * Pass every unseen message in the mailbox to `handle`, marking it \Seen
+   * once the handler succeeds. A message whose handler throws stays unseen
+   * and is retried on the next call. Returns the number of handled messages.
+   */
+  async processUnseen(
+    handle: (mail: FetchedMail) => Promise<void>,
+  ): Promise<number> {
+    const { host, port, secure, user, password, mailbox, ca } = this.config;
+    const socket = await MailSocket.connect(host, port, secure, ca);
+    try {
+      const greeting = await socket.readLine();
+      if (!/^\* (OK|PREAUTH)\b/i.test(greeting)) {
+        throw new Error(`Unexpected IMAP greeting: ${greeting}`);
+      }
+      if (!socket.encrypted) {
+        throw new Error(
+          `IMAP connection to ${host} is not TLS; refusing to send the password in plain text (set EMAIL_IMAP_SECURE=true)`,
+        );
+      }
+      await this.command(socket, `LOGIN ${quote(user)} ${quote(password)}`);
+      await this.command(socket, `SELECT ${quote(mailbox)}`);
+
+      const search = await this.command(socket, 'UID SEARCH UNSEEN');
+      const uids = search
+        .flatMap(({ line }) => line.match(/^\* SEARCH\b(.*)$/i)?.[1] ?? '')
+        .join(' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(Number);
+
+      let handled = 0;
+      for (const uid of uids) {
+        const fetched = await this.command(
+          socket,
+          `UID FETCH ${uid} BODY.PEEK[]`,
+        );
+        const raw = fetched.find((response) =>
+          /^\* \d+ FETCH\b/i.test(response.line),
+        )?.literals[0];
+        if (!raw) continue;
+        try {
+          await handle({ uid, raw });
+        } catch (err) {
+          logger.error(
+            { err, uid },
+            'Failed to handle email; leaving it unseen',
+          );
+          continue;
+        }
+        handled += 1;
+        await this.command(socket, `UID STORE ${uid} +FLAGS.SILENT (\\Seen)`);
+      }
+
+      await this.command(socket, 'LOGOUT').catch(() => undefined);
+      return handled;
+    } finally {
+      socket.close();
+    }
+  }
+}
@@ -2,18 +2,56 @@ import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 
-import TelegramClient from './telegram-client.js';
+import {
+  type ChannelAdapter,
+  channelForChat,
+  getChannels,
+  groupToAnswer,
+  type InboundAction,
+  type InboundMessage,
+  registerChannel,
+} from './channel.js';
+import { EmailChannel } from './email-channel.js';
+import { MatrixChannel } from './matrix-channel.js';
+import { SignalChannel } from './signal-channel.js';
+import { TelegramChannel } from './telegram-channel.js';
+import { createTranscriptionProvider } from './transcription.js';
+import { WhatsAppChannel } from './whatsapp-channel.js';
 import {
   ASSISTANT_NAME,
+  CHANNELS,
   DATA_DIR,
+  EMAIL_ADDRESS,
+  EMAIL_ALLOWED_SENDERS,
+  EMAIL_IMAP_HOST,
+  EMAIL_IMAP_MAILBOX,
+  EMAIL_IMAP_PORT,
+  EMAIL_IMAP_SECURE,
+  EMAIL_PASSWORD,
+  EMAIL_GROUP_FOLDER,
+  EMAIL_POLL_INTERVAL,
+  EMAIL_SMTP_HOST,
+  EMAIL_SMTP_PASSWORD,
+  EMAIL_SMTP_PORT,
+  EMAIL_SMTP_SECURE,
+  EMAIL_SMTP_USER,
+  EMAIL_USER,
   IPC_POLL_INTERVAL,
   MAIN_GROUP_FOLDER,
+  MATRIX_ACCESS_TOKEN,
+  MATRIX_HOMESERVER_URL,
+  MATRIX_SYNC_TIMEOUT_MS,
   POLL_INTERVAL,
+  SIGNAL_API_URL,
+  SIGNAL_NUMBER,
+  SIGNAL_POLL_INTERVAL,
   STORE_DIR,
+  STT_DEFAULT_LANGUAGE,
+  STT_MAX_AUDIO_MINUTES,
+  STT_PROVIDER,
   TELEGRAM_ADMIN_CHAT_ID,
   TELEGRAM_BOT_TOKEN,
   TIMEZONE,
-  TRIGGER_PATTERN,
   OBSIDIAN_VAULT_PATH,
   OBSIDIAN_MEMORY_DIRS,
   OBSIDIAN_MEMORY_MAX_SNIPPETS,
@@ -36,7 +74,7 @@ import {
   initDatabase,
   setLastGroupSync,
   storeChatMetadata,
-  storeMessage,
+  storeInboundMessage,
   updateChatName,
 } from './db.js';
 import { startSchedulerLoop } from './task-scheduler.js';
@@ -44,25 +82,52 @@ import { NewMessage, RegisteredGroup, Session } from './types.js';
 import { loadJson, saveJson } from './utils.js';
 import { buildAgentGroundingHeader, buildUserPrompt } from './prompt.js';
 import { buildObsidianMemoryHeader } from './obsidian-memory.js';
+import { previewObsidianAction } from './obsidian-patch.js';
+import { canSendToChat, registerNotifyChannel } from './notify.js';
 import { logger } from './logger.js';
 import {
+  buildPlanSchemaDescription,
   EMPTY_PLAN,
+  formatPlanActionError,
   formatPlanBlock,
+  mergeRepairedActions,
   parsePlanFromText,
-  PLAN_SCHEMA_DESCRIPTION,
+  parseRepairedActions,
   type Plan,
+  type PlanActionError,
 } from './plan-contract.js';
 import {
-  decideActionProposal,
+  type ActionProposalRecord,
+  amendActionProposal,
+  decideProposalActions,
   enqueueActionProposal,
   getActionProposalById,
+  getApprovedActionIndices,
+  getAwaitingQuorumIndices,
   getPendingActionProposals,
+  getRecentActionProposals,
+  isAllowedApprover,
+  markActionProposalExecuting,
+  recordActionProposalResults,
+  setApprovalMessageId,
+  simulateProposalApproval,
+  startProposalSweeper,
 } from './action-queue.js';
-import { executeApprovedActions } from './approved-executor.js';
+import {
+  type DryRunOutcome,
+  type DryRunReport,
+  executeApprovedActions,
+  type ExecuteOptions,
+  type ExecutionResult,
+} from './approved-executor.js';
+import {
+  explainSshCommand,
+  formatPolicyExplanation,
+} from './policy-explain.js';
+import { getSshTargets } from './ssh-targets.js';
 
 const GROUP_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-let telegramClient: TelegramClient;
 let lastTimestamp = '';
 let sessions: Session = {};
 let registeredGroups: Record<string, RegisteredGroup> = {};
@@ -74,7 +139,7 @@ let groupSyncTimerStarted = false;
 
 async function setTyping(chatId: string, isTyping: boolean): Promise<void> {
   try {
-    await telegramClient.setTyping(chatId, isTyping);
+    await channelForChat(chatId)?.setTyping(chatId, isTyping);
   } catch (err) {
     logger.debug({ chatId, err }, 'Failed to update typing status');
   }
@@ -122,8 +187,8 @@ function registerGroup(chatId: string, group: RegisteredGroup): void {
 }
 
 /**
- * Sync group metadata from Telegram.
- * In Telegram, groups are discovered through messages, so this is minimal.
+ * Sync group names from every channel that can list its groups (Telegram
+ * discovers chats through messages only).
  * Called on startup, daily, and on-demand via IPC.
  */
 async function syncGroupMetadata(force = false): Promise<void> {
@@ -141,15 +206,13 @@ async function syncGroupMetadata(force = false): Promise<void> {
   }
 
   try {
-    logger.info('Syncing group metadata from Telegram...');
-    // In Telegram, we rely on messages to discover chats
-    // This is a no-op but maintains interface compatibility
-    const chats = getAllChats();
-
+    logger.info('Syncing group metadata...');
     let count = 0;
-    for (const chat of chats) {
-      if (chat.name) {
-        updateChatName(chat.jid, chat.name);
+    for (const channel of getChannels()) {
+      if (!channel.fetchGroupNames) continue;
+      const names = await channel.fetchGroupNames();
+      for (const [jid, name] of Object.entries(names)) {
+        updateChatName(jid, name);
         count++;
       }
     }
@@ -180,14 +243,12 @@ function getAvailableGroups(): AvailableGroup[] {
 }
 
 async function processMessage(msg: NewMessage): Promise<void> {
-  const group = registeredGroups[msg.chat_jid];
+  // Main group responds to all messages; other groups require the trigger
+  // prefix unless registered with requiresTrigger: false
+  const group = groupToAnswer(registeredGroups, msg.chat_jid, msg.content);
   if (!group) return;
 
   const content = msg.content.trim();
-  const isMainGroup = group.folder === MAIN_GROUP_FOLDER;
-
-  // Main group responds to all messages; other groups require trigger prefix
-  if (!isMainGroup && !TRIGGER_PATTERN.test(content)) return;
 
   const sinceTimestamp = lastAgentTimestamp[msg.chat_jid] || '';
   const missedMessages = getMessagesSince(
@@ -248,13 +309,7 @@ async function processMessage(msg: NewMessage): Promise<void> {
         },
         'Queued proposed actions for approval-only workflow',
       );
-      await telegramClient.sendApprovalButtons(
-        msg.chat_jid,
-        `Approval needed\nProposal: ${proposal.id}\n\n${summarizeProposalActions(
-          proposal.actions,
-        )}\n\nChoose: Approve, Deny, or Other reason.`,
-        proposal.id,
-      );
+      await sendProposalForApproval(msg.chat_jid, proposal);
     }
 
     lastAgentTimestamp[msg.chat_jid] = msg.timestamp;
@@ -284,27 +339,61 @@ async function processMessage(msg: NewMessage): Promise<void> {
   }
 }
 
+function describePlanStep(action: Plan['actions'][number]): string {
+  const lines: string[] = [];
+  if (action.id) lines.push(`Step: ${action.id}`);
+  const after = (action.dependsOn || []).filter((dep) => dep !== action.onlyIf?.action);
+  if (after.length > 0) lines.push(`After: ${after.join(', ')}`);
+  if (action.onlyIf) {
+    const checks = [
+      action.onlyIf.exitCode !== undefined ? `exit code ${action.onlyIf.exitCode}` : '',
+      action.onlyIf.outputMatches !== undefined
+        ? `output matches /${action.onlyIf.outputMatches}/`
+        : '',
+    ].filter(Boolean);
+    lines.push(`Only if ${action.onlyIf.action}: ${checks.join(' and ')}`);
+  }
+  return lines.length > 0 ? `\n${lines.join('\n')}` : '';
+}
+
 function summarizeProposalActions(actions: Plan['actions']): string {
   return actions
-    .map((action, index) => {
-      switch (action.type) {
-        case 'ssh':
-          return `${index + 1}. SSH on ${action.target}\nCommand: ${action.command}\nReason: ${action.reason}`;
-        case 'web_fetch':
-          return `${index + 1}. Web fetch (${action.mode})\nURL: ${action.url}\nReason: ${action.reason}`;
-        case 'question':
-          return `${index + 1}. Ask question\n${action.question}`;
-        case 'obsidian_write':
-          return `${index + 1}. Write note\nPath: ${action.path}`;
-        case 'reply':
-          return `${index + 1}. Send reply`;
-        default:
-          return `${index + 1}. Unknown action`;
-      }
-    })
+    .map((action, index) => `${summarizeProposalAction(action, index)}${describePlanStep(action)}`)
     .join('\n\n');
 }
 
+function summarizeProposalAction(action: Plan['actions'][number], index: number): string {
+  switch (action.type) {
+    case 'ssh':
+      return `${index + 1}. SSH on ${action.target}\nCommand: ${action.command}\nReason: ${action.reason}`;
+    case 'web_fetch':
+      return `${index + 1}. Web fetch (${action.mode})\nURL: ${action.url}\nReason: ${action.reason}`;
+    case 'file_read': {
+      const range =
+        action.tailLines !== undefined
+          ? `\nLast ${action.tailLines} lines`
+          : action.offset !== undefined || action.length !== undefined
+            ? `\nBytes: ${action.offset ?? 0}+${action.length ?? 'rest'}`
+            : '';
+      return `${index + 1}. Read file on ${action.target}\nPath: ${action.path}${range}\nReason: ${action.reason}`;
+    }
+    case 'question':
+      return `${index + 1}. Ask question\n${action.question}`;
+    case 'obsidian_write': {
+      const mode = action.heading ? `${action.mode} under ${action.heading}` : action.mode;
+      return `${index + 1}. Write note (${mode})\nPath: ${action.path}\nReason: ${action.reason}\nPreview:\n${previewObsidianAction(action)}`;
+    }
+    case 'notify': {
+      const channel = action.channel ? ` via ${action.channel}` : '';
+      return `${index + 1}. Notify ${action.to ?? 'this chat'}${channel}\nMessage: ${action.message}\nReason: ${action.reason}`;
+    }
+    case 'reply':
+      return `${index + 1}. Send reply`;
+    default:
+      return `${index + 1}. Unknown action`;
+  }
+}
+
 async function formatExecutionResults(
   proposalId: string,
   requestText: string | undefined,
@@ -749,131 +838,556 @@ function extractWebContext(raw: string): {
   return { title, description, cleanText, listItems, isDynamicShell };
 }
 
-async function handleApprovalCommand(chatId: string, rawText: string): Promise<boolean> {
+async function replyProposalNotDecidable(
+  chatId: string,
+  id: string,
+  verb: 'approve' | 'deny' | 'simulate',
+): Promise<void> {
+  // Proposals of other chats are not disclosed
+  const existing = proposalInChat(chatId, id);
+  if (existing && existing.status === 'proposed') {
+    await sendMessage(
+      chatId,
+      `Could not ${verb} ${id}. It has ${existing.actions.length} action(s); ` +
+        `use numbers between 1 and ${existing.actions.length}.`,
+    );
+    return;
+  }
+  if (existing?.status === 'expired') {
+    await sendMessage(
+      chatId,
+      `Could not ${verb} ${id}. It expired at ${existing.expiresAt ?? existing.decidedAt} ` +
+        'and can no longer be approved. Ask again if it is still needed.',
+    );
+    await editApprovalMessage(existing, formatExpiredProposal(existing));
+    return;
+  }
+  if (existing?.supersededBy) {
+    await sendMessage(
+      chatId,
+      `Proposal ${id} was amended; decide on ${existing.supersededBy} instead.`,
+    );
+    return;
+  }
+  if (existing) {
+    await sendMessage(chatId, `Proposal ${id} is already ${existing.status}.`);
+    return;
+  }
+  await sendMessage(chatId, `Could not ${verb} ${id}. Proposal not found.`);
+}
+
+/** Parse a 1-based list like "1,3" into 0-based action indices. */
+function parseActionIndices(raw: string | undefined): number[] | undefined {
+  if (!raw) return undefined;
+  return [
+    ...new Set(
+      raw
+        .split(',')
+        .map((part) => parseInt(part.trim(), 10) - 1),
+    ),
+  ];
+}
+
+/**
+ * `/deny <id> 2,3` or `/deny <id> 2,3: <reason>` denies single actions. The
+ * list must end the message or be followed by a colon, so a reason such as
+ * "2 servers down" denies the whole proposal instead of action 2.
+ */
+function parseDenyArguments(raw: string | undefined): {
+  actionIndices?: number[];
+  reason?: string;
+} {
+  const rest = raw?.trim() ?? '';
+  const listMatch = rest.match(/^(\d+(?:\s*,\s*\d+)*)\s*(?::([\s\S]*))?$/);
+  if (listMatch) {
+    return {
+      actionIndices: parseActionIndices(listMatch[1]),
+      reason: listMatch[2]?.trim() || undefined,
+    };
+  }
+  return { reason: rest || undefined };
+}
+
+function formatActionNumbers(indices: number[]): string {
+  return indices.map((index) => index + 1).join(', ');
+}
+
+async function reportProposalDecision(
+  chatId: string,
+  record: ActionProposalRecord,
+  decision: 'approved' | 'denied',
+  actionIndices?: number[],
+): Promise<void> {
+  if (record.status === 'proposed') {
+    const pending = (record.actionDecisions || []).filter(
+      (entry) => entry.decision === 'pending',
+    ).length;
+    const verb = decision === 'approved' ? 'Recorded approval for' : 'Denied';
+    const subject = actionIndices
+      ? `action ${formatActionNumbers(actionIndices)} of ${record.id}`
+      : record.id;
+    const quorumLines = getAwaitingQuorumIndices(record).map((index) => {
+      const entry = record.actionDecisions![index];
+      return (
+        `Action ${index + 1} is high risk: ${entry.approvals?.length ?? 0}/` +
+        `${entry.requiredApprovals} distinct approvals.`
+      );
+    });
+    await sendMessage(
+      chatId,
+      [`${verb} ${subject}. ${pending} action(s) still pending.`, ...quorumLines].join(
+        '\n',
+      ),
+    );
+    return;
+  }
+
+  if (record.status === 'denied') {
+    await sendMessage(chatId, `Denied ${record.id}.`);
+    return;
+  }
+
+  const approved = getApprovedActionIndices(record);
+  await sendMessage(
+    chatId,
+    approved.length === record.actions.length
+      ? `Approved ${record.id}.`
+      : `Approved ${record.id} (action ${formatActionNumbers(approved)}).`,
+  );
+  await runApprovedProposal(chatId, record);
+}
+
+function executeOptionsFor(record: ActionProposalRecord): ExecuteOptions {
+  return {
+    notify: {
+      sourceGroup: record.groupFolder,
+      chatJid: record.chatJid,
+      registeredGroups,
+    },
+  };
+}
+
+async function runApprovedProposal(
+  chatId: string,
+  record: ActionProposalRecord,
+): Promise<void> {
+  const executing = markActionProposalExecuting(record.id);
+  if (!executing) {
+    logger.warn(
+      { proposalId: record.id },
+      'Approved proposal was already picked up for execution',
+    );
+    return;
+  }
+  // Only the approved subset is executed; results are mapped back to the
+  // action's position in the proposal.
+  const approvedIndices = getApprovedActionIndices(executing);
+  let results: ExecutionResult[];
+  try {
+    results = (
+      await executeApprovedActions(
+        approvedIndices.map((index) => executing.actions[index]),
+        executeOptionsFor(executing),
+      )
+    ).map((result) => ({
+      ...result,
+      actionIndex:
+        result.actionIndex === undefined
+          ? undefined
+          : approvedIndices[result.actionIndex],
+    }));
+  } catch (err) {
+    // Settle the proposal anyway, or it would stay `executing` forever
+    logger.error({ err, proposalId: executing.id }, 'Approved execution threw');
+    const message = err instanceof Error ? err.message : String(err);
+    results = approvedIndices.map((index) => ({
+      actionIndex: index,
+      actionType: executing.actions[index].type,
+      status: 'failed',
+      output: `Execution error: ${message}`,
+    }));
+  }
+  const settled = recordActionProposalResults(executing.id, results);
+  logger.info(
+    { proposalId: executing.id, status: settled?.status },
+    'Approved proposal settled',
+  );
+  await sendMessage(
+    chatId,
+    await formatExecutionResults(executing.id, executing.requestText, results),
+  );
+}
+
+function summarizeProposalOutcome(record: ActionProposalRecord): string {
+  if (!record.results || record.results.length === 0) {
+    return record.status;
+  }
+  const counts = new Map<string, number>();
+  for (const result of record.results) {
+    counts.set(result.status, (counts.get(result.status) || 0) + 1);
+  }
+  const breakdown = [...counts.entries()]
+    .map(([status, count]) => `${count} ${status}`)
+    .join(', ');
+  return `${record.status} (${breakdown})`;
+}
+
+const DRY_RUN_LABELS: Record<DryRunOutcome, string> = {
+  would_run: 'WOULD RUN',
+  blocked: 'BLOCKED',
+  skipped: 'SKIPPED',
+  needs_approval: 'NEEDS APPROVAL',
+};
+const DRY_RUN_PAYLOAD_MAX_CHARS = 2500;
+
+function formatDryRunReport(proposalId: string, report: DryRunReport): string {
+  const actions = report.actions
+    .map((entry) => {
+      const target = entry.target ? ` on ${entry.target}` : '';
+      const command = entry.command ? `: ${entry.command}` : '';
+      return `${entry.actionIndex + 1}. ${DRY_RUN_LABELS[entry.outcome]} ${entry.actionType}${target}${command}\n${entry.reason}`;
+    })
+    .join('\n\n');
+
+  let dispatch = 'Nothing would be dispatched to the runner.';
+  if (report.dispatch) {
+    const { url, headers, payload } = report.dispatch;
+    const json = JSON.stringify(payload, null, 2);
+    dispatch =
+      `Dispatch: POST ${url ?? '(no APPROVED_ACTION_WEBHOOK_URL)'}\n` +
+      `dispatchId=${payload.dispatchId}, ${payload.actions.length} action(s), ` +
+      `${headers['x-nanoclaw-signature'] ? 'signed' : 'unsigned'}\n` +
+      (json.length > DRY_RUN_PAYLOAD_MAX_CHARS
+        ? `${json.slice(0, DRY_RUN_PAYLOAD_MAX_CHARS)}\n… (truncated)`
+        : json);
+  }
+  return `Dry run (${proposalId}); nothing was executed.\n\n${actions}\n\n${dispatch}`;
+}
+
+async function simulateProposal(
+  chatId: string,
+  id: string,
+  actionIndices: number[] | undefined,
+  userId: string,
+): Promise<void> {
+  const record = proposalInChat(chatId, id);
+  if (
+    !record ||
+    record.status !== 'proposed' ||
+    actionIndices?.some((index) => index < 0 || index >= record.actions.length)
+  ) {
+    await replyProposalNotDecidable(chatId, id, 'simulate');
+    return;
+  }
+  const approvalConfig = registeredGroups[record.chatJid].approvalConfig;
+  if (!isAllowedApprover(approvalConfig, userId)) {
+    await replyNotApprover(chatId);
+    return;
+  }
+  const report = await simulateProposalApproval(
+    record,
+    actionIndices,
+    { approverId: userId, approvalConfig },
+    executeOptionsFor(record),
+  );
+  logger.info(
+    {
+      proposalId: id,
+      outcomes: report.actions.map((entry) => entry.outcome),
+      dispatchId: report.dispatch?.payload.dispatchId,
+    },
+    'Simulated proposal approval',
+  );
+  await sendMessage(chatId, formatDryRunReport(id, report));
+}
+
+async function sendProposalForApproval(
+  chatId: string,
+  proposal: ActionProposalRecord,
+  warnings: string[] = [],
+): Promise<void> {
+  const heading = proposal.revisionOf
+    ? `Approval needed (revises ${proposal.revisionOf})`
+    : 'Approval needed';
+  const warningText =
+    warnings.length > 0 ? `\n\nWarning:\n${warnings.map((w) => `- ${w}`).join('\n')}` : '';
+  const channel = channelForChat(chatId);
+  if (!channel) {
+    logger.error({ chatId, proposalId: proposal.id }, 'No channel for approval request');
+    return;
+  }
+  const messageId = await channel.sendApprovalRequest(chatId, {
+    proposalId: proposal.id,
+    text: `${heading}\nProposal: ${proposal.id}\n\n${summarizeProposalActions(
+      proposal.actions,
+    )}${warningText}\n\n${
+      proposal.actions.length > 1
+        ? 'Approve or deny each action, or use: /approve ' +
+          `${proposal.id} 1,3 to run only the listed actions. ` +
+          'Simulate shows what would run without executing anything.'
+        : 'Choose: Approve, Deny, Edit, Simulate (dry run), or Other reason.'
+    }`,
+    actionCount: proposal.actions.length,
+  });
+  if (messageId) setApprovalMessageId(proposal.id, messageId);
+}
+
+function formatExpiredProposal(record: ActionProposalRecord): string {
+  return (
+    `Expired\nProposal: ${record.id}\n\n${summarizeProposalActions(record.actions)}\n\n` +
+    'This proposal was not decided in time and can no longer be approved. Ask again if it is still needed.'
+  );
+}
+
+/** Replace the approval message text and buttons. Returns false if that failed. */
+async function editApprovalMessage(
+  record: ActionProposalRecord,
+  text: string,
+): Promise<boolean> {
+  const channel = channelForChat(record.chatJid);
+  if (!record.approvalMessageId || !channel?.editMessage) return false;
+  try {
+    await channel.editMessage(record.chatJid, record.approvalMessageId, text);
+    return true;
+  } catch {
+    // Message may be too old, deleted, or already edited.
+    return false;
+  }
+}
+
+/** Edit the approval message (or post a new one) once a proposal expires. */
+async function announceProposalExpired(record: ActionProposalRecord): Promise<void> {
+  const text = formatExpiredProposal(record);
+  if (!(await editApprovalMessage(record, text))) {
+    await sendMessage(record.chatJid, text);
+  }
+}
+
+/**
+ * Proposal `id` if it belongs to `chatId`, a registered chat. Decisions are
+ * only taken in the chat a proposal was made in, so its approver list and
+ * quorum always apply.
+ */
+function proposalInChat(
+  chatId: string,
+  id: string,
+): ActionProposalRecord | undefined {
+  const record = getActionProposalById(id);
+  if (!record || record.chatJid !== chatId) return undefined;
+  return registeredGroups[record.chatJid] ? record : undefined;
+}
+
+async function replyNotApprover(chatId: string): Promise<void> {
+  await sendMessage(chatId, 'You are not on the approver list for this chat.');
+}
+
+async function handleApprovalCommand(
+  chatId: string,
+  rawText: string,
+  userId: string,
+): Promise<boolean> {
   const text = rawText.trim();
 
   if (/^\/approvals(?:@\w+)?$/i.test(text)) {
     const pending = getPendingActionProposals(chatId).slice(0, 5);
-    if (pending.length === 0) {
+    const settled = getRecentActionProposals(chatId, 10)
+      .filter((item) => item.status !== 'proposed')
+      .slice(0, 5);
+    if (pending.length === 0 && settled.length === 0) {
       await sendMessage(chatId, 'No pending action proposals.');
       return true;
     }
 
-    const lines = pending.map(
-      (item) => `- ${item.id}: ${item.actions.length} action(s) pending`,
-    );
-    await sendMessage(
+    const sections: string[] = [];
+    if (pending.length > 0) {
+      const lines = pending.map(
+        (item) => `- ${item.id}: ${item.actions.length} action(s) pending`,
+      );
+      sections.push(`Pending proposals:\n${lines.join('\n')}`);
+    } else {
+      sections.push('No pending action proposals.');
+    }
+    if (settled.length > 0) {
+      const lines = settled.map(
+        (item) => `- ${item.id}: ${summarizeProposalOutcome(item)}`,
+      );
+      sections.push(`Recent outcomes:\n${lines.join('\n')}`);
+    }
+    await sendMessage(chatId, sections.join('\n\n'));
+    return true;
+  }
+
+  const dryRunMatch = text.match(
+    /^\/approve(?:@\w+)?\s+--dry-run\s+([A-Za-z0-9-]+)(?:\s+(\d+(?:\s*,\s*\d+)*))?/i,
+  );
+  if (dryRunMatch) {
+    await simulateProposal(
       chatId,
-      `Pending proposals:\n${lines.join('\n')}`,
+      dryRunMatch[1],
+      parseActionIndices(dryRunMatch[2]),
+      userId,
     );
     return true;
   }
 
-  const approveMatch = text.match(/^\/approve(?:@\w+)?\s+([A-Za-z0-9-]+)/i);
+  const approveMatch = text.match(
+    /^\/approve(?:@\w+)?\s+([A-Za-z0-9-]+)(?:\s+(\d+(?:\s*,\s*\d+)*))?/i,
+  );
   if (approveMatch) {
     const id = approveMatch[1];
-    const record = decideActionProposal(id, 'approved');
+    const proposal = proposalInChat(chatId, id);
+    if (!proposal) {
+      await replyProposalNotDecidable(chatId, id, 'approve');
+      return true;
+    }
+    const approvalConfig = registeredGroups[proposal.chatJid].approvalConfig;
+    if (!isAllowedApprover(approvalConfig, userId)) {
+      await replyNotApprover(chatId);
+      return true;
+    }
+    const actionIndices = parseActionIndices(approveMatch[2]);
+    // An explicit subset approves those actions and denies the rest.
+    const record = decideProposalActions(id, 'approved', actionIndices, {
+      denyRemaining: true,
+      approverId: userId,
+      approvalConfig,
+      chatJid: chatId,
+    });
     if (!record) {
-      const existing = getActionProposalById(id);
-      if (existing && existing.status === 'approved') {
-        await sendMessage(chatId, `Proposal ${id} is already approved.`);
-        return true;
-      }
-      if (existing && existing.status === 'denied') {
-        await sendMessage(chatId, `Proposal ${id} is already denied.`);
-        return true;
-      }
-      await sendMessage(
-        chatId,
-        `Could not approve ${id}. Proposal not found.`,
-      );
+      await replyProposalNotDecidable(chatId, id, 'approve');
       return true;
     }
-    await sendMessage(
-      chatId,
-      `Approved ${record.id}.`,
-    );
-    const results = await executeApprovedActions(record.actions);
-    await sendMessage(
-      chatId,
-      await formatExecutionResults(record.id, record.requestText, results),
-    );
+    await reportProposalDecision(chatId, record, 'approved', actionIndices);
     return true;
   }
 
-  const denyMatch = text.match(/^\/deny(?:@\w+)?\s+([A-Za-z0-9-]+)(?:\s+(.+))?$/i);
+  const denyMatch = text.match(
+    /^\/deny(?:@\w+)?\s+([A-Za-z0-9-]+)(?:\s+([\s\S]+))?$/i,
+  );
   if (denyMatch) {
     const id = denyMatch[1];
-    const reason = denyMatch[2]?.trim() || undefined;
-    const record = decideActionProposal(id, 'denied', reason);
+    const proposal = proposalInChat(chatId, id);
+    if (!proposal) {
+      await replyProposalNotDecidable(chatId, id, 'deny');
+      return true;
+    }
+    const approvalConfig = registeredGroups[proposal.chatJid].approvalConfig;
+    if (!isAllowedApprover(approvalConfig, userId)) {
+      await replyNotApprover(chatId);
+      return true;
+    }
+    const { actionIndices, reason } = parseDenyArguments(denyMatch[2]);
+    const record = decideProposalActions(id, 'denied', actionIndices, {
+      decisionReason: reason,
+      approverId: userId,
+      approvalConfig,
+      chatJid: chatId,
+    });
     if (!record) {
-      const existing = getActionProposalById(id);
-      if (existing && existing.status === 'denied') {
-        await sendMessage(chatId, `Proposal ${id} is already denied.`);
-        return true;
-      }
-      if (existing && existing.status === 'approved') {
-        await sendMessage(chatId, `Proposal ${id} is already approved.`);
-        return true;
-      }
-      await sendMessage(
-        chatId,
-        `Could not deny ${id}. Proposal not found.`,
-      );
+      await replyProposalNotDecidable(chatId, id, 'deny');
       return true;
     }
-    await sendMessage(chatId, `Denied ${record.id}.`);
+    await reportProposalDecision(chatId, record, 'denied', actionIndices);
     return true;
   }
 
-  return false;
-}
-
-async function handleApprovalCallback(chatId: string, data: string): Promise<void> {
-  const approveMatch = data.match(/^approve:([A-Za-z0-9-]+)$/i);
-  if (approveMatch) {
-    const id = approveMatch[1];
-    const record = decideActionProposal(id, 'approved');
-    if (!record) {
-      const existing = getActionProposalById(id);
-      if (existing && existing.status === 'approved') {
-        await sendMessage(chatId, `Proposal ${id} is already approved.`);
-        return;
-      }
-      if (existing && existing.status === 'denied') {
-        await sendMessage(chatId, `Proposal ${id} is already denied.`);
-        return;
-      }
-      await sendMessage(chatId, `Could not approve ${id}. Proposal not found.`);
-      return;
+  const amendMatch = text.match(
+    /^\/amend(?:@\w+)?\s+([A-Za-z0-9-]+)\s+(\d+)\s+([\s\S]+)$/i,
+  );
+  if (amendMatch) {
+    const id = amendMatch[1];
+    const proposal = proposalInChat(chatId, id);
+    if (!proposal) {
+      await sendMessage(chatId, `Could not amend ${id}: Proposal ${id} not found.`);
+      return true;
+    }
+    if (
+      !isAllowedApprover(registeredGroups[proposal.chatJid].approvalConfig, userId)
+    ) {
+      await replyNotApprover(chatId);
+      return true;
+    }
+    const actionIndex = Number(amendMatch[2]) - 1;
+    const result = amendActionProposal(id, actionIndex, amendMatch[3]);
+    if (!result.revision) {
+      await sendMessage(chatId, `Could not amend ${id}: ${result.errors.join(' ')}`);
+      return true;
     }
-    await sendMessage(chatId, `Approved ${record.id}.`);
-    const results = await executeApprovedActions(record.actions);
+    logger.info(
+      { proposalId: result.revision.id, revisionOf: id, actionIndex },
+      'Amended action proposal',
+    );
+    await sendProposalForApproval(chatId, result.revision, result.warnings);
+    return true;
+  }
+
+  const policyMatch = text.match(
+    /^\/policy(?:@\w+)?\s+explain\s+(\S+)\s+([\s\S]+)$/i,
+  );
+  if (policyMatch) {
+    const explanation = explainSshCommand(
+      policyMatch[1],
+      policyMatch[2].trim(),
+      registeredGroups[chatId]?.approvalConfig,
+    );
+    await sendMessage(chatId, formatPolicyExplanation(explanation));
+    return true;
+  }
+
+  if (/^\/policy(?:@\w+)?\b/i.test(text)) {
+    await sendMessage(chatId, 'Usage: /policy explain <target> <command>');
+    return true;
+  }
+
+  if (/^\/amend(?:@\w+)?\b/i.test(text)) {
     await sendMessage(
       chatId,
-      await formatExecutionResults(record.id, record.requestText, results),
+      'Usage: /amend <proposalId> <actionNumber> <new command or patch>',
     );
-    return;
+    return true;
   }
 
-  const denyMatch = data.match(/^deny:([A-Za-z0-9-]+)$/i);
-  if (denyMatch) {
-    const id = denyMatch[1];
-    const record = decideActionProposal(id, 'denied');
+  return false;
+}
+
+async function handleApprovalCallback(
+  chatId: string,
+  data: string,
+  userId: string,
+): Promise<void> {
+  const decisionMatch = data.match(/^(approve|deny):([A-Za-z0-9-]+)(?::(\d+))?$/i);
+  if (decisionMatch) {
+    const decision =
+      decisionMatch[1].toLowerCase() === 'approve' ? 'approved' : 'denied';
+    const verb = decision === 'approved' ? 'approve' : 'deny';
+    const id = decisionMatch[2];
+    const proposal = proposalInChat(chatId, id);
+    if (!proposal) {
+      await replyProposalNotDecidable(chatId, id, verb);
+      return;
+    }
+    const approvalConfig = registeredGroups[proposal.chatJid].approvalConfig;
+    if (!isAllowedApprover(approvalConfig, userId)) {
+      await replyNotApprover(chatId);
+      return;
+    }
+    const actionIndices = parseActionIndices(decisionMatch[3]);
+    const record = decideProposalActions(id, decision, actionIndices, {
+      approverId: userId,
+      approvalConfig,
+      chatJid: chatId,
+    });
     if (!record) {
-      const existing = getActionProposalById(id);
-      if (existing && existing.status === 'denied') {
-        await sendMessage(chatId, `Proposal ${id} is already denied.`);
-        return;
-      }
-      if (existing && existing.status === 'approved') {
-        await sendMessage(chatId, `Proposal ${id} is already approved.`);
-        return;
-      }
-      await sendMessage(chatId, `Could not deny ${id}. Proposal not found.`);
+      await replyProposalNotDecidable(chatId, id, verb);
       return;
     }
-    await sendMessage(chatId, `Denied ${record.id}.`);
+    await reportProposalDecision(chatId, record, decision, actionIndices);
+    return;
+  }
+
+  const simulateMatch = data.match(/^simulate:([A-Za-z0-9-]+)$/i);
+  if (simulateMatch) {
+    await simulateProposal(chatId, simulateMatch[1], undefined, userId);
     return;
   }
 
@@ -881,6 +1395,17 @@ async function handleApprovalCallback(chatId: string, data: string): Promise<voi
   if (reasonMatch) {
     const id = reasonMatch[1];
     await sendMessage(chatId, `Send your reason with: /deny ${id} <your reason>`);
+    return;
+  }
+
+  const editMatch = data.match(/^edit:([A-Za-z0-9-]+)$/i);
+  if (editMatch) {
+    const id = editMatch[1];
+    await sendMessage(
+      chatId,
+      `Send the replacement with: /amend ${id} <actionNumber> <new command or patch>\n` +
+        'Only ssh commands and obsidian_write patches can be amended.',
+    );
   }
 }
 
@@ -909,11 +1434,24 @@ function stripPlainPlanJson(text: string): string {
   return trimmed;
 }
 
-function buildPlanRepairPrompt(): string {
+function registeredGroupFolders(): string[] {
+  return Object.values(registeredGroups).map((group) => group.folder);
+}
+
+function buildPlanRepairPrompt(actionErrors?: PlanActionError[]): string {
+  if (actionErrors && actionErrors.length > 0) {
+    return (
+      'Some actions in the previous plan were rejected; the others were kept:\n' +
+      actionErrors.map((error) => `- ${formatPlanActionError(error)}`).join('\n') +
+      '\n\nPlease reply with ONLY a fenced JSON plan block whose actions are corrected versions of the rejected actions, ' +
+      'in the same order. Do not repeat the actions that were kept and do not include any additional prose.\n\n' +
+      buildPlanSchemaDescription(undefined, registeredGroupFolders())
+    );
+  }
   return (
     'The previous response did not include a valid JSON plan block. ' +
     'Please reply with ONLY the fenced JSON plan block that matches the schema below; do not include any additional prose.\n\n' +
-    PLAN_SCHEMA_DESCRIPTION
+    buildPlanSchemaDescription(undefined, registeredGroupFolders())
   );
 }
 
@@ -1118,6 +1656,25 @@ async function runDirectPlanRepair(): Promise<Plan | null> {
   return parsed.plan;
 }
 
+/**
+ * Merge a repair reply carrying corrected versions of the rejected actions
+ * into the partially accepted plan. repaired is false when some rejected
+ * actions are still missing, so their errors should still be reported.
+ */
+function applyActionRepair(
+  plan: Plan,
+  actionErrors: PlanActionError[],
+  reply: string | null,
+): { plan: Plan; repaired: boolean } {
+  const repairedActions = reply ? parseRepairedActions(reply) : [];
+  if (!repairedActions.some(Boolean)) return { plan, repaired: false };
+  const merged = mergeRepairedActions(plan, actionErrors, repairedActions);
+  return {
+    plan: merged,
+    repaired: merged.actions.length === plan.actions.length + actionErrors.length,
+  };
+}
+
 async function runAgent(
   group: RegisteredGroup,
   prompt: string,
@@ -1191,10 +1748,20 @@ async function runAgent(
       if (!directReply) {
         return null;
       }
-      const directParse = parsePlanFromText(directReply);
+      const directParse = parsePlanFromText(directReply, { lenient: true });
       let directPlan = directParse.plan ?? EMPTY_PLAN;
       let directErrors = [...directParse.errors];
-      if (!directParse.plan) {
+      if (directParse.plan && directParse.actionErrors?.length) {
+        const result = applyActionRepair(
+          directParse.plan,
+          directParse.actionErrors,
+          await runDirectFallbackAgent(
+            buildPlanRepairPrompt(directParse.actionErrors),
+          ),
+        );
+        directPlan = result.plan;
+        if (result.repaired) directErrors = [];
+      } else if (!directParse.plan) {
         const repairedPlan = await runDirectPlanRepair();
         if (repairedPlan) {
           directPlan = repairedPlan;
@@ -1222,25 +1789,45 @@ async function runAgent(
     }
     const replyText = stripPlanBlock(rawReply);
 
-    const firstParse = parsePlanFromText(rawReply);
+    const firstParse = parsePlanFromText(rawReply, { lenient: true });
     let plan = firstParse.plan ?? EMPTY_PLAN;
     let planErrors = [...firstParse.errors];
 
-    if (!firstParse.plan) {
-      logger.warn(
-        { group: group.name, errors: firstParse.errors },
-        'Invalid or missing plan block from agent, requesting JSON-only repair',
-      );
-
+    const requestRepair = async (repairPrompt: string) => {
       const repairOutput = await runContainerAgent(group, {
-        prompt: buildPlanRepairPrompt(),
+        prompt: repairPrompt,
         sessionId: finalSessionId,
         groupFolder: group.folder,
         chatJid,
         isMain,
       });
-
       finalSessionId = repairOutput.newSessionId ?? finalSessionId;
+      return repairOutput;
+    };
+
+    if (firstParse.plan && firstParse.actionErrors?.length) {
+      logger.warn(
+        { group: group.name, errors: firstParse.errors },
+        'Plan had rejected actions, requesting repair of those entries only',
+      );
+
+      const repairOutput = await requestRepair(
+        buildPlanRepairPrompt(firstParse.actionErrors),
+      );
+      const result = applyActionRepair(
+        firstParse.plan,
+        firstParse.actionErrors,
+        repairOutput.status === 'success' ? repairOutput.result : null,
+      );
+      plan = result.plan;
+      if (result.repaired) planErrors = [];
+    } else if (!firstParse.plan) {
+      logger.warn(
+        { group: group.name, errors: firstParse.errors },
+        'Invalid or missing plan block from agent, requesting JSON-only repair',
+      );
+
+      const repairOutput = await requestRepair(buildPlanRepairPrompt());
 
       if (repairOutput.status === 'success' && repairOutput.result) {
         const repairedParse = parsePlanFromText(repairOutput.result);
@@ -1279,8 +1866,13 @@ async function runAgent(
 }
 
 async function sendMessage(chatId: string, text: string): Promise<void> {
+  const channel = channelForChat(chatId);
+  if (!channel) {
+    logger.error({ chatId }, 'No channel owns this chat, message dropped');
+    return;
+  }
   try {
-    await telegramClient.sendMessage(chatId, text);
+    await channel.sendMessage(chatId, text);
     logger.info({ chatId, length: text.length }, 'Message sent');
   } catch (err) {
     logger.error({ chatId, err }, 'Failed to send message');
@@ -1328,11 +1920,7 @@ function startIpcWatcher(): void {
               const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
               if (data.type === 'message' && data.chatJid && data.text) {
                 // Authorization: verify this group can send to this chatJid
-                const targetGroup = registeredGroups[data.chatJid];
-                if (
-                  isMain ||
-                  (targetGroup && targetGroup.folder === sourceGroup)
-                ) {
+                if (canSendToChat(registeredGroups, sourceGroup, data.chatJid)) {
                   await sendMessage(
                     data.chatJid,
                     data.text,
@@ -1425,6 +2013,8 @@ async function processTaskIpc(
     folder?: string;
     trigger?: string;
     containerConfig?: RegisteredGroup['containerConfig'];
+    approvalConfig?: RegisteredGroup['approvalConfig'];
+    requiresTrigger?: boolean;
   },
   sourceGroup: string, // Verified identity from IPC directory
   isMain: boolean, // Verified from directory path
@@ -1627,6 +2217,8 @@ async function processTaskIpc(
           trigger: data.trigger,
           added_at: new Date().toISOString(),
           containerConfig: data.containerConfig,
+          approvalConfig: data.approvalConfig,
+          requiresTrigger: data.requiresTrigger,
         });
       } else {
         logger.warn(
@@ -1641,58 +2233,148 @@ async function processTaskIpc(
   }
 }
 
-async function connectTelegram(): Promise<void> {
-  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_ADMIN_CHAT_ID) {
-    logger.error(
-      'TELEGRAM_BOT_TOKEN and TELEGRAM_ADMIN_CHAT_ID environment variables must be set',
-    );
-    process.exit(1);
+function createChannel(name: string): ChannelAdapter {
+  switch (name) {
+    case 'telegram':
+      if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_ADMIN_CHAT_ID) {
+        throw new Error(
+          'TELEGRAM_BOT_TOKEN and TELEGRAM_ADMIN_CHAT_ID environment variables must be set',
+        );
+      }
+      return new TelegramChannel({
+        token: TELEGRAM_BOT_TOKEN,
+        adminChatId: TELEGRAM_ADMIN_CHAT_ID,
+        voice: STT_PROVIDER
+          ? {
+              provider: createTranscriptionProvider(STT_PROVIDER),
+              language: STT_DEFAULT_LANGUAGE,
+              maxAudioMinutes: STT_MAX_AUDIO_MINUTES,
+            }
+          : undefined,
+        registeredGroups: () => registeredGroups,
+      });
+    case 'whatsapp':
+      return new WhatsAppChannel();
+    case 'signal':
+      if (!SIGNAL_API_URL || !SIGNAL_NUMBER) {
+        throw new Error(
+          'SIGNAL_API_URL and SIGNAL_NUMBER environment variables must be set',
+        );
+      }
+      return new SignalChannel({
+        apiUrl: SIGNAL_API_URL,
+        number: SIGNAL_NUMBER,
+        pollIntervalMs: SIGNAL_POLL_INTERVAL,
+      });
+    case 'matrix':
+      if (!MATRIX_HOMESERVER_URL || !MATRIX_ACCESS_TOKEN) {
+        throw new Error(
+          'MATRIX_HOMESERVER_URL and MATRIX_ACCESS_TOKEN environment variables must be set',
+        );
+      }
+      return new MatrixChannel({
+        homeserverUrl: MATRIX_HOMESERVER_URL,
+        accessToken: MATRIX_ACCESS_TOKEN,
+        syncTimeoutMs: MATRIX_SYNC_TIMEOUT_MS,
+      });
+    case 'email':
+      if (!EMAIL_ADDRESS || !EMAIL_IMAP_HOST || !EMAIL_SMTP_HOST) {
+        throw new Error(
+          'EMAIL_ADDRESS, EMAIL_IMAP_HOST and EMAIL_SMTP_HOST environment variables must be set',
+        );
+      }
+      return new EmailChannel({
+        address: EMAIL_ADDRESS,
+        imap: {
+          host: EMAIL_IMAP_HOST,
+          port: EMAIL_IMAP_PORT,
+          secure: EMAIL_IMAP_SECURE,
+          user: EMAIL_USER,
+          password: EMAIL_PASSWORD,
+          mailbox: EMAIL_IMAP_MAILBOX,
+        },
+        smtp: {
+          host: EMAIL_SMTP_HOST,
+          port: EMAIL_SMTP_PORT,
+          secure: EMAIL_SMTP_SECURE,
+          user: EMAIL_SMTP_USER,
+          password: EMAIL_SMTP_PASSWORD,
+        },
+        pollIntervalMs: EMAIL_POLL_INTERVAL,
+        allowedSenders: EMAIL_ALLOWED_SENDERS,
+        groupFolder: EMAIL_GROUP_FOLDER,
+      });
+    default:
+      throw new Error(`Unknown channel "${name}" in CHANNELS`);
   }
+}
 
-  telegramClient = new TelegramClient({
-    token: TELEGRAM_BOT_TOKEN,
-    adminChatId: TELEGRAM_ADMIN_CHAT_ID,
-  });
+async function handleInboundMessage(message: InboundMessage): Promise<void> {
+  const { chatJid, text, timestamp } = message;
+  try {
+    // Store chat metadata for discovery
+    storeChatMetadata(chatJid, timestamp.toISOString());
 
-  logger.info(
-    { enabled: ENABLE_APPROVED_EXECUTION },
-    'Approved action dispatch mode',
-  );
+    if (!registeredGroups[chatJid]) {
+      const group = channelForChat(chatJid)?.groupForNewChat?.(chatJid);
+      if (group) registerGroup(chatJid, group);
+    }
 
-  // Register message handler
-  telegramClient.onMessage(async (chatId, text, from, timestamp) => {
-    const handledApproval = await handleApprovalCommand(chatId, text);
+    // Only registered groups can decide proposals or have their messages stored
+    if (!registeredGroups[chatJid]) return;
+
+    const handledApproval = await handleApprovalCommand(
+      chatJid,
+      text,
+      message.senderId,
+    );
     if (handledApproval) {
       return;
     }
 
-    // Store chat metadata for discovery
-    storeChatMetadata(chatId, timestamp.toISOString());
-
-    // Only store full message content for registered groups
-    if (registeredGroups[chatId]) {
-      // Create a message object compatible with storeMessage
-      // storeMessage expects a WhatsApp proto message, but we can provide minimal data
-      const messageData = {
-        key: {
-          remoteJid: chatId,
-          fromMe: false,
-          id: `telegram-${chatId}-${timestamp.getTime()}`,
-        },
-        message: {
-          conversation: text,
-        },
-        messageTimestamp: Math.floor(timestamp.getTime() / 1000),
-        pushName: from,
-      };
+    storeInboundMessage(message);
+  } catch (err) {
+    logger.error({ err, chatJid }, 'Error handling inbound message');
+  }
+}
 
-      storeMessage(messageData as any, chatId, false, from);
-    }
-  });
+async function handleInboundAction(action: InboundAction): Promise<void> {
+  try {
+    if (!registeredGroups[action.chatJid]) return;
+    await handleApprovalCallback(action.chatJid, action.data, action.senderId);
+  } catch (err) {
+    logger.error({ err, chatJid: action.chatJid }, 'Error handling channel action');
+  }
+}
 
-  telegramClient.onCallbackQuery(async (chatId, data) => {
-    await handleApprovalCallback(chatId, data);
-  });
+/**
+ * Start every configured channel, then the shared scheduler, approval
+ * sweeper, IPC watcher and message loop that serve all of them.
+ */
+async function startChannels(): Promise<void> {
+  if (CHANNELS.length === 0) {
+    throw new Error('CHANNELS is empty; set it to one or more of telegram, whatsapp, signal, matrix, email');
+  }
+
+  logger.info(
+    { enabled: ENABLE_APPROVED_EXECUTION },
+    'Approved action dispatch mode',
+  );
+
+  for (const name of CHANNELS) {
+    const channel = createChannel(name);
+    registerChannel(channel);
+    await channel.start({
+      onMessage: handleInboundMessage,
+      onAction: handleInboundAction,
+    });
+    registerNotifyChannel(
+      channel.name,
+      (chatId, text) => channel.sendMessage(chatId, text),
+      (chatId) => channel.ownsChat(chatId),
+    );
+    logger.info({ channel: channel.name }, 'Channel started');
+  }
 
   // Sync group metadata on startup
   await syncGroupMetadata().catch((err) =>
@@ -1715,10 +2397,12 @@ async function connectTelegram(): Promise<void> {
     getSessions: () => sessions,
   });
 
+  startProposalSweeper({ onExpired: announceProposalExpired });
+
   startIpcWatcher();
   startMessageLoop();
 
-  logger.info('Connected to Telegram');
+  logger.info({ channels: CHANNELS }, 'Channels connected');
 }
 
 async function startMessageLoop(): Promise<void> {
@@ -1799,8 +2483,10 @@ async function main(): Promise<void> {
   ensureDockerRunning();
   initDatabase();
   logger.info('Database initialized');
+  // Load the SSH target registry now so an invalid file stops startup
+  getSshTargets();
   loadState();
-  await connectTelegram();
+  await startChannels();
 }
 
 main().catch((err) => {
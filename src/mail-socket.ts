@@ -0,0 +1,137 @@
+/**
+ * Line-oriented TCP/TLS connection shared by the IMAP and SMTP clients.
+ * Reads CRLF-terminated lines and fixed-size literals from one buffer, and
+ * fails any pending read when the server closes or stops answering.
+ */
+import net from 'net';
+import tls from 'tls';
+
+export interface MailServerConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (IMAPS 993, SMTPS 465). */
+  secure: boolean;
+  user: string;
+  password: string;
+  /** Extra CA certificates (PEM) to trust, for servers with a private CA. */
+  ca?: string;
+}
+
+const SOCKET_TIMEOUT_MS = 30000;
+
+export class MailSocket {
+  private buffer = Buffer.alloc(0);
+  private waiter?: () => void;
+  private error?: Error;
+
+  private constructor(
+    private socket: net.Socket,
+    private host: string,
+    private ca: string | undefined,
+  ) {
+    this.attach();
+  }
+
+  static async connect(
+    host: string,
+    port: number,
+    secure: boolean,
+    ca?: string,
+  ): Promise<MailSocket> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onConnect = () => {
+        socket.off('error', reject);
+        resolve(socket);
+      };
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, ca }, onConnect)
+        : net.connect({ host, port }, onConnect);
+      socket.once('error', reject);
+    });
+    return new MailSocket(socket, host, ca);
+  }
+
+  /** Whether the connection is TLS (implicit or after STARTTLS). */
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  private attach(): void {
+    this.socket.setTimeout(SOCKET_TIMEOUT_MS);
+    this.socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.wake();
+    });
+    this.socket.on('timeout', () => {
+      this.fail(new Error(`Mail server ${this.host} stopped responding`));
+      this.socket.destroy();
+    });
+    this.socket.on('error', (err) => this.fail(err));
+    this.socket.on('close', () =>
+      this.fail(new Error(`Mail server ${this.host} closed the connection`)),
+    );
+  }
+
+  private fail(err: Error): void {
+    this.error ??= err;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    waiter?.();
+  }
+
+  private async waitForData(): Promise<void> {
+    if (this.error) throw this.error;
+    await new Promise<void>((resolve) => (this.waiter = resolve));
+  }
+
+  /** The next line, without its line ending. */
+  async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf('\n');
+      if (end !== -1) {
+        const line = this.buffer.subarray(0, end).toString('latin1');
+        this.buffer = this.buffer.subarray(end + 1);
+        return line.replace(/\r$/, '');
+      }
+      await this.waitForData();
+    }
+  }
+
+  async readBytes(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) await this.waitForData();
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /** Switch an established plain connection to TLS (STARTTLS). */
+  async upgradeToTls(): Promise<void> {
+    this.socket.removeAllListeners();
+    const plain = this.socket;
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secured = tls.connect(
+        { socket: plain, servername: this.host, ca: this.ca },
+        () => {
+          secured.off('error', reject);
+          resolve(secured);
+        },
+      );
+      secured.once('error', reject);
+    });
+    this.buffer = Buffer.alloc(0);
+    this.attach();
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
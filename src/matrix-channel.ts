@@ -0,0 +1,190 @@
+/**
+ * Matrix channel for NanoClaw
+ * Adapts MatrixClient to the ChannelAdapter interface. Chat ids are Matrix
+ * room ids (`!abc:example.org`), so a registered group maps to one room.
+ * Approval requests get ✅ and ❌ reactions from the bot; a member's ✅/👍 or
+ * ❌/👎 on the request approves or denies the proposal. APPROVE and DENY
+ * replies work as well, and are the only option for requests sent before a
+ * restart, since the request-to-proposal mapping is kept in memory.
+ */
+import {
+  type ApprovalPrompt,
+  approvalKeywordCommand,
+  approvalKeywordHint,
+  type ChannelAdapter,
+  type ChannelEvents,
+} from './channel.js';
+import { logger } from './logger.js';
+import {
+  eventRelation,
+  MatrixClient,
+  type MatrixConfig,
+  type MatrixEvent,
+} from './matrix-client.js';
+
+const APPROVE_REACTIONS = ['✅', '👍'];
+const DENY_REACTIONS = ['❌', '👎'];
+const SYNC_RETRY_MS = 5000;
+
+export interface MatrixChannelConfig extends MatrixConfig {
+  syncTimeoutMs: number;
+}
+
+/**
+ * Drop the quoted fallback (`> <@user:server> ...` lines and a blank line)
+ * that clients put in front of the body of a reply.
+ */
+export function stripReplyFallback(body: string): string {
+  if (!body.startsWith('> ')) return body;
+  const lines = body.split('\n');
+  let index = 0;
+  while (index < lines.length && lines[index].startsWith('>')) index++;
+  if (lines[index] === '') index++;
+  return lines.slice(index).join('\n');
+}
+
+export class MatrixChannel implements ChannelAdapter {
+  readonly name = 'matrix';
+  private client: MatrixClient;
+  private userId = '';
+  private since?: string;
+  private abort?: AbortController;
+  private stopped = true;
+  // Approval request event id -> proposal id, for reaction decisions
+  private approvalEvents = new Map<string, string>();
+
+  constructor(private config: MatrixChannelConfig) {
+    this.client = new MatrixClient(config);
+  }
+
+  ownsChat(chatJid: string): boolean {
+    return /^![^:]+:.+$/.test(chatJid);
+  }
+
+  async start(events: ChannelEvents): Promise<void> {
+    this.userId = await this.client.whoami();
+    // Start from the current position; history is not replayed on startup
+    this.since = (await this.client.sync(undefined, 0)).next_batch;
+    this.stopped = false;
+    this.abort = new AbortController();
+    void this.syncLoop(events, this.abort.signal);
+    logger.info({ userId: this.userId }, 'Matrix channel syncing');
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.abort?.abort();
+  }
+
+  async sendMessage(chatJid: string, text: string): Promise<void> {
+    await this.client.sendMessage(chatJid, text);
+  }
+
+  async setTyping(chatJid: string, isTyping: boolean): Promise<void> {
+    await this.client.setTyping(chatJid, this.userId, isTyping);
+  }
+
+  async sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined> {
+    const eventId = await this.client.sendMessage(
+      chatJid,
+      `${prompt.text}\n\nReact ${APPROVE_REACTIONS[0]} to approve or ` +
+        `${DENY_REACTIONS[0]} to deny.\n${approvalKeywordHint(prompt)}`,
+    );
+    this.approvalEvents.set(eventId, prompt.proposalId);
+    await this.client.react(chatJid, eventId, APPROVE_REACTIONS[0]);
+    await this.client.react(chatJid, eventId, DENY_REACTIONS[0]);
+    return eventId;
+  }
+
+  async editMessage(
+    chatJid: string,
+    messageId: string,
+    text: string,
+  ): Promise<void> {
+    this.approvalEvents.delete(messageId);
+    await this.client.editMessage(chatJid, messageId, text);
+  }
+
+  async fetchGroupNames(): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    for (const roomId of await this.client.joinedRooms()) {
+      const name = await this.client.roomName(roomId);
+      if (name) names[roomId] = name;
+    }
+    return names;
+  }
+
+  private async syncLoop(
+    events: ChannelEvents,
+    signal: AbortSignal,
+  ): Promise<void> {
+    while (!this.stopped) {
+      try {
+        const response = await this.client.sync(
+          this.since,
+          this.config.syncTimeoutMs,
+          signal,
+        );
+        this.since = response.next_batch;
+        for (const [roomId, room] of Object.entries(
+          response.rooms?.join ?? {},
+        )) {
+          for (const event of room.timeline?.events ?? []) {
+            await this.handleEvent(roomId, event, events);
+          }
+        }
+      } catch (err) {
+        if (this.stopped) return;
+        logger.error({ err }, 'Matrix sync failed');
+        await new Promise((resolve) => setTimeout(resolve, SYNC_RETRY_MS));
+      }
+    }
+  }
+
+  private async handleEvent(
+    roomId: string,
+    event: MatrixEvent,
+    events: ChannelEvents,
+  ): Promise<void> {
+    // /sync returns the bot's own messages and reactions too; never treat
+    // them as input, or every reply would be answered again
+    if (event.sender === this.userId) return;
+    const relation = eventRelation(event);
+
+    if (event.type === 'm.reaction') {
+      const proposalId = relation && this.approvalEvents.get(relation.event_id);
+      const key = (relation?.key ?? '').replace(/\uFE0F/g, '');
+      const verb = APPROVE_REACTIONS.includes(key)
+        ? 'approve'
+        : DENY_REACTIONS.includes(key)
+          ? 'deny'
+          : undefined;
+      if (!proposalId || !verb) return;
+      await events.onAction({
+        chatJid: roomId,
+        data: `${verb}:${proposalId}`,
+        senderId: event.sender,
+      });
+      return;
+    }
+
+    if (event.type !== 'm.room.message') return;
+    const { msgtype, body: rawBody } = event.content;
+    if (msgtype !== 'm.text' || typeof rawBody !== 'string') return;
+    // Edits repeat a message that was already delivered
+    if (relation?.rel_type === 'm.replace') return;
+    const body = stripReplyFallback(rawBody);
+
+    await events.onMessage({
+      chatJid: roomId,
+      text: approvalKeywordCommand(body) ?? body,
+      id: event.event_id,
+      sender: event.sender.replace(/^@/, '').split(':')[0],
+      senderId: event.sender,
+      timestamp: new Date(event.origin_server_ts),
+    });
+  }
+}
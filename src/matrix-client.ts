@@ -0,0 +1,187 @@
+/**
+ * Matrix integration for NanoClaw
+ * A minimal client for the Matrix client-server API (v3): long-poll /sync,
+ * send, edit and react to messages, typing notifications and room names.
+ * Authenticates with an access token of an already-joined bot account.
+ */
+import { logger } from './logger.js';
+
+export interface MatrixConfig {
+  /** Base URL of the homeserver, e.g. https://matrix.example.org */
+  homeserverUrl: string;
+  accessToken: string;
+}
+
+export interface MatrixEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts: number;
+  /** Shape depends on the event type; narrow before use. */
+  content: Record<string, unknown>;
+}
+
+/** m.relates_to of an edit (m.replace) or a reaction (m.annotation). */
+export interface MatrixRelation {
+  rel_type: string;
+  event_id: string;
+  /** The emoji of a reaction. */
+  key?: string;
+}
+
+/** The event's m.relates_to, or undefined when it has no well-formed one. */
+export function eventRelation(event: MatrixEvent): MatrixRelation | undefined {
+  const relation = event.content['m.relates_to'];
+  if (typeof relation !== 'object' || relation === null) return undefined;
+  const { rel_type, event_id, key } = relation as Record<string, unknown>;
+  if (typeof rel_type !== 'string' || typeof event_id !== 'string') {
+    return undefined;
+  }
+  return { rel_type, event_id, ...(typeof key === 'string' ? { key } : {}) };
+}
+
+export interface MatrixSyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>;
+  };
+}
+
+export class MatrixClient {
+  private txnCounter = 0;
+
+  constructor(private config: MatrixConfig) {}
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = `${this.config.homeserverUrl.replace(/\/+$/, '')}/_matrix/client/v3${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        authorization: `Bearer ${this.config.accessToken}`,
+        ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `Matrix API ${method} ${path} failed (HTTP ${response.status}): ${text || '(empty body)'}`,
+      );
+    }
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  private txnId(): string {
+    this.txnCounter += 1;
+    return `nanoclaw-${Date.now()}-${this.txnCounter}`;
+  }
+
+  private async sendEvent(
+    roomId: string,
+    type: string,
+    content: Record<string, unknown>,
+  ): Promise<string> {
+    const { event_id } = await this.request<{ event_id: string }>(
+      'PUT',
+      `/rooms/${encodeURIComponent(roomId)}/send/${type}/${this.txnId()}`,
+      content,
+    );
+    return event_id;
+  }
+
+  /** The user id the access token belongs to. */
+  async whoami(): Promise<string> {
+    const { user_id } = await this.request<{ user_id: string }>(
+      'GET',
+      '/account/whoami',
+    );
+    return user_id;
+  }
+
+  async sync(
+    since: string | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<MatrixSyncResponse> {
+    const params = new URLSearchParams({ timeout: String(timeoutMs) });
+    if (since) params.set('since', since);
+    return this.request<MatrixSyncResponse>(
+      'GET',
+      `/sync?${params}`,
+      undefined,
+      signal,
+    );
+  }
+
+  /** Send a text message and return its event id. */
+  async sendMessage(roomId: string, text: string): Promise<string> {
+    const eventId = await this.sendEvent(roomId, 'm.room.message', {
+      msgtype: 'm.text',
+      body: text,
+    });
+    logger.info({ roomId, length: text.length }, 'Sent Matrix message');
+    return eventId;
+  }
+
+  /** Replace the text of an earlier message. */
+  async editMessage(
+    roomId: string,
+    eventId: string,
+    text: string,
+  ): Promise<void> {
+    await this.sendEvent(roomId, 'm.room.message', {
+      msgtype: 'm.text',
+      body: `* ${text}`,
+      'm.new_content': { msgtype: 'm.text', body: text },
+      'm.relates_to': { rel_type: 'm.replace', event_id: eventId },
+    });
+  }
+
+  async react(roomId: string, eventId: string, key: string): Promise<void> {
+    await this.sendEvent(roomId, 'm.reaction', {
+      'm.relates_to': { rel_type: 'm.annotation', event_id: eventId, key },
+    });
+  }
+
+  async setTyping(
+    roomId: string,
+    userId: string,
+    isTyping: boolean,
+  ): Promise<void> {
+    await this.request(
+      'PUT',
+      `/rooms/${encodeURIComponent(roomId)}/typing/${encodeURIComponent(userId)}`,
+      isTyping ? { typing: true, timeout: 30000 } : { typing: false },
+    );
+  }
+
+  async joinedRooms(): Promise<string[]> {
+    const { joined_rooms } = await this.request<{ joined_rooms?: string[] }>(
+      'GET',
+      '/joined_rooms',
+    );
+    return joined_rooms ?? [];
+  }
+
+  /** The room's m.room.name, or undefined when it has none. */
+  async roomName(roomId: string): Promise<string | undefined> {
+    try {
+      const { name } = await this.request<{ name?: string }>(
+        'GET',
+        `/rooms/${encodeURIComponent(roomId)}/state/m.room.name`,
+      );
+      return name || undefined;
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('(HTTP 404)')) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+}
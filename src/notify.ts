@@ -0,0 +1,182 @@
+/**
+ * Notification Delivery for NanoClaw
+ *
+ * notify actions are delivered by the core app, which owns the chat
+ * connections, rather than by ops-runner. Delivery uses the same rule as IPC
+ * messages from containers: the main group may message any registered chat,
+ * every other group only its own.
+ */
+import { MAIN_GROUP_FOLDER } from './config.js';
+import type { ExecutionResult } from './approved-executor.js';
+import type { Action } from './plan-contract.js';
+import type { RegisteredGroup } from './types.js';
+
+export type NotifyAction = Extract<Action, { type: 'notify' }>;
+
+/** Sends text to a chat id on one channel (e.g. the Telegram client). */
+export type NotifyChannel = (chatJid: string, text: string) => Promise<void>;
+
+/** Whether a chat id belongs to a channel (see ChannelAdapter.ownsChat). */
+export type NotifyChannelOwnsChat = (chatJid: string) => boolean;
+
+/** Where an approved notification came from. */
+export interface NotifyContext {
+  /** Folder of the group whose proposal carried the action. */
+  sourceGroup: string;
+  /** Chat the proposal was made in; the default recipient. */
+  chatJid: string;
+  registeredGroups: Record<string, RegisteredGroup>;
+}
+
+const channels = new Map<
+  string,
+  { send: NotifyChannel; ownsChat: NotifyChannelOwnsChat }
+>();
+
+/**
+ * Register a delivery channel. A notification goes out on the channel that
+ * owns the recipient chat unless the action names one, which must own it.
+ */
+export function registerNotifyChannel(
+  name: string,
+  send: NotifyChannel,
+  ownsChat: NotifyChannelOwnsChat,
+): void {
+  channels.set(name, { send, ownsChat });
+}
+
+export function getNotifyChannelNames(): string[] {
+  return [...channels.keys()];
+}
+
+/** @internal - for tests only. Removes every registered channel. */
+export function _resetNotifyChannels(): void {
+  channels.clear();
+}
+
+/**
+ * Whether sourceGroup may send a message to chatJid: the main group can reach
+ * any chat, other groups only the chat they are registered for.
+ */
+export function canSendToChat(
+  registeredGroups: Record<string, RegisteredGroup>,
+  sourceGroup: string,
+  chatJid: string,
+): boolean {
+  if (sourceGroup === MAIN_GROUP_FOLDER) return true;
+  return registeredGroups[chatJid]?.folder === sourceGroup;
+}
+
+/** Resolve the recipient chat: the group folder in `to`, or the source chat. */
+export function resolveNotifyChat(
+  action: NotifyAction,
+  context: NotifyContext,
+): { chatJid: string } | { error: string } {
+  if (!action.to) return { chatJid: context.chatJid };
+  const match = Object.entries(context.registeredGroups).find(
+    ([, group]) => group.folder === action.to,
+  );
+  if (!match) {
+    return { error: `No registered group with folder "${action.to}".` };
+  }
+  return { chatJid: match[0] };
+}
+
+function recipientLabel(action: NotifyAction, channel: string): string {
+  return `${action.to ?? 'this chat'} via ${channel}`;
+}
+
+interface PreparedNotification {
+  send: NotifyChannel;
+  chatJid: string;
+  result: (
+    status: ExecutionResult['status'],
+    output: string,
+  ) => ExecutionResult;
+}
+
+function channelOwning(chatJid: string): string | undefined {
+  for (const [name, channel] of channels) {
+    if (channel.ownsChat(chatJid)) return name;
+  }
+  return undefined;
+}
+
+/** Resolve recipient and channel, or the blocked result explaining why not. */
+function prepareNotification(
+  action: NotifyAction,
+  context: NotifyContext,
+): PreparedNotification | ExecutionResult {
+  const recipient = resolveNotifyChat(action, context);
+  const channelName =
+    action.channel ??
+    ('chatJid' in recipient ? channelOwning(recipient.chatJid) : undefined);
+  const result = (
+    status: ExecutionResult['status'],
+    output: string,
+  ): ExecutionResult => ({
+    actionType: 'notify',
+    command: recipientLabel(action, channelName ?? 'no channel'),
+    status,
+    output,
+  });
+
+  if ('error' in recipient) return result('blocked', recipient.error);
+  if (
+    !canSendToChat(
+      context.registeredGroups,
+      context.sourceGroup,
+      recipient.chatJid,
+    )
+  ) {
+    return result('blocked', 'Only the main group can notify other groups.');
+  }
+
+  const channel = channelName ? channels.get(channelName) : undefined;
+  if (!channelName || !channel) {
+    return result(
+      'blocked',
+      channelName
+        ? `Channel ${channelName} is not configured.`
+        : `No notification channel serves ${action.to ?? 'this chat'}.`,
+    );
+  }
+  if (!channel.ownsChat(recipient.chatJid)) {
+    return result(
+      'blocked',
+      `Channel ${channelName} does not serve ${action.to ?? 'this chat'}.`,
+    );
+  }
+  return { send: channel.send, chatJid: recipient.chatJid, result };
+}
+
+/**
+ * Check a notify action without sending it: the blocked result when it would
+ * be refused, otherwise null.
+ */
+export function checkNotification(
+  action: NotifyAction,
+  context: NotifyContext,
+): ExecutionResult | null {
+  const prepared = prepareNotification(action, context);
+  return 'send' in prepared ? null : prepared;
+}
+
+/** Deliver an approved notify action, enforcing the IPC authorization rule. */
+export async function deliverNotification(
+  action: NotifyAction,
+  context: NotifyContext,
+): Promise<ExecutionResult> {
+  const prepared = prepareNotification(action, context);
+  if (!('send' in prepared)) return prepared;
+
+  try {
+    await prepared.send(prepared.chatJid, action.message);
+    return prepared.result('executed', 'Notification sent.');
+  } catch (err) {
+    return prepared.result(
+      'failed',
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Obsidian Note Patches for NanoClaw
+ *
+ * obsidian_write actions carry a patch in one of four modes: append, prepend,
+ * replace_section (replace the body under a heading) or diff (unified diff).
+ * The core app applies patches only to render approval previews and records
+ * a hash of the note when the proposal is made; ops-runner performs the
+ * write with the same logic (infra/packages/shared/src/obsidian-patch.ts)
+ * and refuses it if the note no longer matches that hash.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { OBSIDIAN_VAULT_PATH } from './config.js';
+import type { Action } from './plan-contract.js';
+
+export type ObsidianPatchMode =
+  'append' | 'prepend' | 'replace_section' | 'diff';
+
+export interface ObsidianPatch {
+  mode: ObsidianPatchMode;
+  patch: string;
+  /** Heading whose section is replaced (replace_section only). */
+  heading?: string;
+}
+
+export type PatchResult = { content: string } | { error: string };
+
+/** Hash recorded for a note that does not exist yet. */
+export const ABSENT_NOTE_HASH = 'absent';
+
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const PREVIEW_MAX_LINES = 20;
+
+export function hashNoteContent(content: string | null): string {
+  if (content === null) return ABSENT_NOTE_HASH;
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Resolve a vault-relative note path, adding ".md" when missing. Returns null
+ * for absolute paths, paths escaping the vault and hidden segments such as
+ * ".obsidian".
+ */
+export function resolveNotePath(
+  vaultPath: string,
+  notePath: string,
+): string | null {
+  if (!vaultPath || !notePath || path.isAbsolute(notePath)) return null;
+  const segments = notePath.split(/[\\/]/);
+  if (segments.some((segment) => segment === '' || segment.startsWith('.'))) {
+    return null;
+  }
+  const root = path.resolve(vaultPath);
+  const relative = notePath.endsWith('.md') ? notePath : `${notePath}.md`;
+  const resolved = path.resolve(root, relative);
+  return resolved.startsWith(`${root}${path.sep}`) ? resolved : null;
+}
+
+function withTrailingNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function splitFrontmatter(content: string): [string, string] {
+  const match = content.match(/^---\n[\s\S]*?\n---\n/);
+  return match ? [match[0], content.slice(match[0].length)] : ['', content];
+}
+
+function headingText(line: string): { level: number; text: string } | null {
+  const match = line.match(HEADING_LINE);
+  return match ? { level: match[1].length, text: match[2] } : null;
+}
+
+function replaceSection(
+  content: string,
+  heading: string,
+  body: string,
+): PatchResult {
+  const wanted = headingText(heading)?.text ?? heading.trim();
+  const lines = content.split('\n');
+  const start = lines.findIndex((line) => headingText(line)?.text === wanted);
+  if (start === -1) return { error: `Heading not found: ${wanted}` };
+
+  const level = headingText(lines[start])!.level;
+  let end = start + 1;
+  while (end < lines.length) {
+    const next = headingText(lines[end]);
+    if (next && next.level <= level) break;
+    end += 1;
+  }
+
+  const replacement = withTrailingNewline(body).split('\n').slice(0, -1);
+  // Keep a blank line before the next heading, as notes are usually written.
+  if (end < lines.length) replacement.push('');
+  return {
+    content: [
+      ...lines.slice(0, start + 1),
+      ...replacement,
+      ...lines.slice(end),
+    ].join('\n'),
+  };
+}
+
+/** Apply a unified diff; every context and removed line must match exactly. */
+function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  const lines = content.split('\n');
+  const diffLines = diff.split('\n');
+  const output: string[] = [];
+  let cursor = 0;
+  let hunks = 0;
+
+  for (let i = 0; i < diffLines.length; i += 1) {
+    const header = diffLines[i].match(HUNK_HEADER);
+    if (!header) continue;
+    hunks += 1;
+
+    const oldStart = Number(header[1]);
+    let oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+    let newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+    // A hunk that removes nothing inserts after line oldStart.
+    const start = oldRemaining === 0 ? oldStart : oldStart - 1;
+    if (start < cursor || start > lines.length) {
+      return {
+        error: `Hunk ${hunks} is out of order or past the end of the note`,
+      };
+    }
+    output.push(...lines.slice(cursor, start));
+    cursor = start;
+
+    while (oldRemaining > 0 || newRemaining > 0) {
+      i += 1;
+      if (i >= diffLines.length) return { error: `Hunk ${hunks} is truncated` };
+      const line = diffLines[i];
+      if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+      const marker = line[0] ?? ' ';
+      const text = line.slice(1);
+
+      if (marker === '+') {
+        output.push(text);
+        newRemaining -= 1;
+        continue;
+      }
+      if (marker !== ' ' && marker !== '-') {
+        return { error: `Hunk ${hunks} has an invalid line: ${line}` };
+      }
+      if (lines[cursor] !== text) {
+        return {
+          error: `Hunk ${hunks} does not match the note at line ${cursor + 1}`,
+        };
+      }
+      if (marker === ' ') {
+        output.push(text);
+        newRemaining -= 1;
+      }
+      oldRemaining -= 1;
+      cursor += 1;
+    }
+  }
+
+  if (hunks === 0) return { error: 'Diff has no hunks' };
+  output.push(...lines.slice(cursor));
+  return { content: output.join('\n') };
+}
+
+/** Apply a patch to the current note text (null when the note is missing). */
+export function applyObsidianPatch(
+  current: string | null,
+  patch: ObsidianPatch,
+): PatchResult {
+  switch (patch.mode) {
+    case 'append': {
+      const base = current ? withTrailingNewline(current) : '';
+      return { content: `${base}${withTrailingNewline(patch.patch)}` };
+    }
+    case 'prepend': {
+      const [frontmatter, body] = splitFrontmatter(current ?? '');
+      return {
+        content: `${frontmatter}${withTrailingNewline(patch.patch)}${body}`,
+      };
+    }
+    case 'replace_section':
+      if (current === null) return { error: 'Note does not exist' };
+      if (!patch.heading) return { error: 'replace_section needs a heading' };
+      return replaceSection(current, patch.heading, patch.patch);
+    case 'diff':
+      return applyUnifiedDiff(current ?? '', patch.patch);
+  }
+}
+
+/**
+ * Render the changed lines between two versions of a note, trimmed to the
+ * region that differs, for display in approval messages.
+ */
+export function renderPatchPreview(
+  before: string | null,
+  after: string,
+): string {
+  const oldLines = (before ?? '').split('\n');
+  const newLines = after.split('\n');
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const changed = [
+    ...oldLines
+      .slice(prefix, oldLines.length - suffix)
+      .map((line) => `- ${line}`),
+    ...newLines
+      .slice(prefix, newLines.length - suffix)
+      .map((line) => `+ ${line}`),
+  ];
+  if (changed.length === 0) return '(no changes)';
+  const shown = changed.slice(0, PREVIEW_MAX_LINES);
+  if (changed.length > shown.length) {
+    shown.push(`… ${changed.length - shown.length} more line(s)`);
+  }
+  return shown.join('\n');
+}
+
+/** Read a note from the vault; null when it does not exist or cannot be resolved. */
+export function readNote(
+  notePath: string,
+  vaultPath = OBSIDIAN_VAULT_PATH,
+): string | null {
+  const resolved = resolveNotePath(vaultPath, notePath);
+  if (!resolved || !fs.existsSync(resolved)) return null;
+  return fs.readFileSync(resolved, 'utf-8');
+}
+
+/**
+ * Record the current hash of every note an obsidian_write action targets so
+ * ops-runner can refuse the write if the note changes before it is approved.
+ * Actions whose path cannot be resolved in the vault are left without a hash.
+ */
+export function snapshotNoteHashes(
+  actions: Action[],
+  vaultPath = OBSIDIAN_VAULT_PATH,
+): Action[] {
+  return actions.map((action) => {
+    if (action.type !== 'obsidian_write') return action;
+    if (!resolveNotePath(vaultPath, action.path)) return action;
+    return {
+      ...action,
+      baseHash: hashNoteContent(readNote(action.path, vaultPath)),
+    };
+  });
+}
+
+/** Preview of an obsidian_write action against the note as it is now. */
+export function previewObsidianAction(
+  action: Extract<Action, { type: 'obsidian_write' }>,
+  vaultPath = OBSIDIAN_VAULT_PATH,
+): string {
+  if (!resolveNotePath(vaultPath, action.path)) {
+    return 'Preview unavailable: note path is outside the vault.';
+  }
+  const current = readNote(action.path, vaultPath);
+  const result = applyObsidianPatch(current, action);
+  if ('error' in result) return `Patch does not apply: ${result.error}`;
+  const lines = [
+    current === null ? '(new note)' : '',
+    renderPatchPreview(current, result.content),
+  ];
+  if (action.baseHash && action.baseHash !== hashNoteContent(current)) {
+    lines.unshift(
+      'Note changed since this was proposed; the write will be refused.',
+    );
+  }
+  return lines.filter(Boolean).join('\n');
+}
@@ -1,6 +1,16 @@
-const PLAN_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/i;
+import { z } from 'zod';
+
+import {
+  ACTION_TYPES,
+  ActionSchema,
+  type ActionFields,
+  describePlanSchema,
+} from './plan-schema.js';
+import { getNotifyChannelNames } from './notify.js';
+import type { ObsidianPatchMode } from './obsidian-patch.js';
+import { getSshTargets, type SshTarget } from './ssh-targets.js';
 
-type Target = 'william' | 'willy-ubuntu';
+const PLAN_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/i;
 
 type BaseAction = {
   type: string;
@@ -18,7 +28,8 @@ type QuestionAction = {
 
 type SshAction = {
   type: 'ssh';
-  target: Target;
+  /** Name of a target in the SSH target registry. */
+  target: string;
   command: string;
   requiresApproval: boolean;
   reason: string;
@@ -26,10 +37,15 @@ type SshAction = {
 
 type ObsidianWriteAction = {
   type: 'obsidian_write';
+  /** Note path relative to the vault root. */
   path: string;
+  mode: ObsidianPatchMode;
+  heading?: string;
   patch: string;
   requiresApproval: boolean;
   reason: string;
+  /** Note hash when the proposal was made; set by the queue, not the agent. */
+  baseHash?: string;
 };
 
 type WebFetchMode = 'http' | 'browser';
@@ -43,136 +59,270 @@ type WebFetchAction = {
   extract?: string;
 };
 
-export type Action =
+type FileReadAction = {
+  type: 'file_read';
+  /** Name of a target in the SSH target registry. */
+  target: string;
+  path: string;
+  /** Byte range to read; mutually exclusive with tailLines. */
+  offset?: number;
+  length?: number;
+  tailLines?: number;
+  requiresApproval: boolean;
+  reason: string;
+};
+
+type NotifyAction = {
+  type: 'notify';
+  message: string;
+  /** Folder of the registered group to notify; the proposal's chat if omitted. */
+  to?: string;
+  /** Delivery channel name; the default channel if omitted. */
+  channel?: string;
+  requiresApproval: boolean;
+  reason: string;
+};
+
+/** Gate on the outcome of an earlier action (plan v2). */
+export interface ActionCondition {
+  /** id of the action whose result is checked; implies a dependency. */
+  action: string;
+  exitCode?: number;
+  /** Regular expression tested against the action's output. */
+  outputMatches?: string;
+}
+
+/** Ordering fields, only kept for plans with version 2. */
+type PlanStep = {
+  id?: string;
+  dependsOn?: string[];
+  onlyIf?: ActionCondition;
+};
+
+export type Action = (
   | ReplyAction
   | QuestionAction
   | SshAction
   | ObsidianWriteAction
-  | WebFetchAction;
+  | WebFetchAction
+  | FileReadAction
+  | NotifyAction
+) &
+  PlanStep;
 
 export interface Plan {
+  /** Omitted (or 1) for flat plans; 2 enables id, dependsOn and onlyIf. */
+  version?: 1 | 2;
   actions: Action[];
 }
 
 export const EMPTY_PLAN: Plan = { actions: [] };
 
+/** A rejected action: its position in the submitted plan and why. */
+export interface PlanActionError {
+  index: number;
+  type?: string;
+  field?: string;
+  reason: string;
+}
+
 export interface PlanParseResult {
   plan: Plan | null;
   errors: string[];
+  /** Per-action rejections; only filled in lenient mode. */
+  actionErrors?: PlanActionError[];
   rawJson?: string;
 }
 
-const ALLOWED_TARGETS: Target[] = ['william', 'willy-ubuntu'];
+export interface PlanParseOptions {
+  /** Keep the valid actions instead of rejecting the whole plan. */
+  lenient?: boolean;
+}
 
 function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
-function validateSshAction(value: Record<string, unknown>): SshAction | null {
-  const command = typeof value.command === 'string' ? value.command.trim() : '';
-  const target = typeof value.target === 'string' ? value.target : '';
-  const requiresApproval = typeof value.requiresApproval === 'boolean'
-    ? value.requiresApproval
-    : true;
-  const reason = typeof value.reason === 'string' ? value.reason.trim() : '';
+/** Why an action was rejected; field is omitted when the whole entry is bad. */
+interface ActionIssue {
+  field?: string;
+  reason: string;
+}
 
-  if (!command || !reason || !ALLOWED_TARGETS.includes(target as Target)) {
-    return null;
-  }
+type Checked<T> = { value: T } | { issue: ActionIssue };
 
-  return {
-    type: 'ssh',
-    command,
-    target: target as Target,
-    requiresApproval,
-    reason,
-  };
+function issue(field: string | undefined, reason: string): { issue: ActionIssue } {
+  return { issue: { ...(field ? { field } : {}), reason } };
+}
+
+/** Report the first schema issue against the field it concerns. */
+function firstIssue(error: z.ZodError): { issue: ActionIssue } {
+  const [first] = error.issues;
+  return issue(first?.path.join('.') || undefined, first?.message ?? 'is invalid');
 }
 
-function validateObsidianWriteAction(
-  value: Record<string, unknown>,
-): ObsidianWriteAction | null {
-  const path = typeof value.path === 'string' ? value.path.trim() : '';
-  const patch = typeof value.patch === 'string' ? value.patch.trim() : '';
-  const requiresApproval = typeof value.requiresApproval === 'boolean'
-    ? value.requiresApproval
-    : true;
-  const reason = typeof value.reason === 'string' ? value.reason.trim() : '';
+function isKnownTarget(name: string): boolean {
+  return getSshTargets().some((t) => t.name === name);
+}
+
+function unknownTarget(name: string): { issue: ActionIssue } {
+  return issue('target', `unknown target ${JSON.stringify(name)}`);
+}
 
-  if (!path || !patch || !reason) {
-    return null;
+function toAction(fields: ActionFields): Checked<Action> {
+  const step: PlanStep = {};
+  if (fields.id !== undefined) step.id = fields.id;
+  const dependsOn = new Set(fields.dependsOn ?? []);
+  if (fields.onlyIf) {
+    const { action, exitCode, outputMatches } = fields.onlyIf;
+    step.onlyIf = {
+      action,
+      ...(exitCode !== undefined ? { exitCode } : {}),
+      ...(outputMatches !== undefined ? { outputMatches } : {}),
+    };
+    dependsOn.add(action);
   }
+  if (dependsOn.size > 0) step.dependsOn = [...dependsOn];
 
-  return {
-    type: 'obsidian_write',
-    path,
-    patch,
-    requiresApproval,
-    reason,
-  };
+  switch (fields.type) {
+    case 'reply':
+      return { value: { type: 'reply', ...step } };
+    case 'question':
+      return { value: { type: 'question', question: fields.question, ...step } };
+    case 'ssh':
+      if (!isKnownTarget(fields.target)) return unknownTarget(fields.target);
+      return {
+        value: {
+          type: 'ssh',
+          command: fields.command,
+          target: fields.target,
+          requiresApproval: fields.requiresApproval ?? true,
+          reason: fields.reason,
+          ...step,
+        },
+      };
+    case 'obsidian_write':
+      return {
+        value: {
+          type: 'obsidian_write',
+          path: fields.path,
+          mode: fields.mode ?? 'append',
+          ...(fields.heading !== undefined ? { heading: fields.heading } : {}),
+          patch: fields.patch,
+          requiresApproval: fields.requiresApproval ?? true,
+          reason: fields.reason,
+          ...step,
+        },
+      };
+    case 'file_read':
+      if (!isKnownTarget(fields.target)) return unknownTarget(fields.target);
+      return {
+        value: {
+          type: 'file_read',
+          target: fields.target,
+          path: fields.path,
+          ...(fields.offset !== undefined ? { offset: fields.offset } : {}),
+          ...(fields.length !== undefined ? { length: fields.length } : {}),
+          ...(fields.tailLines !== undefined ? { tailLines: fields.tailLines } : {}),
+          requiresApproval: fields.requiresApproval ?? true,
+          reason: fields.reason,
+          ...step,
+        },
+      };
+    case 'notify':
+      return {
+        value: {
+          type: 'notify',
+          message: fields.message,
+          ...(fields.to !== undefined ? { to: fields.to } : {}),
+          ...(fields.channel !== undefined ? { channel: fields.channel } : {}),
+          requiresApproval: fields.requiresApproval ?? true,
+          reason: fields.reason,
+          ...step,
+        },
+      };
+    case 'web_fetch': {
+      const mode = fields.mode ?? 'http';
+      return {
+        value: {
+          type: 'web_fetch',
+          url: fields.url,
+          mode,
+          requiresApproval: fields.requiresApproval ?? mode === 'browser',
+          reason: fields.reason,
+          ...(fields.extract ? { extract: fields.extract } : {}),
+          ...step,
+        },
+      };
+    }
+  }
 }
 
-function validateQuestionAction(value: Record<string, unknown>): QuestionAction | null {
-  const question = typeof value.question === 'string' ? value.question.trim() : '';
-  if (!question) return null;
-  return { type: 'question', question };
+function checkAction(value: unknown): Checked<Action> {
+  if (!isObject(value)) return issue(undefined, 'action must be an object');
+  if (typeof value.type !== 'string' || !ACTION_TYPES.includes(value.type)) {
+    return issue('type', `unknown action type ${JSON.stringify(value.type)}`);
+  }
+
+  const parsed = ActionSchema.safeParse(value);
+  if (!parsed.success) return firstIssue(parsed.error);
+  return toAction(parsed.data);
 }
 
-function validateWebFetchAction(value: Record<string, unknown>): WebFetchAction | null {
-  const url = typeof value.url === 'string' ? value.url.trim() : '';
-  const modeCandidate = typeof value.mode === 'string' ? value.mode.trim() : '';
-  const mode: WebFetchMode = modeCandidate === 'browser' ? 'browser' : 'http';
-  const requiresApproval = typeof value.requiresApproval === 'boolean'
-    ? value.requiresApproval
-    : mode === 'browser';
-  const reason = typeof value.reason === 'string' ? value.reason.trim() : '';
-  const extract = typeof value.extract === 'string' ? value.extract.trim() : undefined;
+export function validateAction(value: unknown): Action | null {
+  const checked = checkAction(value);
+  return 'value' in checked ? checked.value : null;
+}
 
-  if (!url || !reason) {
-    return null;
+function stripPlanStep(action: Action): Action {
+  const { id: _id, dependsOn: _dependsOn, onlyIf: _onlyIf, ...rest } = action;
+  return rest as Action;
+}
+
+/**
+ * Check that step ids are unique, every dependency names an action in the
+ * plan, and the dependencies contain no cycle.
+ */
+export function validatePlanGraph(actions: Action[]): string | null {
+  const ids = new Map<string, Action>();
+  for (const action of actions) {
+    if (!action.id) continue;
+    if (ids.has(action.id)) return `Duplicate action id: ${action.id}`;
+    ids.set(action.id, action);
   }
 
-  try {
-    const parsed = new URL(url);
-    if (!['http:', 'https:'].includes(parsed.protocol)) {
-      return null;
+  for (const action of actions) {
+    for (const dep of action.dependsOn ?? []) {
+      if (!ids.has(dep)) return `Unknown dependency: ${dep}`;
     }
-  } catch {
-    return null;
   }
 
-  return {
-    type: 'web_fetch',
-    url,
-    mode,
-    requiresApproval,
-    reason,
-    ...(extract ? { extract } : {}),
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (id: string): boolean => {
+    if (done.has(id)) return true;
+    if (visiting.has(id)) return false;
+    visiting.add(id);
+    for (const dep of ids.get(id)?.dependsOn ?? []) {
+      if (!visit(dep)) return false;
+    }
+    visiting.delete(id);
+    done.add(id);
+    return true;
   };
-}
+  for (const action of actions) {
+    for (const dep of action.dependsOn ?? []) {
+      if (!visit(dep)) return `Dependency cycle involving: ${dep}`;
+    }
+  }
 
-function validateReplyAction(): ReplyAction {
-  return { type: 'reply' };
+  return null;
 }
 
-function validateAction(value: unknown): Action | null {
-  if (!isObject(value)) return null;
-  const type = typeof value.type === 'string' ? value.type : '';
-
-  switch (type) {
-    case 'reply':
-      return validateReplyAction();
-    case 'question':
-      return validateQuestionAction(value);
-    case 'ssh':
-      return validateSshAction(value);
-    case 'obsidian_write':
-      return validateObsidianWriteAction(value);
-    case 'web_fetch':
-      return validateWebFetchAction(value);
-    default:
-      return null;
-  }
+function parsePlanVersion(value: unknown): 1 | 2 | null {
+  if (value === undefined || value === 1 || value === '1') return 1;
+  if (value === 2 || value === '2') return 2;
+  return null;
 }
 
 export function extractPlanBlock(text: string): string | null {
@@ -186,52 +336,234 @@ export function formatPlanBlock(plan: Plan): string {
 }
 
 export function parsePlanJson(jsonText: string): Plan | null {
+  return parsePlanJsonDetailed(jsonText).plan;
+}
+
+/**
+ * Drop actions that depend on an id no longer in the plan, repeating until
+ * stable, so a rejected step also removes the steps waiting on it.
+ */
+function dropOrphanedSteps(
+  entries: Array<{ index: number; action: Action }>,
+  actionErrors: PlanActionError[],
+): Array<{ index: number; action: Action }> {
+  let kept = entries;
+  for (;;) {
+    const ids = new Set(
+      kept.flatMap((entry) => (entry.action.id ? [entry.action.id] : [])),
+    );
+    const next = kept.filter((entry) => {
+      const missing = (entry.action.dependsOn ?? []).find((dep) => !ids.has(dep));
+      if (!missing) return true;
+      actionErrors.push({
+        index: entry.index,
+        type: entry.action.type,
+        field: 'dependsOn',
+        reason: `depends on ${missing}, which is missing or was rejected`,
+      });
+      return false;
+    });
+    if (next.length === kept.length) return kept;
+    kept = next;
+  }
+}
+
+function parsePlanJsonDetailed(
+  jsonText: string,
+  options: PlanParseOptions = {},
+): { plan: Plan | null; actionErrors: PlanActionError[] } {
+  const actionErrors: PlanActionError[] = [];
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(jsonText);
-    if (!isObject(parsed)) return null;
-    const actions = Array.isArray(parsed.actions) ? parsed.actions : [];
-    const validated: Action[] = [];
-
-    for (const action of actions) {
-      const validatedAction = validateAction(action);
-      if (!validatedAction) return null;
-      validated.push(validatedAction);
+    parsed = JSON.parse(jsonText);
+  } catch {
+    return { plan: null, actionErrors };
+  }
+  if (!isObject(parsed)) return { plan: null, actionErrors };
+  const version = parsePlanVersion(parsed.version);
+  if (version === null) return { plan: null, actionErrors };
+
+  const actions = Array.isArray(parsed.actions) ? parsed.actions : [];
+  let accepted: Array<{ index: number; action: Action }> = [];
+  for (const [index, raw] of actions.entries()) {
+    const checked = checkAction(raw);
+    if ('issue' in checked) {
+      actionErrors.push({
+        index,
+        ...(isObject(raw) && typeof raw.type === 'string' ? { type: raw.type } : {}),
+        ...checked.issue,
+      });
+      continue;
     }
+    // v1 plans are flat; ordering fields are ignored for compatibility.
+    accepted.push({
+      index,
+      action: version === 2 ? checked.value : stripPlanStep(checked.value),
+    });
+  }
 
-    return { actions: validated };
-  } catch {
-    return null;
+  if (actionErrors.length > 0 && !options.lenient) {
+    return { plan: null, actionErrors };
+  }
+  if (version === 2 && options.lenient) {
+    accepted = dropOrphanedSteps(accepted, actionErrors);
   }
+
+  const validated = accepted.map((entry) => entry.action);
+  if (version === 1) return { plan: { actions: validated }, actionErrors };
+  if (validatePlanGraph(validated)) return { plan: null, actionErrors };
+  return { plan: { version: 2, actions: validated }, actionErrors };
 }
 
-export function parsePlanFromText(text: string): PlanParseResult {
+export function parsePlanFromText(
+  text: string,
+  options: PlanParseOptions = {},
+): PlanParseResult {
   const block = extractPlanBlock(text);
   if (!block) {
     // Fallback: accept raw JSON output in case model omitted fences.
     const candidate = text.trim().replace(/^json\s*/i, '').trim();
-    const planFromRaw = parsePlanJson(candidate);
-    if (planFromRaw) {
-      return { plan: planFromRaw, errors: [], rawJson: candidate };
+    const fromRaw = parsePlanJsonDetailed(candidate, options);
+    if (fromRaw.plan) {
+      return withActionErrors(
+        { plan: fromRaw.plan, errors: [], rawJson: candidate },
+        fromRaw.actionErrors,
+        options,
+      );
     }
     return { plan: null, errors: ['Missing JSON plan block in response'] };
   }
 
-  const plan = parsePlanJson(block);
-  if (!plan) {
-    return {
-      plan: null,
-      errors: ['Plan block exists but JSON failed to parse or schema validation failed'],
-      rawJson: block,
-    };
+  const result = parsePlanJsonDetailed(block, options);
+  if (!result.plan) {
+    return withActionErrors(
+      {
+        plan: null,
+        errors: ['Plan block exists but JSON failed to parse or schema validation failed'],
+        rawJson: block,
+      },
+      result.actionErrors,
+      options,
+    );
+  }
+
+  return withActionErrors(
+    { plan: result.plan, errors: [], rawJson: block },
+    result.actionErrors,
+    options,
+  );
+}
+
+function withActionErrors(
+  result: PlanParseResult,
+  actionErrors: PlanActionError[],
+  options: PlanParseOptions,
+): PlanParseResult {
+  if (!options.lenient || actionErrors.length === 0) return result;
+  return {
+    ...result,
+    errors: [
+      ...result.errors,
+      ...actionErrors.map((error) => `Rejected ${formatPlanActionError(error)}`),
+    ],
+    actionErrors: [...actionErrors].sort((a, b) => a.index - b.index),
+  };
+}
+
+export function formatPlanActionError(error: PlanActionError): string {
+  const type = error.type ? ` (${error.type})` : '';
+  const field = error.field ? `${error.field}: ` : '';
+  return `action ${error.index + 1}${type}: ${field}${error.reason}`;
+}
+
+/**
+ * Parse a repair reply that carries only corrected versions of rejected
+ * actions. Entries are validated one by one and keep their position (null
+ * when invalid); the dependency graph is checked once they are merged back
+ * into the plan.
+ */
+export function parseRepairedActions(text: string): Array<Action | null> {
+  const block = extractPlanBlock(text) ?? text.trim().replace(/^json\s*/i, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(block);
+  } catch {
+    return [];
   }
+  if (!isObject(parsed) || !Array.isArray(parsed.actions)) return [];
+  return parsed.actions.map((raw) => {
+    const checked = checkAction(raw);
+    return 'value' in checked ? checked.value : null;
+  });
+}
 
-  return { plan, errors: [], rawJson: block };
+/**
+ * Put repaired actions back in the slots of the rejected ones so the plan
+ * keeps its original order. Each rejected slot takes the fix at the same
+ * position in the reply; extra entries are dropped so a repair cannot add
+ * actions. Returns the original plan if the merged plan has an invalid
+ * dependency graph.
+ */
+export function mergeRepairedActions(
+  plan: Plan,
+  actionErrors: PlanActionError[],
+  repaired: Array<Action | null>,
+): Plan {
+  const rejected = [...new Set(actionErrors.map((error) => error.index))].sort(
+    (a, b) => a - b,
+  );
+  const fixes = new Map<number, Action>();
+  rejected.forEach((index, position) => {
+    const fix = repaired[position];
+    if (fix) fixes.set(index, fix);
+  });
+
+  const total = plan.actions.length + rejected.length;
+  const kept = [...plan.actions];
+  const merged: Action[] = [];
+  for (let index = 0; index < total; index += 1) {
+    const next = rejected.includes(index) ? fixes.get(index) : kept.shift();
+    if (next) merged.push(next);
+  }
+
+  if (plan.version === 2 && validatePlanGraph(merged)) return plan;
+  return {
+    ...plan,
+    actions: plan.version === 2 ? merged : merged.map(stripPlanStep),
+  };
+}
+
+function describeTargets(targets: SshTarget[]): string {
+  if (targets.length === 0) return 'none configured';
+  return targets
+    .map((target) =>
+      target.tags.length > 0
+        ? `${target.name} [${target.tags.join(', ')}]`
+        : target.name,
+    )
+    .join(' | ');
 }
 
-export const PLAN_SCHEMA_DESCRIPTION = `The plan block must be a fenced JSON object like:
-{\n  "actions": [ ... ]\n}
-Each action must correspond to one of: reply, question, ssh, obsidian_write, web_fetch.
-SSH actions require target (william|willy-ubuntu), command, reason, and requiresApproval (true/false).
-Obsidian writes require path, patch, reason, requiresApproval.
-Web fetch actions require url, reason, requiresApproval, and optional mode ("http"|"browser") plus optional extract instructions.
-Questions must include question text. Reply actions have no extra fields.`;
+function describeReadableTargets(targets: SshTarget[]): string {
+  const readable = targets.filter((target) => target.readablePaths.length > 0);
+  if (readable.length === 0) return 'none configured';
+  return readable
+    .map((target) => `${target.name}: ${target.readablePaths.join(', ')}`)
+    .join(' | ');
+}
+
+function describeList(values: string[]): string {
+  return values.length > 0 ? values.join(' | ') : 'none configured';
+}
+
+export function buildPlanSchemaDescription(
+  targets: SshTarget[] = getSshTargets(),
+  groupFolders: string[] = [],
+): string {
+  return describePlanSchema({
+    'ssh.target': describeTargets(targets),
+    'file_read.target': describeReadableTargets(targets),
+    'notify.to': describeList(groupFolders),
+    'notify.channel': describeList(getNotifyChannelNames()),
+  });
+}
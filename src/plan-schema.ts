@@ -0,0 +1,432 @@
+/**
+ * Plan Contract Schema for NanoClaw
+ *
+ * Single source of truth for the actions an agent may put in its plan block.
+ * The core validators in plan-contract.ts parse against these schemas, the
+ * prompt text is generated from their descriptions, and the JSON Schema
+ * export (npm run schema:plan) is copied into the agent-runner and the infra
+ * shared package, whose build contexts cannot import from src/.
+ */
+import { z } from 'zod';
+
+export const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+/** Longest onlyIf.outputMatches regex accepted from a plan. */
+export const ONLY_IF_PATTERN_MAX_LENGTH = 200;
+
+const NON_EMPTY = 'must be a non-empty string';
+
+function text(description: string) {
+  return z
+    .string({ error: NON_EMPTY })
+    .trim()
+    .min(1, NON_EMPTY)
+    .describe(description);
+}
+
+function requiresApproval(description: string) {
+  return z
+    .boolean({ error: 'must be true or false' })
+    .optional()
+    .describe(description);
+}
+
+const stepId = z
+  .string({ error: 'must be an action id' })
+  .regex(STEP_ID_PATTERN, 'must contain only letters, digits, _ or -');
+
+export const ActionConditionSchema = z
+  .object(
+    {
+      action: z
+        .string({ error: 'must be the id of an earlier action' })
+        .trim()
+        .regex(STEP_ID_PATTERN, 'must be the id of an earlier action')
+        .describe('id of the earlier action whose result is checked'),
+      exitCode: z
+        .int({ error: 'must be an integer' })
+        .optional()
+        .describe('run only if the action exited with this code'),
+      outputMatches: z
+        .string({ error: 'must be a regular expression' })
+        .max(
+          ONLY_IF_PATTERN_MAX_LENGTH,
+          `must be at most ${ONLY_IF_PATTERN_MAX_LENGTH} characters`,
+        )
+        .optional()
+        .describe('run only if the action output matches this regex'),
+    },
+    { error: 'must be an object' },
+  )
+  .superRefine((condition, ctx) => {
+    if (
+      condition.exitCode === undefined &&
+      condition.outputMatches === undefined
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'needs exitCode or outputMatches',
+      });
+    }
+    if (condition.outputMatches !== undefined) {
+      try {
+        new RegExp(condition.outputMatches);
+      } catch {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['outputMatches'],
+          message: 'is not a valid regular expression',
+        });
+      }
+    }
+  });
+
+/** Ordering fields; only honoured when the plan has version 2. */
+export const PLAN_STEP_SHAPE = {
+  id: stepId.optional().describe('unique id other actions can refer to'),
+  dependsOn: z
+    .array(stepId, { error: 'must be an array of action ids' })
+    .optional()
+    .describe('ids of actions that must finish first'),
+  onlyIf: ActionConditionSchema.optional().describe(
+    'run only when an earlier result matches; implies a dependency',
+  ),
+};
+
+export const ReplyActionSchema = z
+  .object({ type: z.literal('reply'), ...PLAN_STEP_SHAPE })
+  .describe('Answer in the reply text only');
+
+export const QuestionActionSchema = z
+  .object({
+    type: z.literal('question'),
+    question: text('question to ask the user'),
+    ...PLAN_STEP_SHAPE,
+  })
+  .describe('Ask the user for missing information');
+
+export const SshActionSchema = z
+  .object({
+    type: z.literal('ssh'),
+    target: text('name of a target in the SSH target registry'),
+    command: text('shell command to run on the target'),
+    reason: text('why the command is needed'),
+    requiresApproval: requiresApproval('ask before running (default true)'),
+    ...PLAN_STEP_SHAPE,
+  })
+  .describe('Run a command on a registered host over SSH');
+
+/** Vault-relative note path: no leading slash, empty, hidden or ".." segments. */
+export const NOTE_PATH_PATTERN =
+  /^(?:[^/\\.\u0000\r\n][^/\\\u0000\r\n]*)(?:\/[^/\\.\u0000\r\n][^/\\\u0000\r\n]*)*$/;
+
+export const ObsidianWriteActionSchema = z
+  .object({
+    type: z.literal('obsidian_write'),
+    path: text(
+      'note path relative to the vault root, e.g. "Projects/Homelab.md"',
+    ).regex(NOTE_PATH_PATTERN, 'must be a relative path inside the vault'),
+    mode: z
+      .enum(['append', 'prepend', 'replace_section', 'diff'], {
+        error: 'must be append, prepend, replace_section or diff',
+      })
+      .optional()
+      .describe(
+        'append (default), prepend (after frontmatter), replace_section (body under heading) or diff (unified diff)',
+      ),
+    heading: z
+      .string({ error: 'must be a string' })
+      .trim()
+      .min(1, NON_EMPTY)
+      .optional()
+      .describe(
+        'heading whose section is replaced, e.g. "## Tasks" (replace_section only)',
+      ),
+    patch: text('text to add, new section body, or unified diff for mode diff'),
+    reason: text('why the note should change'),
+    requiresApproval: requiresApproval('ask before writing (default true)'),
+    ...PLAN_STEP_SHAPE,
+  })
+  .superRefine((action, ctx) => {
+    if (action.mode === 'replace_section' && action.heading === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['heading'],
+        message: 'is required for replace_section',
+      });
+    }
+  })
+  .describe('Change a note in the Obsidian vault');
+
+export const WebFetchActionSchema = z
+  .object({
+    type: z.literal('web_fetch'),
+    url: z
+      .url({
+        protocol: /^https?$/,
+        error: 'must be an absolute http or https URL',
+      })
+      .trim()
+      .describe('absolute http(s) URL to fetch'),
+    mode: z
+      .enum(['http', 'browser'], { error: 'must be "http" or "browser"' })
+      .optional()
+      .describe('"http" (default) or "browser" for pages that need JavaScript'),
+    extract: z
+      .string({ error: 'must be a string' })
+      .trim()
+      .optional()
+      .describe('what to pull out of the page'),
+    reason: text('why the page is needed'),
+    requiresApproval: requiresApproval(
+      'ask before fetching (default true in browser mode, false otherwise)',
+    ),
+    ...PLAN_STEP_SHAPE,
+  })
+  .describe('Fetch a web page');
+
+/** Absolute path made of non-empty segments, none of them "." or "..". */
+export const ABSOLUTE_FILE_PATH_PATTERN =
+  /^(?:\/(?!\.\.?(?:\/|$))[^/\u0000\r\n]+)+$/;
+
+export const FileReadActionSchema = z
+  .object({
+    type: z.literal('file_read'),
+    target: text('name of a target in the SSH target registry'),
+    path: z
+      .string({ error: 'must be an absolute path' })
+      .trim()
+      .regex(
+        ABSOLUTE_FILE_PATH_PATTERN,
+        'must be an absolute path without . or .. segments',
+      )
+      .describe('absolute path of the file, within the target readablePaths'),
+    offset: z
+      .int({ error: 'must be an integer' })
+      .min(0, 'must not be negative')
+      .optional()
+      .describe('byte offset to start reading at'),
+    length: z
+      .int({ error: 'must be an integer' })
+      .min(1, 'must be at least 1')
+      .optional()
+      .describe('number of bytes to read'),
+    tailLines: z
+      .int({ error: 'must be an integer' })
+      .min(1, 'must be at least 1')
+      .optional()
+      .describe('read only the last N lines instead of a byte range'),
+    reason: text('why the file is needed'),
+    requiresApproval: requiresApproval('ask before reading (default true)'),
+    ...PLAN_STEP_SHAPE,
+  })
+  .superRefine((action, ctx) => {
+    if (
+      action.tailLines !== undefined &&
+      (action.offset !== undefined || action.length !== undefined)
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tailLines'],
+        message: 'cannot be combined with offset or length',
+      });
+    }
+  })
+  .describe('Read a file on a registered host (output is size-capped)');
+
+export const NotifyActionSchema = z
+  .object({
+    type: z.literal('notify'),
+    message: text('text to send'),
+    to: z
+      .string({ error: 'must be a string' })
+      .trim()
+      .min(1, NON_EMPTY)
+      .optional()
+      .describe('folder of the registered group to notify; omit for this chat'),
+    channel: z
+      .string({ error: 'must be a string' })
+      .trim()
+      .min(1, NON_EMPTY)
+      .optional()
+      .describe(
+        'channel to deliver on; omit for the channel of the recipient chat',
+      ),
+    reason: text('why the notification is needed'),
+    requiresApproval: requiresApproval('ask before sending (default true)'),
+    ...PLAN_STEP_SHAPE,
+  })
+  .describe('Send a message to this chat or another registered group');
+
+/** Every action type, in the order they are listed to the agent. */
+export const ACTION_SCHEMAS = [
+  ReplyActionSchema,
+  QuestionActionSchema,
+  SshActionSchema,
+  ObsidianWriteActionSchema,
+  WebFetchActionSchema,
+  FileReadActionSchema,
+  NotifyActionSchema,
+] as const;
+
+export const ActionSchema = z.discriminatedUnion('type', ACTION_SCHEMAS);
+
+export type ActionFields = z.output<typeof ActionSchema>;
+
+export const ACTION_TYPES: string[] = ACTION_SCHEMAS.map(
+  (schema) => schema.shape.type.value,
+);
+
+export const PlanSchema = z
+  .object({
+    version: z
+      .union([z.literal(1), z.literal(2)])
+      .optional()
+      .describe(
+        'omit (or 1) for flat plans; 2 enables id, dependsOn and onlyIf',
+      ),
+    actions: z.array(ActionSchema),
+  })
+  .describe('NanoClaw plan block');
+
+/**
+ * JSON Schema for the plan block, describing what the parser accepts
+ * (unknown properties are ignored rather than rejected).
+ */
+export function buildPlanJsonSchema(): Record<string, unknown> {
+  return {
+    ...z.toJSONSchema(PlanSchema, { io: 'input' }),
+    title: 'NanoClaw plan',
+  };
+}
+
+function describeField(name: string, schema: z.ZodType, hint?: string): string {
+  const label = hint ? `${name} (${hint})` : name;
+  const presence = schema.safeParse(undefined).success
+    ? 'optional'
+    : 'required';
+  return `  - ${label}, ${presence}: ${schema.description ?? ''}`.trimEnd();
+}
+
+/**
+ * Prompt text listing every action type and its fields. hints adds runtime
+ * detail to a field, keyed "<type>.<field>" (e.g. the configured SSH targets).
+ */
+export function describePlanSchema(hints: Record<string, string> = {}): string {
+  const stepFields = new Set(Object.keys(PLAN_STEP_SHAPE));
+  const actions = ACTION_SCHEMAS.map((schema) => {
+    const type = schema.shape.type.value;
+    const fields = Object.entries(schema.shape as Record<string, z.ZodType>)
+      .filter(([name]) => name !== 'type' && !stepFields.has(name))
+      .map(([name, field]) =>
+        describeField(name, field, hints[`${type}.${name}`]),
+      );
+    return [
+      `${type}: ${schema.description}${fields.length === 0 ? ' (no extra fields)' : ''}`,
+      ...fields,
+    ].join('\n');
+  });
+  const steps = Object.entries(PLAN_STEP_SHAPE).map(([name, field]) =>
+    describeField(name, field),
+  );
+
+  return `The plan block must be a fenced JSON object like:
+{\n  "actions": [ ... ]\n}
+Each action must correspond to one of: ${ACTION_TYPES.join(', ')}.
+${actions.join('\n')}
+To order steps, add "version": 2 to the plan and give actions these extra fields:
+${steps.join('\n')}
+onlyIf looks like {"action": "<id>", "exitCode": 0} or {"action": "<id>", "outputMatches": "<regex>"}.
+Example: check disk with id "disk", then propose cleanup with "onlyIf": {"action": "disk", "outputMatches": "(9[1-9]|100)%"}.`;
+}
+
+interface JsonSchemaNode {
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchemaNode;
+  properties?: Record<string, JsonSchemaNode>;
+  required?: string[];
+  anyOf?: JsonSchemaNode[];
+  oneOf?: JsonSchemaNode[];
+  description?: string;
+}
+
+function zodSource(node: JsonSchemaNode, indent: string): string {
+  const options = node.anyOf ?? node.oneOf;
+  let source: string;
+  if (options) {
+    source = `z.union([${options.map((option) => zodSource(option, indent)).join(', ')}])`;
+  } else if (node.const !== undefined) {
+    source = `z.literal(${JSON.stringify(node.const)})`;
+  } else if (node.enum) {
+    source = `z.enum(${JSON.stringify(node.enum)})`;
+  } else if (node.type === 'string') {
+    source = 'z.string()';
+    if (node.minLength !== undefined) source += `.min(${node.minLength})`;
+    if (node.pattern !== undefined) {
+      source += `.regex(new RegExp(${JSON.stringify(node.pattern)}))`;
+    }
+    if (node.format === 'uri') source += '.url()';
+  } else if (node.type === 'integer' || node.type === 'number') {
+    source = node.type === 'integer' ? 'z.number().int()' : 'z.number()';
+    if (node.minimum !== undefined) source += `.min(${node.minimum})`;
+    if (node.maximum !== undefined) source += `.max(${node.maximum})`;
+  } else if (node.type === 'boolean') {
+    source = 'z.boolean()';
+  } else if (node.type === 'array' && node.items) {
+    source = `z.array(${zodSource(node.items, indent)})`;
+  } else if (node.type === 'object' && node.properties) {
+    const required = new Set(node.required ?? []);
+    const inner = `${indent}  `;
+    const fields = Object.entries(node.properties).map(([name, field]) => {
+      const optional = required.has(name) ? '' : '.optional()';
+      return `${inner}${name}: ${zodSource(field, inner)}${optional},\n`;
+    });
+    source = `z.object({\n${fields.join('')}${indent}})`;
+  } else {
+    throw new Error(
+      `Cannot express JSON Schema node as zod: ${JSON.stringify(node)}`,
+    );
+  }
+  return node.description === undefined
+    ? source
+    : `${source}.describe(${JSON.stringify(node.description)})`;
+}
+
+/**
+ * TypeScript source declaring the plan action schemas with the zod API
+ * shared by zod 3 and 4, generated from the JSON Schema so the infra shared
+ * package cannot drift from it. Object-level refinements (e.g. file_read's
+ * tailLines exclusivity) have no JSON Schema form and are not carried over.
+ */
+export function buildPlanZodSource(): string {
+  const schema = buildPlanJsonSchema() as {
+    properties: {
+      version: JsonSchemaNode;
+      actions: { items: { oneOf: JsonSchemaNode[] } };
+    };
+  };
+  const actions = schema.properties.actions.items.oneOf;
+  const types = actions.map((action) => action.properties?.type?.const);
+  const entries = actions.map(
+    (action, i) => `  ${types[i]}: ${zodSource(action, '  ')},\n`,
+  );
+  return `// Generated from NanoClaw's src/plan-schema.ts by \`npm run schema:plan\`;
+// do not edit.
+import { z } from 'zod';
+
+export const PlanActionSchemas = {
+${entries.join('')}};
+
+export const NanoClawPlanSchema = z.object({
+  version: ${zodSource(schema.properties.version, '  ')}.optional(),
+  actions: z.array(z.discriminatedUnion('type', [
+${types.map((type) => `    PlanActionSchemas.${type},\n`).join('')}  ])),
+});
+`;
+}
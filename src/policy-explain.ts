@@ -0,0 +1,95 @@
+/**
+ * Policy Explanations for NanoClaw
+ *
+ * Shows how an SSH command would be treated if an agent proposed it: each
+ * readonly allowlist rule that was tried, the rule that matched, the risk
+ * level and how many approvals it needs. Used by `/policy explain` and by
+ * `gorky policy explain`, which also runs the gateway's PolicyEngine.
+ */
+import {
+  type ActionRisk,
+  classifyActionRisk,
+  requiredApprovalsFor,
+} from './action-queue.js';
+import {
+  checkReadonlyCommand,
+  type ReadonlyCommandCheck,
+} from './approved-executor.js';
+import type { Action } from './plan-contract.js';
+import { getSshTarget } from './ssh-targets.js';
+import type { ApprovalConfig } from './types.js';
+
+export interface PolicyExplanation {
+  target: string;
+  command: string;
+  readonly: ReadonlyCommandCheck;
+  risk: ActionRisk;
+  requiredApprovals: number;
+  /** Why the executor would refuse the command even once approved. */
+  blockedReason?: string;
+}
+
+export function explainSshCommand(
+  target: string,
+  command: string,
+  approvalConfig?: ApprovalConfig,
+): PolicyExplanation {
+  const action: Action = {
+    type: 'ssh',
+    target,
+    command,
+    requiresApproval: true,
+    reason: 'Policy explanation',
+  };
+  const readonly = checkReadonlyCommand(command, target);
+  let blockedReason: string | undefined;
+  if (!getSshTarget(target)) {
+    blockedReason = `Target ${target} is not in the SSH target registry.`;
+  } else if (!readonly.allowed) {
+    blockedReason = 'Command blocked by readonly allowlist policy.';
+  }
+  return {
+    target,
+    command,
+    readonly,
+    risk: classifyActionRisk(action),
+    requiredApprovals: requiredApprovalsFor(action, approvalConfig),
+    ...(blockedReason ? { blockedReason } : {}),
+  };
+}
+
+export function formatPolicyExplanation(
+  explanation: PolicyExplanation,
+): string {
+  const { readonly } = explanation;
+  const lines = [
+    `Core policy for "${explanation.command}" on ${explanation.target}`,
+  ];
+
+  if (readonly.parseError) {
+    lines.push(`Refused by the shell parser: ${readonly.parseError}`);
+  } else {
+    lines.push('Rules evaluated:');
+    for (const entry of readonly.evaluated) {
+      lines.push(
+        entry.matched
+          ? `- ${entry.rule}: match`
+          : `- ${entry.rule}: no match (${entry.detail})`,
+      );
+    }
+  }
+
+  lines.push(
+    `Matched rule: ${readonly.matchedRule ?? 'none'}`,
+    `Risk: ${explanation.risk}${
+      explanation.risk === 'high'
+        ? " (allowed by the target's own allowlist)"
+        : ''
+    }`,
+    `Approval: required, ${explanation.requiredApprovals} distinct approval(s)`,
+    explanation.blockedReason
+      ? `Outcome: blocked. ${explanation.blockedReason}`
+      : 'Outcome: runs once approved',
+  );
+  return lines.join('\n');
+}
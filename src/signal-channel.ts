@@ -0,0 +1,115 @@
+/**
+ * Signal channel for NanoClaw
+ * Adapts SignalClient to the ChannelAdapter interface. Chat ids are
+ * `signal:<number>` for direct chats and `signal:group.<id>` for groups.
+ * Signal has no inline buttons, so approval requests ask for APPROVE and DENY
+ * replies, which are passed on to the router as /approve and /deny commands.
+ */
+import {
+  type ApprovalPrompt,
+  approvalKeywordCommand,
+  approvalKeywordHint,
+  type ChannelAdapter,
+  type ChannelEvents,
+  type InboundMessage,
+} from './channel.js';
+import { logger } from './logger.js';
+import {
+  SignalClient,
+  type SignalConfig,
+  type SignalMessage,
+} from './signal-client.js';
+
+const CHAT_PREFIX = 'signal:';
+
+export interface SignalChannelConfig extends SignalConfig {
+  pollIntervalMs: number;
+}
+
+export class SignalChannel implements ChannelAdapter {
+  readonly name = 'signal';
+  private client: SignalClient;
+  private pollTimer?: NodeJS.Timeout;
+  private stopped = true;
+
+  constructor(private config: SignalChannelConfig) {
+    this.client = new SignalClient(config);
+  }
+
+  ownsChat(chatJid: string): boolean {
+    return chatJid.startsWith(CHAT_PREFIX);
+  }
+
+  async start(events: ChannelEvents): Promise<void> {
+    this.stopped = false;
+    void this.poll(events);
+    logger.info({ number: this.config.number }, 'Signal channel polling');
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.pollTimer);
+  }
+
+  async sendMessage(chatJid: string, text: string): Promise<void> {
+    await this.client.sendMessage(this.recipient(chatJid), text);
+  }
+
+  async setTyping(chatJid: string, isTyping: boolean): Promise<void> {
+    await this.client.setTyping(this.recipient(chatJid), isTyping);
+  }
+
+  async sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined> {
+    await this.sendMessage(
+      chatJid,
+      `${prompt.text}\n\n${approvalKeywordHint(prompt)}`,
+    );
+    return undefined;
+  }
+
+  async fetchGroupNames(): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    for (const [id, name] of Object.entries(await this.client.listGroups())) {
+      names[`${CHAT_PREFIX}${id}`] = name;
+    }
+    return names;
+  }
+
+  private recipient(chatJid: string): string {
+    if (!this.ownsChat(chatJid)) {
+      throw new Error(`Chat ${chatJid} is not a Signal chat`);
+    }
+    return chatJid.slice(CHAT_PREFIX.length);
+  }
+
+  private async poll(events: ChannelEvents): Promise<void> {
+    try {
+      for (const message of await this.client.receive()) {
+        await events.onMessage(this.toInbound(message));
+      }
+    } catch (err) {
+      logger.error({ err }, 'Signal receive failed');
+    }
+    if (!this.stopped) {
+      this.pollTimer = setTimeout(
+        () => void this.poll(events),
+        this.config.pollIntervalMs,
+      );
+    }
+  }
+
+  private toInbound(message: SignalMessage): InboundMessage {
+    return {
+      chatJid: `${CHAT_PREFIX}${message.recipient}`,
+      text: approvalKeywordCommand(message.text) ?? message.text,
+      id: `signal-${message.sender}-${message.timestamp.getTime()}`,
+      sender: message.senderName,
+      senderId: message.sender,
+      timestamp: message.timestamp,
+      fromMe: message.fromMe,
+    };
+  }
+}
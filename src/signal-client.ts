@@ -0,0 +1,171 @@
+/**
+ * Signal integration for NanoClaw
+ * Talks to signal-cli-rest-api (https://github.com/bbernhard/signal-cli-rest-api)
+ * for the registered account. Receiving polls GET /v1/receive, so the API
+ * must run in `normal` or `native` mode, not `json-rpc`.
+ */
+import { logger } from './logger.js';
+
+export interface SignalConfig {
+  /** Base URL of signal-cli-rest-api, e.g. http://localhost:8080 */
+  apiUrl: string;
+  /** The account's phone number, e.g. +4915112345678 */
+  number: string;
+}
+
+/** One received text message, flattened from a signal-cli envelope. */
+export interface SignalMessage {
+  /** `group.<id>` for group chats, otherwise the other party's number. */
+  recipient: string;
+  text: string;
+  sender: string;
+  senderName: string;
+  timestamp: Date;
+  /** Sent from another device of the same account (e.g. Note to Self). */
+  fromMe: boolean;
+}
+
+interface SignalDataMessage {
+  message?: string | null;
+  timestamp?: number;
+  groupInfo?: { groupId?: string };
+}
+
+export interface SignalEnvelope {
+  envelope?: {
+    source?: string;
+    sourceNumber?: string;
+    sourceUuid?: string;
+    sourceName?: string;
+    timestamp?: number;
+    dataMessage?: SignalDataMessage;
+    syncMessage?: {
+      sentMessage?: SignalDataMessage & {
+        destination?: string;
+        destinationNumber?: string;
+      };
+    };
+  };
+}
+
+/**
+ * The REST API addresses groups as `group.` + base64 of the internal group
+ * id that arrives in received messages.
+ */
+export function signalGroupRecipient(internalId: string): string {
+  return `group.${Buffer.from(internalId).toString('base64')}`;
+}
+
+/** Flatten an envelope into a text message, or null for receipts etc. */
+export function parseSignalEnvelope(
+  raw: SignalEnvelope,
+  ownNumber: string,
+): SignalMessage | null {
+  const envelope = raw.envelope;
+  if (!envelope) return null;
+  const sender =
+    envelope.sourceNumber || envelope.source || envelope.sourceUuid;
+  if (!sender) return null;
+
+  const sent = envelope.syncMessage?.sentMessage;
+  const data = envelope.dataMessage ?? sent;
+  if (!data?.message) return null;
+
+  const groupId = data.groupInfo?.groupId;
+  let recipient: string | undefined;
+  if (groupId) {
+    recipient = signalGroupRecipient(groupId);
+  } else if (envelope.dataMessage) {
+    recipient = sender;
+  } else {
+    recipient = sent?.destinationNumber || sent?.destination || ownNumber;
+  }
+
+  return {
+    recipient,
+    text: data.message,
+    sender,
+    senderName: envelope.sourceName || sender,
+    timestamp: new Date(data.timestamp ?? envelope.timestamp ?? Date.now()),
+    fromMe: !envelope.dataMessage,
+  };
+}
+
+export class SignalClient {
+  constructor(private config: SignalConfig) {}
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const response = await fetch(
+      `${this.config.apiUrl.replace(/\/+$/, '')}${path}`,
+      {
+        method,
+        headers:
+          body === undefined
+            ? undefined
+            : { 'content-type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+    );
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `Signal API ${method} ${path} failed (HTTP ${response.status}): ${text || '(empty body)'}`,
+      );
+    }
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  private get number(): string {
+    return encodeURIComponent(this.config.number);
+  }
+
+  /** Send text to a number or a `group.<id>` recipient. */
+  async sendMessage(recipient: string, text: string): Promise<void> {
+    await this.request('POST', '/v2/send', {
+      number: this.config.number,
+      recipients: [recipient],
+      message: text,
+    });
+    logger.info({ recipient, length: text.length }, 'Sent Signal message');
+  }
+
+  /** Fetch and acknowledge every message waiting for the account. */
+  async receive(): Promise<SignalMessage[]> {
+    const envelopes =
+      (await this.request<SignalEnvelope[]>(
+        'GET',
+        `/v1/receive/${this.number}`,
+      )) ?? [];
+    return envelopes
+      .map((envelope) => parseSignalEnvelope(envelope, this.config.number))
+      .filter((message): message is SignalMessage => message !== null);
+  }
+
+  async setTyping(recipient: string, isTyping: boolean): Promise<void> {
+    await this.request(
+      isTyping ? 'PUT' : 'DELETE',
+      `/v1/typing-indicator/${this.number}`,
+      {
+        recipient,
+      },
+    );
+  }
+
+  /** Group names keyed by `group.<id>` recipient. */
+  async listGroups(): Promise<Record<string, string>> {
+    const groups =
+      (await this.request<Array<{ id: string; name?: string }>>(
+        'GET',
+        `/v1/groups/${this.number}`,
+      )) ?? [];
+    const names: Record<string, string> = {};
+    for (const group of groups) {
+      if (group.id && group.name) names[group.id] = group.name;
+    }
+    return names;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Minimal SMTP client for the email channel
+ * One connection per message: EHLO, STARTTLS when offered on a plain
+ * connection, AUTH PLAIN when credentials are set, then MAIL/RCPT/DATA.
+ * Credentials are only ever sent over TLS.
+ */
+import os from 'os';
+
+import { assertAddressLine } from './email-message.js';
+import { type MailServerConfig, MailSocket } from './mail-socket.js';
+
+export type SmtpConfig = MailServerConfig;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+async function readReply(socket: MailSocket): Promise<SmtpReply> {
+  const lines: string[] = [];
+  for (;;) {
+    const line = await socket.readLine();
+    lines.push(line.slice(4));
+    // `250-...` continues a multi-line reply, `250 ...` ends it
+    if (line[3] !== '-') return { code: Number(line.slice(0, 3)), lines };
+  }
+}
+
+async function expect(
+  socket: MailSocket,
+  step: string,
+  codes: number[],
+): Promise<SmtpReply> {
+  const reply = await readReply(socket);
+  if (!codes.includes(reply.code)) {
+    throw new Error(
+      `SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`,
+    );
+  }
+  return reply;
+}
+
+/** Escape lines starting with a dot (RFC 5321 section 4.5.2). */
+function dotStuff(message: string): string {
+  return message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+}
+
+export class SmtpClient {
+  constructor(private config: SmtpConfig) {}
+
+  async send(from: string, to: string[], message: string): Promise<void> {
+    // An address with a line break would smuggle extra SMTP commands
+    for (const address of [from, ...to]) assertAddressLine(address);
+    const { host, port, secure, user, password, ca } = this.config;
+    const socket = await MailSocket.connect(host, port, secure, ca);
+    try {
+      await expect(socket, 'greeting', [220]);
+      const hello = `EHLO ${os.hostname() || 'localhost'}\r\n`;
+      socket.write(hello);
+      let ehlo = await expect(socket, 'EHLO', [250]);
+
+      const offers = (keyword: string) =>
+        ehlo.lines.some((line) => line.toUpperCase().startsWith(keyword));
+      if (!secure && offers('STARTTLS')) {
+        socket.write('STARTTLS\r\n');
+        await expect(socket, 'STARTTLS', [220]);
+        await socket.upgradeToTls();
+        socket.write(hello);
+        ehlo = await expect(socket, 'EHLO', [250]);
+      }
+
+      if (user) {
+        if (!socket.encrypted) {
+          throw new Error(
+            `SMTP server ${host} offers no TLS; refusing to send credentials in plain text`,
+          );
+        }
+        const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+          'base64',
+        );
+        socket.write(`AUTH PLAIN ${credentials}\r\n`);
+        await expect(socket, 'AUTH', [235]);
+      }
+
+      socket.write(`MAIL FROM:<${from}>\r\n`);
+      await expect(socket, 'MAIL FROM', [250]);
+      for (const recipient of to) {
+        socket.write(`RCPT TO:<${recipient}>\r\n`);
+        await expect(socket, `RCPT TO ${recipient}`, [250, 251]);
+      }
+      socket.write('DATA\r\n');
+      await expect(socket, 'DATA', [354]);
+      socket.write(`${dotStuff(message)}\r\n.\r\n`);
+      await expect(socket, 'message', [250]);
+
+      socket.write('QUIT\r\n');
+      await readReply(socket).catch(() => undefined);
+    } finally {
+      socket.close();
+    }
+  }
+}
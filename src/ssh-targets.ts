@@ -0,0 +1,174 @@
+/**
+ * SSH Target Registry for NanoClaw
+ *
+ * Hosts that ssh actions may run against, stored OUTSIDE the project root so
+ * container agents cannot add targets. The same file is mounted into the
+ * infra gateway and ops-runner so every component agrees on the target list.
+ *
+ * Registry location: ~/.config/nanoclaw/ssh-targets.json (SSH_TARGETS_PATH)
+ */
+import fs from 'fs';
+
+import {
+  EXEC_SSH_KEY_PATH,
+  EXEC_SSH_USER,
+  EXEC_TARGET_UBUNTU_HOST,
+  EXEC_TARGET_WILLIAM_HOST,
+  SSH_TARGETS_PATH,
+} from './config.js';
+import { logger } from './logger.js';
+
+export interface SshTarget {
+  name: string;
+  host: string;
+  user?: string;
+  keyPath?: string;
+  tags: string[];
+  /**
+   * Extra readonly command patterns (regex source) allowed on this target,
+   * matched against the whole normalized command.
+   */
+  allowlist: string[];
+  /** Absolute files or directories file_read actions may read. */
+  readablePaths: string[];
+}
+
+const TARGET_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+// Cache the registry in memory - only reloads on process restart
+let cachedTargets: SshTarget[] | null = null;
+
+/**
+ * Targets used when no registry file exists, matching the hosts that were
+ * hardcoded before the registry was introduced.
+ */
+function legacyTargets(): SshTarget[] {
+  return [
+    { name: 'william', host: EXEC_TARGET_WILLIAM_HOST },
+    { name: 'willy-ubuntu', host: EXEC_TARGET_UBUNTU_HOST },
+  ].map((target) => ({
+    ...target,
+    user: EXEC_SSH_USER || undefined,
+    keyPath: EXEC_SSH_KEY_PATH || undefined,
+    tags: [],
+    allowlist: [],
+    readablePaths: [],
+  }));
+}
+
+function stringList(value: unknown, field: string, name: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`Target "${name}": ${field} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Validate the parsed registry file. Throws with a message naming the first
+ * problem so a broken file is rejected as a whole.
+ */
+export function parseSshTargets(raw: unknown): SshTarget[] {
+  const entries = (raw as { targets?: unknown } | null)?.targets;
+  if (!Array.isArray(entries)) {
+    throw new Error('targets must be an array');
+  }
+
+  const seen = new Set<string>();
+  return entries.map((entry: Record<string, unknown>) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!TARGET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid target name: ${JSON.stringify(entry?.name)}`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Duplicate target name: ${name}`);
+    }
+    seen.add(name);
+
+    const host = typeof entry.host === 'string' ? entry.host.trim() : '';
+    if (!host) {
+      throw new Error(`Target "${name}": host is required`);
+    }
+
+    const allowlist = stringList(entry.allowlist, 'allowlist', name);
+    for (const pattern of allowlist) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(
+          `Target "${name}": invalid allowlist pattern ${pattern}`,
+        );
+      }
+    }
+
+    const readablePaths = stringList(
+      entry.readablePaths,
+      'readablePaths',
+      name,
+    );
+    for (const readablePath of readablePaths) {
+      if (!readablePath.startsWith('/')) {
+        throw new Error(
+          `Target "${name}": readable path ${readablePath} must be absolute`,
+        );
+      }
+    }
+
+    return {
+      name,
+      host,
+      user: typeof entry.user === 'string' ? entry.user : undefined,
+      keyPath: typeof entry.keyPath === 'string' ? entry.keyPath : undefined,
+      tags: stringList(entry.tags, 'tags', name),
+      allowlist,
+      readablePaths,
+    };
+  });
+}
+
+/**
+ * Load the registry from SSH_TARGETS_PATH. Falls back to the legacy
+ * william/willy-ubuntu targets when the file is missing. An invalid file
+ * throws, so NanoClaw refuses to start just like the gateway and ops-runner.
+ */
+export function loadSshTargets(filePath = SSH_TARGETS_PATH): SshTarget[] {
+  if (!fs.existsSync(filePath)) {
+    logger.info(
+      { path: filePath },
+      'SSH target registry not found - using legacy william/willy-ubuntu targets',
+    );
+    return legacyTargets();
+  }
+
+  let targets: SshTarget[];
+  try {
+    targets = parseSshTargets(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  } catch (err) {
+    throw new Error(
+      `Invalid SSH target registry ${filePath}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  }
+  logger.info(
+    { path: filePath, targets: targets.map((target) => target.name) },
+    'SSH target registry loaded',
+  );
+  return targets;
+}
+
+export function getSshTargets(): SshTarget[] {
+  if (cachedTargets === null) {
+    cachedTargets = loadSshTargets();
+  }
+  return cachedTargets;
+}
+
+export function getSshTarget(name: string): SshTarget | undefined {
+  return getSshTargets().find((target) => target.name === name);
+}
+
+/** @internal - for tests only. Pass null to reload from disk on next use. */
+export function _setSshTargets(targets: SshTarget[] | null): void {
+  cachedTargets = targets;
+}
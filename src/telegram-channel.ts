@@ -0,0 +1,84 @@
+/**
+ * Telegram channel for NanoClaw
+ * Adapts TelegramClient to the ChannelAdapter interface. Telegram chat ids
+ * are plain integers (negative for groups).
+ */
+import type {
+  ApprovalPrompt,
+  ChannelAdapter,
+  ChannelEvents,
+} from './channel.js';
+import { TelegramClient, type TelegramConfig } from './telegram-client.js';
+
+export class TelegramChannel implements ChannelAdapter {
+  readonly name = 'telegram';
+  private client?: TelegramClient;
+
+  constructor(private config: TelegramConfig) {}
+
+  ownsChat(chatJid: string): boolean {
+    return /^-?\d+$/.test(chatJid);
+  }
+
+  async start(events: ChannelEvents): Promise<void> {
+    // Polling starts as soon as the client is constructed
+    this.client = new TelegramClient(this.config);
+    this.client.onMessage(
+      (chatJid, text, from, timestamp, userId, messageId) => {
+        void events.onMessage({
+          chatJid,
+          text,
+          id: `telegram-${chatJid}-${messageId}`,
+          sender: from,
+          senderId: userId,
+          timestamp,
+        });
+      },
+    );
+    this.client.onCallbackQuery((chatJid, data, _from, _timestamp, userId) => {
+      void events.onAction({ chatJid, data, senderId: userId });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.client?.stop();
+  }
+
+  async sendMessage(chatJid: string, text: string): Promise<void> {
+    await this.requireClient().sendMessage(chatJid, text);
+  }
+
+  async setTyping(chatJid: string, isTyping: boolean): Promise<void> {
+    await this.requireClient().setTyping(chatJid, isTyping);
+  }
+
+  async sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined> {
+    const messageId = await this.requireClient().sendApprovalButtons(
+      chatJid,
+      prompt.text,
+      prompt.proposalId,
+      prompt.actionCount,
+    );
+    return String(messageId);
+  }
+
+  async editMessage(
+    chatJid: string,
+    messageId: string,
+    text: string,
+  ): Promise<void> {
+    await this.requireClient().editMessageText(
+      chatJid,
+      Number(messageId),
+      text,
+    );
+  }
+
+  private requireClient(): TelegramClient {
+    if (!this.client) throw new Error('Telegram channel is not started');
+    return this.client;
+  }
+}
@@ -4,20 +4,36 @@
  */
 import TelegramBot from 'node-telegram-bot-api';
 import { logger } from './logger.js';
+import { transcribeVoiceNote, VoiceTranscriber } from './transcription.js';
 import { RegisteredGroup } from './types.js';
 
 export interface TelegramConfig {
   token: string;
   adminChatId: string;
+  /** Transcribes voice and audio messages; without it they are ignored. */
+  voice?: VoiceTranscriber;
+  /**
+   * The registered groups by chat id. Voice notes are only transcribed in
+   * these chats and the admin chat; without it, only in the admin chat.
+   */
+  registeredGroups?: () => Record<string, RegisteredGroup>;
 }
 
 export class TelegramClient {
   private bot: TelegramBot;
   private config: TelegramConfig;
-  private registeredGroups: Map<string, RegisteredGroup> = new Map();
-  private messageHandlers: Array<(chatId: string, text: string, from: string, timestamp: Date) => void> = [];
+  private messageHandlers: Array<
+    (
+      chatId: string,
+      text: string,
+      from: string,
+      timestamp: Date,
+      userId: string,
+      messageId: string
+    ) => void
+  > = [];
   private callbackHandlers: Array<
-    (chatId: string, data: string, from: string, timestamp: Date) => void
+    (chatId: string, data: string, from: string, timestamp: Date, userId: string) => void
   > = [];
   private isConnected = false;
 
@@ -31,26 +47,14 @@ export class TelegramClient {
   private setupHandlers(): void {
     // Handle text messages
     this.bot.on('message', (msg) => {
-      if (!msg.text) return;
-
-      const chatId = msg.chat.id.toString();
-      const text = msg.text;
-      const from = msg.from?.username || msg.from?.first_name || 'Unknown';
-      const timestamp = new Date(msg.date * 1000);
-
-      logger.info(
-        { chatId, from, text: text.slice(0, 50) },
-        'Received Telegram message'
-      );
-
-      // Notify all handlers
-      this.messageHandlers.forEach((handler) => {
-        try {
-          handler(chatId, text, from, timestamp);
-        } catch (err) {
-          logger.error({ err, chatId }, 'Error in message handler');
+      const audio = msg.voice || msg.audio;
+      if (!msg.text) {
+        if (audio && this.config.voice) {
+          void this.handleVoiceMessage(msg, audio, this.config.voice);
         }
-      });
+        return;
+      }
+      this.dispatchMessage(msg, msg.text);
     });
 
     this.bot.on('callback_query', async (query) => {
@@ -59,6 +63,7 @@ export class TelegramClient {
       if (!chatId || !data) return;
 
       const from = query.from?.username || query.from?.first_name || 'Unknown';
+      const userId = query.from.id.toString();
       const timestamp = new Date();
 
       try {
@@ -69,7 +74,7 @@ export class TelegramClient {
 
       this.callbackHandlers.forEach((handler) => {
         try {
-          handler(chatId, data, from, timestamp);
+          handler(chatId, data, from, timestamp, userId);
         } catch (err) {
           logger.error({ err, chatId, data }, 'Error in callback handler');
         }
@@ -90,12 +95,69 @@ export class TelegramClient {
     logger.info('Telegram bot connected and polling');
   }
 
-  onMessage(handler: (chatId: string, text: string, from: string, timestamp: Date) => void): void {
+  private dispatchMessage(msg: TelegramBot.Message, text: string): void {
+    const chatId = msg.chat.id.toString();
+    const from = msg.from?.username || msg.from?.first_name || 'Unknown';
+    const userId = msg.from?.id?.toString() || '';
+    const timestamp = new Date(msg.date * 1000);
+    // Unique within the chat, unlike the timestamp (one-second resolution)
+    const messageId = msg.message_id.toString();
+
+    logger.info(
+      { chatId, from, text: text.slice(0, 50) },
+      'Received Telegram message'
+    );
+
+    // Notify all handlers
+    this.messageHandlers.forEach((handler) => {
+      try {
+        handler(chatId, text, from, timestamp, userId, messageId);
+      } catch (err) {
+        logger.error({ err, chatId }, 'Error in message handler');
+      }
+    });
+  }
+
+  /** Transcribe a voice note or audio file and pass it on as text. */
+  private async handleVoiceMessage(
+    msg: TelegramBot.Message,
+    audio: TelegramBot.Voice | TelegramBot.Audio,
+    voice: VoiceTranscriber
+  ): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    // Anyone can message the bot; don't spend downloads and CPU on chats
+    // whose messages would not be stored anyway
+    if (!this.isMainChat(chatId) && !this.config.registeredGroups?.()[chatId]) {
+      logger.debug({ chatId }, 'Ignoring voice message from unregistered chat');
+      return;
+    }
+    await this.setTyping(chatId, true);
+    const text = await transcribeVoiceNote(
+      {
+        fileRef: `telegram:${audio.file_id}`,
+        durationSeconds: audio.duration,
+        download: (dir) => this.bot.downloadFile(audio.file_id, dir)
+      },
+      voice
+    );
+    this.dispatchMessage(msg, text);
+  }
+
+  onMessage(
+    handler: (
+      chatId: string,
+      text: string,
+      from: string,
+      timestamp: Date,
+      userId: string,
+      messageId: string
+    ) => void,
+  ): void {
     this.messageHandlers.push(handler);
   }
 
   onCallbackQuery(
-    handler: (chatId: string, data: string, from: string, timestamp: Date) => void,
+    handler: (chatId: string, data: string, from: string, timestamp: Date, userId: string) => void,
   ): void {
     this.callbackHandlers.push(handler);
   }
@@ -110,18 +172,64 @@ export class TelegramClient {
     }
   }
 
-  async sendApprovalButtons(chatId: string, text: string, proposalId: string): Promise<void> {
-    await this.bot.sendMessage(chatId, text, {
+  async sendApprovalButtons(
+    chatId: string,
+    text: string,
+    proposalId: string,
+    actionCount = 1,
+  ): Promise<number> {
+    // Multi-action proposals get one approve/deny row per action (1-based).
+    const perActionRows: TelegramBot.InlineKeyboardButton[][] = [];
+    if (actionCount > 1) {
+      for (let n = 1; n <= actionCount; n += 1) {
+        perActionRows.push([
+          { text: `Approve ${n}`, callback_data: `approve:${proposalId}:${n}` },
+          { text: `Deny ${n}`, callback_data: `deny:${proposalId}:${n}` },
+        ]);
+      }
+    }
+
+    const sent = await this.bot.sendMessage(chatId, text, {
       reply_markup: {
         inline_keyboard: [
+          ...perActionRows,
+          [
+            {
+              text: actionCount > 1 ? 'Approve all' : 'Approve',
+              callback_data: `approve:${proposalId}`,
+            },
+            {
+              text: actionCount > 1 ? 'Deny all' : 'Deny',
+              callback_data: `deny:${proposalId}`,
+            },
+          ],
           [
-            { text: 'Approve', callback_data: `approve:${proposalId}` },
-            { text: 'Deny', callback_data: `deny:${proposalId}` },
+            { text: 'Edit', callback_data: `edit:${proposalId}` },
+            { text: 'Simulate', callback_data: `simulate:${proposalId}` },
+            { text: 'Other reason', callback_data: `reason:${proposalId}` },
           ],
-          [{ text: 'Other reason', callback_data: `reason:${proposalId}` }],
         ],
       },
     });
+    return sent.message_id;
+  }
+
+  /** Replace the text of an earlier message and drop its inline buttons. */
+  async editMessageText(
+    chatId: string,
+    messageId: number,
+    text: string,
+  ): Promise<void> {
+    try {
+      await this.bot.editMessageText(text, {
+        chat_id: chatId,
+        message_id: messageId,
+        reply_markup: { inline_keyboard: [] },
+      });
+    } catch (err) {
+      logger.error({ err, chatId, messageId }, 'Failed to edit Telegram message');
+      throw err;
+    }
   }
 
   async setTyping(chatId: string, isTyping: boolean): Promise<void> {
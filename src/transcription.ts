@@ -0,0 +1,203 @@
+/**
+ * Voice note transcription for NanoClaw
+ * Turns voice and audio messages into text that is stored and processed like
+ * any other message. Providers are pluggable by STT_PROVIDER name; the built-in
+ * `whisper_local` provider runs the whisper.cpp CLI on the host, after ffmpeg
+ * converts the audio to the 16 kHz mono WAV that whisper.cpp expects.
+ * Downloaded audio is deleted as soon as it has been transcribed.
+ */
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+  ASSISTANT_NAME,
+  FFMPEG_BIN,
+  SPOKEN_TRIGGER_PATTERN,
+  STT_MAX_AUDIO_MINUTES,
+  WHISPER_CPP_BIN,
+  WHISPER_CPP_MODEL,
+} from './config.js';
+import { logger } from './logger.js';
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /** Transcribe an audio file; `language` is an ISO code or `auto`. */
+  transcribe(audioPath: string, language: string): Promise<string>;
+}
+
+export interface WhisperCppConfig {
+  /** whisper.cpp CLI binary (`whisper-cli`, `main` in older builds). */
+  binary: string;
+  /** ggml model file, e.g. models/ggml-base.en.bin */
+  model: string;
+  ffmpeg: string;
+  timeoutMs: number;
+}
+
+function run(file: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      file,
+      args,
+      { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        if (err) {
+          const detail = String(stderr).trim().split('\n').slice(-3).join(' ');
+          reject(
+            new Error(
+              `${path.basename(file)} failed: ${detail || err.message}`,
+            ),
+          );
+          return;
+        }
+        resolve(String(stdout));
+      },
+    );
+  });
+}
+
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly name = 'whisper_local';
+
+  constructor(private config: WhisperCppConfig) {}
+
+  async transcribe(audioPath: string, language: string): Promise<string> {
+    const wavPath = `${audioPath}.wav`;
+    try {
+      await run(
+        this.config.ffmpeg,
+        [
+          '-nostdin',
+          '-loglevel',
+          'error',
+          '-y',
+          '-i',
+          audioPath,
+          '-ar',
+          '16000',
+          '-ac',
+          '1',
+          '-c:a',
+          'pcm_s16le',
+          wavPath,
+        ],
+        this.config.timeoutMs,
+      );
+      // -nt: no timestamps, -np: only the transcript on stdout
+      const output = await run(
+        this.config.binary,
+        ['-m', this.config.model, '-f', wavPath, '-l', language, '-nt', '-np'],
+        this.config.timeoutMs,
+      );
+      // whisper.cpp marks silence as [BLANK_AUDIO]
+      return output
+        .replace(/\[BLANK_AUDIO\]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    } finally {
+      fs.rmSync(wavPath, { force: true });
+    }
+  }
+}
+
+type ProviderFactory = () => TranscriptionProvider;
+
+const providers = new Map<string, ProviderFactory>();
+
+/** Make a provider available under an STT_PROVIDER name. */
+export function registerTranscriptionProvider(
+  name: string,
+  factory: ProviderFactory,
+): void {
+  providers.set(name, factory);
+}
+
+registerTranscriptionProvider('whisper_local', () => {
+  if (!WHISPER_CPP_MODEL) {
+    throw new Error(
+      'WHISPER_CPP_MODEL must be set for STT_PROVIDER=whisper_local',
+    );
+  }
+  return new WhisperCppProvider({
+    binary: WHISPER_CPP_BIN,
+    model: WHISPER_CPP_MODEL,
+    ffmpeg: FFMPEG_BIN,
+    // Generous: even slow CPUs transcribe faster than real time
+    timeoutMs: Math.max(60_000, STT_MAX_AUDIO_MINUTES * 60_000),
+  });
+});
+
+export function createTranscriptionProvider(
+  name: string,
+): TranscriptionProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    const known = [...providers.keys()].join(', ') || 'none';
+    throw new Error(`Unknown STT_PROVIDER "${name}" (available: ${known})`);
+  }
+  return factory();
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * A spoken trigger ("Gorky, ...") has no @, so give it one; voice notes in
+ * groups that require the trigger can then address the assistant.
+ */
+function addSpokenTrigger(transcript: string): string {
+  return transcript.replace(SPOKEN_TRIGGER_PATTERN, `@${ASSISTANT_NAME} `);
+}
+
+export interface VoiceNote {
+  /** Where the audio came from, e.g. `telegram:<file_id>`. */
+  fileRef: string;
+  durationSeconds: number;
+  /** Download the audio into `dir` and return the file path. */
+  download: (dir: string) => Promise<string>;
+}
+
+export interface VoiceTranscriber {
+  provider: TranscriptionProvider;
+  language: string;
+  maxAudioMinutes: number;
+}
+
+/**
+ * The message text stored for a voice note: the transcript, then a `[voice]`
+ * line with the duration and the original file reference. Audio over the
+ * length limit is not downloaded, and failures are reported in the text
+ * instead, so the note still shows up in the conversation.
+ */
+export async function transcribeVoiceNote(
+  note: VoiceNote,
+  transcriber: VoiceTranscriber,
+): Promise<string> {
+  const marker = `[voice ${formatDuration(note.durationSeconds)}] ${note.fileRef}`;
+  if (note.durationSeconds > transcriber.maxAudioMinutes * 60) {
+    return `${marker}\nNot transcribed: longer than the ${transcriber.maxAudioMinutes} minute limit.`;
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-voice-'));
+  try {
+    const audioPath = await note.download(dir);
+    const transcript = await transcriber.provider.transcribe(
+      audioPath,
+      transcriber.language,
+    );
+    if (!transcript) return `${marker}\nNo speech recognized.`;
+    return `${addSpokenTrigger(transcript)}\n${marker}`;
+  } catch (err) {
+    logger.error(
+      { err, fileRef: note.fileRef, provider: transcriber.provider.name },
+      'Voice transcription failed',
+    );
+    return `${marker}\nTranscription failed.`;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
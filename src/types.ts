@@ -32,15 +32,36 @@ export interface ContainerConfig {
   timeout?: number; // Default: 300000 (5 minutes)
 }
 
+export interface ApprovalConfig {
+  // Telegram user ids allowed to approve or deny proposals. Empty/unset: anyone in the chat
+  approvers?: string[];
+  // Distinct approvers needed for high-risk actions. Default: HIGH_RISK_APPROVAL_QUORUM
+  highRiskQuorum?: number;
+}
+
 export interface RegisteredGroup {
   name: string;
   folder: string;
   trigger: string;
   added_at: string;
   containerConfig?: ContainerConfig;
+  approvalConfig?: ApprovalConfig;
   requiresTrigger?: boolean; // Default: true for groups, false for solo chats
 }
 
+/** Reply state of one email thread, kept so replies survive a restart. */
+export interface EmailThread {
+  chatJid: string;
+  subject: string;
+  /** Addresses replies go to (the latest sender other than the channel). */
+  replyTo: string[];
+  /** Message-ID of the latest message, for In-Reply-To. */
+  lastMessageId: string;
+  /** The thread's References chain, oldest first. */
+  references: string[];
+  updatedAt: string;
+}
+
 export interface NewMessage {
   id: string;
   chat_jid: string;
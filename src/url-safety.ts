@@ -0,0 +1,369 @@
+/**
+ * Web Fetch URL Safety for NanoClaw
+ *
+ * Guards web_fetch against server-side request forgery. Literal checks reject
+ * private, loopback, link-local and reserved addresses, IPv4-mapped IPv6 and
+ * non-standard IPv4 encodings (decimal, octal, hex, short forms); resolution
+ * checks apply the same rules to every address a hostname resolves to, and
+ * fetchWithSafeRedirects re-checks each redirect hop and connects only to
+ * addresses that passed the check. ops-runner keeps a copy
+ * (infra/packages/shared/src/url-safety.ts) for the fetch it performs.
+ */
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+
+/** Resolve a hostname to all of its addresses (tests pass a stub). */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export type UrlCheck = { ok: true; url: URL } | { ok: false; reason: string };
+
+export const MAX_WEB_FETCH_REDIRECTS = 5;
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/** [network, prefix length] pairs that web_fetch must never reach. */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split('.')
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+/** Expand an IPv6 address into its eight 16-bit groups. */
+function parseIpv6(address: string): number[] | null {
+  const bare = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  if (!net.isIPv6(bare)) return null;
+
+  let text = bare.toLowerCase();
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text =
+      text.slice(0, -dotted[1].length) +
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, null];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === null ? missing !== 0 : missing < 1) return null;
+  return [
+    ...headGroups,
+    ...Array<string>(tail === null ? 0 : missing).fill('0'),
+    ...tailGroups,
+  ].map((group) => parseInt(group, 16));
+}
+
+function embeddedIpv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/** Why an IPv6 address is refused, or null when it is publicly routable. */
+function ipv6BlockReason(address: string): string | null {
+  const groups = parseIpv6(address);
+  if (!groups) return 'is not a valid IPv6 address';
+  const leadingZero = groups.slice(0, 5).every((group) => group === 0);
+
+  if (leadingZero && groups[5] === 0xffff) {
+    return 'is an IPv4-mapped IPv6 address';
+  }
+  if (leadingZero && groups[5] === 0) {
+    // ::, ::1 and the deprecated IPv4-compatible form ::a.b.c.d
+    return 'is an unspecified, loopback or IPv4-compatible address';
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return 'is a NAT64 address embedding IPv4';
+  }
+  if (
+    groups[0] === 0x2002 &&
+    isBlockedIpv4(embeddedIpv4(groups[1], groups[2]))
+  ) {
+    return 'is a 6to4 address embedding a private IPv4 address';
+  }
+  if ((groups[0] & 0xfe00) === 0xfc00) return 'is a unique local address';
+  if ((groups[0] & 0xffc0) === 0xfe80) return 'is a link-local address';
+  if ((groups[0] & 0xffc0) === 0xfec0) return 'is a site-local address';
+  if ((groups[0] & 0xff00) === 0xff00) return 'is a multicast address';
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) {
+    return 'is a documentation address';
+  }
+  return null;
+}
+
+/** Why an IP address is refused, or null when it is publicly routable. */
+export function addressBlockReason(address: string): string | null {
+  const bare = address.replace(/^\[|\]$/g, '');
+  if (net.isIPv4(bare)) {
+    return isBlockedIpv4(bare) ? 'is a private or reserved IPv4 address' : null;
+  }
+  if (net.isIPv6(bare.replace(/%.*$/, ''))) return ipv6BlockReason(bare);
+  return 'is not an IP address';
+}
+
+/**
+ * The host exactly as written in the URL. URL parsing canonicalizes
+ * "http://2130706433/" to 127.0.0.1, which would hide the encoding.
+ */
+function rawHost(url: string): string | null {
+  const match = url
+    .trim()
+    .match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Check a URL without resolving it: scheme, blocked hostnames, literal IPs
+ * and IP encodings other than plain dotted decimal.
+ */
+export function checkWebUrlLiteral(url: string): UrlCheck {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return { ok: false, reason: 'URL is not valid' };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { ok: false, reason: `Protocol ${parsed.protocol} is not allowed` };
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!host) return { ok: false, reason: 'URL has no host' };
+  if (
+    BLOCKED_HOSTNAMES.includes(host) ||
+    BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  ) {
+    return { ok: false, reason: `Host ${host} is internal` };
+  }
+
+  if (net.isIPv4(host) && rawHost(url) !== host) {
+    return {
+      ok: false,
+      reason: `Host ${rawHost(url)} uses a non-standard IPv4 encoding`,
+    };
+  }
+  if (net.isIPv4(host) || host.startsWith('[')) {
+    const reason = addressBlockReason(host);
+    if (reason) return { ok: false, reason: `Address ${host} ${reason}` };
+  }
+  return { ok: true, url: parsed };
+}
+
+export const systemLookup: HostLookup = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(
+    (entry) => entry.address,
+  );
+
+/**
+ * Check a URL and every address its hostname resolves to. A name that does
+ * not resolve is refused, as is one with any blocked address, since the
+ * client may pick any of them.
+ */
+export async function checkWebUrl(
+  url: string,
+  resolve: HostLookup = systemLookup,
+): Promise<UrlCheck> {
+  const literal = checkWebUrlLiteral(url);
+  if (!literal.ok) return literal;
+  const host = literal.url.hostname;
+  if (net.isIPv4(host) || host.startsWith('[')) return literal;
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(host);
+  } catch (err) {
+    return {
+      ok: false,
+      reason: `Host ${host} did not resolve: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  if (addresses.length === 0) {
+    return { ok: false, reason: `Host ${host} did not resolve` };
+  }
+  for (const address of addresses) {
+    const reason = addressBlockReason(address);
+    if (reason) {
+      return {
+        ok: false,
+        reason: `Host ${host} resolves to ${address}, which ${reason}`,
+      };
+    }
+  }
+  return literal;
+}
+
+/** The part of fetch() that fetchWithSafeRedirects uses. */
+export type FetchLike = (input: URL, init: RequestInit) => Promise<Response>;
+
+export interface SafeFetchOptions {
+  resolve?: HostLookup;
+  /** Replaces checkWebUrl for each hop, e.g. to add a domain allowlist. */
+  check?: (url: string) => Promise<UrlCheck>;
+  maxRedirects?: number;
+  /** Defaults to pinnedFetch(resolve). */
+  fetchImpl?: FetchLike;
+}
+
+/** Raised when a URL or redirect target fails the safety checks. */
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+/**
+ * lookup for http(s).request that resolves the hostname itself and fails
+ * unless every address passes the block check. The socket then connects to
+ * an address that was checked, so a second DNS answer pointing somewhere
+ * internal (DNS rebinding) is never used.
+ */
+export function checkedLookup(
+  resolve: HostLookup = systemLookup,
+): net.LookupFunction {
+  return (hostname, options, callback) => {
+    const connect = async () => {
+      const addresses = await resolve(hostname);
+      if (addresses.length === 0) {
+        throw new UnsafeUrlError(`Host ${hostname} did not resolve`);
+      }
+      for (const address of addresses) {
+        const reason = addressBlockReason(address);
+        if (reason) {
+          throw new UnsafeUrlError(
+            `Host ${hostname} resolves to ${address}, which ${reason}`,
+          );
+        }
+      }
+      return addresses.map((address) => ({
+        address,
+        family: net.isIPv6(address) ? 6 : 4,
+      }));
+    };
+    connect().then(
+      (entries) =>
+        options.all
+          ? callback(null, entries)
+          : callback(null, entries[0].address, entries[0].family),
+      (err: NodeJS.ErrnoException) => callback(err, ''),
+    );
+  };
+}
+
+/**
+ * GET/HEAD over http(s).request with checkedLookup, returned as a fetch
+ * Response. fetch() resolves hostnames on its own, after the check.
+ */
+export function pinnedFetch(resolve: HostLookup = systemLookup): FetchLike {
+  const lookup = checkedLookup(resolve);
+  return (input, init) =>
+    new Promise((resolveResponse, reject) => {
+      const method = init.method ?? 'GET';
+      const client = input.protocol === 'https:' ? https : http;
+      const request = client.request(
+        input,
+        {
+          method,
+          // Bodies are passed through as-is; fetch() would decompress them.
+          headers: {
+            ...Object.fromEntries(new Headers(init.headers)),
+            'accept-encoding': 'identity',
+          },
+          lookup,
+          signal: init.signal ?? undefined,
+        },
+        (response) => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of [value ?? []].flat()) headers.append(name, item);
+          }
+          const status = response.statusCode ?? 502;
+          const empty = method === 'HEAD' || status === 204 || status === 304;
+          if (empty) response.resume();
+          // stream/web's ReadableStream type differs from the global one.
+          const body = empty
+            ? null
+            : (Readable.toWeb(response) as unknown as ReadableStream);
+          resolveResponse(
+            new Response(body, {
+              status,
+              statusText: response.statusMessage,
+              headers,
+            }),
+          );
+        },
+      );
+      request.on('error', reject);
+      request.end();
+    });
+}
+
+/**
+ * fetch() that follows redirects by hand so every hop is checked before it
+ * is requested. Throws UnsafeUrlError when a hop is refused.
+ */
+export async function fetchWithSafeRedirects(
+  url: string,
+  init: RequestInit = {},
+  options: SafeFetchOptions = {},
+): Promise<Response> {
+  const fetchImpl = options.fetchImpl ?? pinnedFetch(options.resolve);
+  const maxRedirects = options.maxRedirects ?? MAX_WEB_FETCH_REDIRECTS;
+  const checkHop =
+    options.check ?? ((hopUrl: string) => checkWebUrl(hopUrl, options.resolve));
+  let current = url;
+
+  for (let hop = 0; ; hop += 1) {
+    const check = await checkHop(current);
+    if (!check.ok) {
+      throw new UnsafeUrlError(
+        hop === 0
+          ? check.reason
+          : `Redirect to ${current} blocked: ${check.reason}`,
+      );
+    }
+
+    const response = await fetchImpl(check.url, {
+      ...init,
+      redirect: 'manual',
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (hop >= maxRedirects) {
+      throw new UnsafeUrlError(`Stopped after ${maxRedirects} redirects`);
+    }
+    current = new URL(location, check.url).toString();
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * WhatsApp channel for NanoClaw
+ * Adapts a Baileys socket to the ChannelAdapter interface. Chat ids are
+ * WhatsApp JIDs (`...@g.us`, `...@s.whatsapp.net`). WhatsApp has no inline
+ * buttons, so approval requests carry the /approve and /deny commands.
+ * The assistant usually sends from the user's own account, so its messages
+ * come back as fromMe like the user's; outgoing text is prefixed with
+ * `${ASSISTANT_NAME}: ` so the message loop skips those echoes instead of
+ * answering itself. Authenticate once with `npm run auth`.
+ */
+import { exec } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+import makeWASocket, {
+  DisconnectReason,
+  WASocket,
+  jidNormalizedUser,
+  makeCacheableSignalKeyStore,
+  proto,
+  useMultiFileAuthState,
+} from '@whiskeysockets/baileys';
+
+import {
+  type ApprovalPrompt,
+  approvalCommandHint,
+  type ChannelAdapter,
+  type ChannelEvents,
+} from './channel.js';
+import { ASSISTANT_NAME, STORE_DIR } from './config.js';
+import { logger } from './logger.js';
+
+function messageText(message: proto.IMessage): string {
+  return (
+    message.conversation ||
+    message.extendedTextMessage?.text ||
+    message.imageMessage?.caption ||
+    message.videoMessage?.caption ||
+    ''
+  );
+}
+
+/**
+ * Who wrote a message: the linked account (`ownJid`, from `sock.user.id`)
+ * for its own messages, otherwise the group participant or the other side
+ * of a DM. Approver lists and quorums key on this, so it is never the chat
+ * when the author is known.
+ */
+export function whatsappSenderId(
+  key: proto.IMessageKey,
+  ownJid: string | undefined,
+): string {
+  if (key.fromMe && ownJid) return jidNormalizedUser(ownJid);
+  return key.participant || key.remoteJid || '';
+}
+
+export class WhatsAppChannel implements ChannelAdapter {
+  readonly name = 'whatsapp';
+  private sock?: WASocket;
+  // LID to phone number mapping (WhatsApp now sends LID JIDs for self-chats)
+  private lidToPhoneMap: Record<string, string> = {};
+  private stopped = false;
+
+  ownsChat(chatJid: string): boolean {
+    return /@(g\.us|s\.whatsapp\.net|lid)$/.test(chatJid);
+  }
+
+  async start(events: ChannelEvents): Promise<void> {
+    this.stopped = false;
+    await this.connect(events);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.sock?.end(undefined);
+  }
+
+  async sendMessage(chatJid: string, text: string): Promise<void> {
+    await this.requireSocket().sendMessage(chatJid, {
+      text: `${ASSISTANT_NAME}: ${text}`,
+    });
+  }
+
+  async setTyping(chatJid: string, isTyping: boolean): Promise<void> {
+    await this.requireSocket().sendPresenceUpdate(
+      isTyping ? 'composing' : 'paused',
+      chatJid,
+    );
+  }
+
+  async sendApprovalRequest(
+    chatJid: string,
+    prompt: ApprovalPrompt,
+  ): Promise<string | undefined> {
+    await this.sendMessage(
+      chatJid,
+      `${prompt.text}\n\n${approvalCommandHint(prompt)}`,
+    );
+    return undefined;
+  }
+
+  async fetchGroupNames(): Promise<Record<string, string>> {
+    const groups = await this.requireSocket().groupFetchAllParticipating();
+    const names: Record<string, string> = {};
+    for (const [jid, metadata] of Object.entries(groups)) {
+      if (metadata.subject) names[jid] = metadata.subject;
+    }
+    return names;
+  }
+
+  /**
+   * Translate a JID from LID format to phone format if we have a mapping.
+   * Returns the original JID if no mapping exists.
+   */
+  private translateJid(jid: string): string {
+    if (!jid.endsWith('@lid')) return jid;
+    const lidUser = jid.split('@')[0].split(':')[0];
+    const phoneJid = this.lidToPhoneMap[lidUser];
+    if (phoneJid) {
+      logger.debug({ lidJid: jid, phoneJid }, 'Translated LID to phone JID');
+      return phoneJid;
+    }
+    return jid;
+  }
+
+  private async connect(events: ChannelEvents): Promise<void> {
+    const authDir = path.join(STORE_DIR, 'auth');
+    fs.mkdirSync(authDir, { recursive: true });
+
+    const { state, saveCreds } = await useMultiFileAuthState(authDir);
+
+    const sock = makeWASocket({
+      auth: {
+        creds: state.creds,
+        keys: makeCacheableSignalKeyStore(state.keys, logger),
+      },
+      printQRInTerminal: false,
+      logger,
+      browser: ['NanoClaw', 'Chrome', '1.0.0'],
+    });
+    this.sock = sock;
+
+    sock.ev.on('connection.update', (update) => {
+      const { connection, lastDisconnect, qr } = update;
+
+      if (qr) {
+        const msg =
+          'WhatsApp authentication required. Run npm run auth to link the account.';
+        logger.error(msg);
+        exec(
+          `osascript -e 'display notification "${msg}" with title "NanoClaw" sound name "Basso"'`,
+        );
+        setTimeout(() => process.exit(1), 1000);
+      }
+
+      if (connection === 'close') {
+        const reason = (lastDisconnect?.error as any)?.output?.statusCode;
+        const shouldReconnect =
+          !this.stopped && reason !== DisconnectReason.loggedOut;
+        logger.info({ reason, shouldReconnect }, 'WhatsApp connection closed');
+
+        if (shouldReconnect) {
+          logger.info('Reconnecting to WhatsApp...');
+          this.connect(events).catch((err) =>
+            logger.error({ err }, 'WhatsApp reconnect failed'),
+          );
+        } else if (reason === DisconnectReason.loggedOut) {
+          logger.error('WhatsApp logged out. Run npm run auth to re-link.');
+        }
+      } else if (connection === 'open') {
+        logger.info('Connected to WhatsApp');
+
+        // Build LID to phone mapping from auth state for self-chat translation
+        if (sock.user) {
+          const phoneUser = sock.user.id.split(':')[0];
+          const lidUser = sock.user.lid?.split(':')[0];
+          if (lidUser && phoneUser) {
+            this.lidToPhoneMap[lidUser] = `${phoneUser}@s.whatsapp.net`;
+            logger.debug({ lidUser, phoneUser }, 'LID to phone mapping set');
+          }
+        }
+      }
+    });
+
+    sock.ev.on('creds.update', saveCreds);
+
+    sock.ev.on('messages.upsert', ({ messages }) => {
+      for (const msg of messages) {
+        if (!msg.message) continue;
+        const rawJid = msg.key.remoteJid;
+        if (!rawJid || rawJid === 'status@broadcast') continue;
+
+        // Translate LID JID to phone JID if applicable
+        const chatJid = this.translateJid(rawJid);
+        const senderId = whatsappSenderId(msg.key, sock.user?.id);
+        void events.onMessage({
+          chatJid,
+          text: messageText(msg.message),
+          id: msg.key.id || `whatsapp-${chatJid}-${msg.messageTimestamp}`,
+          sender: msg.pushName || senderId.split('@')[0],
+          senderId,
+          timestamp: new Date(Number(msg.messageTimestamp) * 1000),
+          fromMe: msg.key.fromMe || false,
+        });
+      }
+    });
+  }
+
+  private requireSocket(): WASocket {
+    if (!this.sock) throw new Error('WhatsApp channel is not started');
+    return this.sock;
+  }
+}
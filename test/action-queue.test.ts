@@ -0,0 +1,493 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  amendActionProposal,
+  classifyActionRisk,
+  decideActionProposal,
+  decideProposalActions,
+  enqueueActionProposal,
+  expireStaleActionProposals,
+  getActionProposalById,
+  getApprovedActionIndices,
+  getAwaitingQuorumIndices,
+  getPendingActionProposals,
+  markActionProposalExecuting,
+  proposalTtlMs,
+  recordActionProposalResults,
+  simulateProposalApproval,
+} from '../src/action-queue.js';
+import {
+  _initTestDatabase,
+  backfillActionProposalExpiry,
+  createActionProposal,
+} from '../src/db.js';
+import type { Plan } from '../src/plan-contract.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+// Fixed registry, so results do not depend on the developer's own file
+_setSshTargets(
+  parseSshTargets({
+    targets: [
+      {
+        name: 'william',
+        host: '10.0.0.2',
+        allowlist: ['^systemctl restart docker$'],
+      },
+    ],
+  }),
+);
+
+const plan: Plan = {
+  actions: [
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      requiresApproval: true,
+      reason: 'Check load',
+    },
+  ],
+};
+
+test('enqueueActionProposal stores proposals in SQLite', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan,
+    requestText: '  check uptime  ',
+  });
+
+  assert.ok(record);
+  assert.equal(record?.status, 'proposed');
+  const stored = getActionProposalById(record!.id);
+  assert.equal(stored?.id, record?.id);
+  assert.deepEqual(stored?.actions, plan.actions);
+  assert.equal(getPendingActionProposals('chat-1').length, 1);
+  assert.equal(getPendingActionProposals('chat-2').length, 0);
+  assert.equal(getActionProposalById(record!.id)?.requestText, 'check uptime');
+});
+
+test('enqueueActionProposal ignores empty plans', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: { actions: [] },
+  });
+  assert.equal(record, null);
+});
+
+test('decideActionProposal only decides proposals once', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({ groupFolder: 'main', chatJid: 'chat-1', plan });
+  assert.ok(record);
+
+  const approved = decideActionProposal(record!.id, 'approved');
+  assert.equal(approved?.status, 'approved');
+  assert.ok(approved?.decidedAt);
+
+  assert.equal(decideActionProposal(record!.id, 'denied', 'too late'), null);
+  assert.equal(getActionProposalById(record!.id)?.status, 'approved');
+  assert.equal(getPendingActionProposals('chat-1').length, 0);
+});
+
+test('approved proposals move through executing to a settled status with results', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({ groupFolder: 'main', chatJid: 'chat-1', plan });
+  decideActionProposal(record!.id, 'approved');
+
+  const executing = markActionProposalExecuting(record!.id);
+  assert.equal(executing?.status, 'executing');
+  assert.equal(markActionProposalExecuting(record!.id), null);
+
+  const settled = recordActionProposalResults(record!.id, [
+    {
+      actionType: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      status: 'executed',
+      output: 'up 3 days',
+    },
+  ]);
+  assert.equal(settled?.status, 'executed');
+  assert.equal(settled?.results?.[0].output, 'up 3 days');
+  assert.ok(settled?.completedAt);
+});
+
+test('recordActionProposalResults marks blocked or failed runs as failed', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({ groupFolder: 'main', chatJid: 'chat-1', plan });
+  decideActionProposal(record!.id, 'approved');
+  markActionProposalExecuting(record!.id);
+
+  const settled = recordActionProposalResults(record!.id, [
+    {
+      actionType: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      status: 'blocked',
+      output: 'Command blocked by readonly allowlist policy.',
+    },
+  ]);
+  assert.equal(settled?.status, 'failed');
+});
+
+const mixedPlan: Plan = {
+  actions: [
+    {
+      type: 'web_fetch',
+      url: 'https://example.com/status',
+      mode: 'http',
+      requiresApproval: true,
+      reason: 'Read status page',
+    },
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'systemctl restart docker',
+      requiresApproval: true,
+      reason: 'Restart docker',
+    },
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      requiresApproval: true,
+      reason: 'Check load',
+    },
+  ],
+};
+
+test('decideProposalActions records decisions per action until all are decided', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  const afterFirst = decideProposalActions(record!.id, 'approved', [0]);
+  assert.equal(afterFirst?.status, 'proposed');
+  assert.equal(afterFirst?.actionDecisions?.[0].decision, 'approved');
+  assert.equal(afterFirst?.actionDecisions?.[1].decision, 'pending');
+
+  const afterSecond = decideProposalActions(record!.id, 'denied', [1], {
+    decisionReason: 'too risky',
+  });
+  assert.equal(afterSecond?.status, 'proposed');
+  assert.equal(afterSecond?.actionDecisions?.[1].reason, 'too risky');
+
+  const settled = decideProposalActions(record!.id, 'approved', [2]);
+  assert.equal(settled?.status, 'approved');
+  assert.deepEqual(getApprovedActionIndices(settled!), [0, 2]);
+});
+
+test('decideProposalActions with denyRemaining approves only the listed subset', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  const settled = decideProposalActions(record!.id, 'approved', [0, 2], {
+    denyRemaining: true,
+  });
+  assert.equal(settled?.status, 'approved');
+  assert.deepEqual(
+    settled?.actionDecisions?.map((entry) => entry.decision),
+    ['approved', 'denied', 'approved'],
+  );
+});
+
+test('decideProposalActions settles as denied when nothing is approved', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  assert.equal(decideProposalActions(record!.id, 'denied', [5]), null);
+  const settled = decideProposalActions(record!.id, 'denied');
+  assert.equal(settled?.status, 'denied');
+  assert.deepEqual(getApprovedActionIndices(settled!), []);
+});
+
+test('amendActionProposal re-queues an edited ssh command as a linked revision', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  const result = amendActionProposal(
+    record!.id,
+    1,
+    '  systemctl status docker ',
+  );
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.warnings, []);
+  const revision = result.revision!;
+  assert.equal(revision.status, 'proposed');
+  assert.equal(revision.revisionOf, record!.id);
+  assert.equal(
+    revision.actions[1].type === 'ssh' && revision.actions[1].command,
+    'systemctl status docker',
+  );
+  assert.deepEqual(
+    getPendingActionProposals('chat-1').map((item) => item.id),
+    [revision.id],
+  );
+
+  const original = getActionProposalById(record!.id);
+  assert.equal(original?.status, 'superseded');
+  assert.equal(original?.supersededBy, revision.id);
+  assert.equal(decideActionProposal(record!.id, 'approved'), null);
+});
+
+test('amendActionProposal rejects unsupported actions and commands outside the allowlist', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  assert.equal(
+    amendActionProposal(record!.id, 0, 'https://x.test').revision,
+    null,
+  );
+  assert.equal(amendActionProposal(record!.id, 7, 'uptime').revision, null);
+  assert.equal(getActionProposalById(record!.id)?.status, 'proposed');
+
+  const result = amendActionProposal(record!.id, 2, 'rm -rf /tmp/cache');
+  assert.equal(result.revision, null);
+  assert.match(result.errors[0], /outside the readonly allowlist/);
+  assert.equal(getActionProposalById(record!.id)?.status, 'proposed');
+  assert.ok(amendActionProposal(record!.id, 2, 'uptime').revision);
+});
+
+test('proposalTtlMs uses the shortest per-type TTL', () => {
+  assert.equal(proposalTtlMs(mixedPlan.actions, 3_600_000, {}), 3_600_000);
+  assert.equal(
+    proposalTtlMs(mixedPlan.actions, 3_600_000, { ssh: 600_000 }),
+    600_000,
+  );
+});
+
+test('expireStaleActionProposals expires undecided proposals past their TTL', () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan,
+  });
+  assert.ok(record?.expiresAt);
+
+  assert.deepEqual(expireStaleActionProposals(new Date()), []);
+  const expired = expireStaleActionProposals(
+    new Date(Date.parse(record!.expiresAt!) + 1),
+  );
+  assert.deepEqual(
+    expired.map((item) => [item.id, item.status]),
+    [[record!.id, 'expired']],
+  );
+  assert.equal(decideActionProposal(record!.id, 'approved'), null);
+  assert.deepEqual(getPendingActionProposals('chat-1'), []);
+});
+
+test('proposals stored without an expiry get one derived from created_at', () => {
+  _initTestDatabase();
+  createActionProposal({
+    id: 'ap-legacy',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    status: 'proposed',
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    actions: plan.actions,
+  });
+
+  assert.equal(backfillActionProposalExpiry(), 1);
+  const createdAt = Date.parse('2024-01-01T00:00:00.000Z');
+  assert.equal(
+    getActionProposalById('ap-legacy')?.expiresAt,
+    new Date(createdAt + proposalTtlMs(plan.actions)).toISOString(),
+  );
+  assert.equal(backfillActionProposalExpiry(), 0);
+  assert.deepEqual(
+    expireStaleActionProposals(new Date()).map((item) => item.id),
+    ['ap-legacy'],
+  );
+});
+
+test('decideActionProposal refuses a proposal past expiry before the sweeper runs', () => {
+  _initTestDatabase();
+  createActionProposal({
+    id: 'ap-stale',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    status: 'proposed',
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    actions: plan.actions,
+    expiresAt: '2024-01-01T01:00:00.000Z',
+  });
+
+  assert.equal(decideActionProposal('ap-stale', 'approved'), null);
+  assert.equal(getActionProposalById('ap-stale')?.status, 'expired');
+});
+
+test('classifyActionRisk flags Obsidian writes and ssh allowed by a target rule', () => {
+  assert.equal(classifyActionRisk(mixedPlan.actions[0]), 'normal');
+  assert.equal(classifyActionRisk(mixedPlan.actions[1]), 'high');
+  assert.equal(classifyActionRisk(mixedPlan.actions[2]), 'normal');
+  assert.equal(
+    classifyActionRisk({
+      type: 'obsidian_write',
+      path: 'Notes/ops.md',
+      mode: 'append',
+      patch: 'Restarted docker',
+      requiresApproval: true,
+      reason: 'Record the restart',
+    }),
+    'high',
+  );
+  // Blocked by the executor whatever the approvals, so no quorum either
+  assert.equal(
+    classifyActionRisk({
+      type: 'ssh',
+      target: 'william',
+      command: 'rm -rf /tmp/cache',
+      requiresApproval: true,
+      reason: 'Clean up',
+    }),
+    'normal',
+  );
+});
+
+test('high-risk actions need a quorum of distinct approvers', () => {
+  _initTestDatabase();
+  const approvalConfig = { approvers: ['100', '200'], highRiskQuorum: 2 };
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  assert.equal(
+    decideProposalActions(record!.id, 'approved', undefined, {
+      approverId: '300',
+      approvalConfig,
+    }),
+    null,
+  );
+
+  const first = decideProposalActions(record!.id, 'approved', undefined, {
+    approverId: '100',
+    approvalConfig,
+  });
+  assert.equal(first?.status, 'proposed');
+  assert.deepEqual(getAwaitingQuorumIndices(first!), [1]);
+
+  const repeat = decideProposalActions(record!.id, 'approved', [1], {
+    approverId: '100',
+    approvalConfig,
+  });
+  assert.equal(repeat?.status, 'proposed');
+  assert.equal(repeat?.actionDecisions?.[1].approvals?.length, 1);
+
+  const second = decideProposalActions(record!.id, 'approved', [1], {
+    approverId: '200',
+    approvalConfig,
+  });
+  assert.equal(second?.status, 'approved');
+  assert.deepEqual(getApprovedActionIndices(second!), [0, 1, 2]);
+  assert.deepEqual(
+    second?.actionDecisions?.[1].approvals?.map((entry) => entry.approverId),
+    ['100', '200'],
+  );
+});
+
+test("decisions from a chat other than the proposal's are refused", () => {
+  _initTestDatabase();
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  // A DM without an approver list must not stand in for chat-1's list
+  assert.equal(
+    decideProposalActions(record!.id, 'approved', undefined, {
+      approverId: '300',
+      chatJid: 'dm-300',
+    }),
+    null,
+  );
+  assert.equal(getActionProposalById(record!.id)?.status, 'proposed');
+  assert.ok(
+    getActionProposalById(record!.id)?.actionDecisions?.every(
+      (entry) => entry.decision === 'pending',
+    ),
+  );
+
+  const decided = decideProposalActions(record!.id, 'denied', undefined, {
+    approverId: '100',
+    chatJid: 'chat-1',
+  });
+  assert.equal(decided?.status, 'denied');
+});
+
+test('simulateProposalApproval reports quorum and denials without deciding anything', async () => {
+  _initTestDatabase();
+  const approvalConfig = { approvers: ['100', '200'], highRiskQuorum: 2 };
+  const record = enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: mixedPlan,
+  });
+
+  const report = await simulateProposalApproval(record!, [1, 2], {
+    approverId: '100',
+    approvalConfig,
+  });
+  assert.deepEqual(
+    report.actions.map((entry) => [entry.outcome, entry.reason]),
+    [
+      ['skipped', 'Not selected for approval.'],
+      [
+        'needs_approval',
+        'High risk: needs 1 more approval(s) before anything runs.',
+      ],
+      [
+        'skipped',
+        'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).',
+      ],
+    ],
+  );
+  assert.deepEqual(
+    report.dispatch?.payload.actions.map((action) => action.type),
+    ['ssh'],
+  );
+  assert.equal(getActionProposalById(record!.id)?.status, 'proposed');
+
+  const afterFirst = decideProposalActions(record!.id, 'approved', [1], {
+    approverId: '100',
+    approvalConfig,
+  });
+  const second = await simulateProposalApproval(
+    afterFirst!,
+    undefined,
+    { approverId: '200', approvalConfig },
+    { resolve: async () => ['93.184.215.14'] },
+  );
+  assert.equal(second.actions[0].outcome, 'skipped');
+  assert.equal(second.actions[1].outcome, 'skipped');
+  assert.equal(
+    second.actions[1].reason,
+    'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).',
+  );
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import type { Action } from '../src/plan-contract.js';
+
+// config.ts reads these at import time, so the executor is imported only
+// after the runner below is listening.
+interface ReceivedDispatch {
+  headers: http.IncomingHttpHeaders;
+  body: {
+    dispatchId: string;
+    actions: Array<{ type: string; command?: string }>;
+  };
+}
+
+const received: ReceivedDispatch[] = [];
+// Replies for the next dispatches; without one the runner answers 409
+const replies: Array<{ status: number; body: unknown }> = [];
+const runner = http.createServer((req, res) => {
+  let text = '';
+  req.on('data', (chunk) => (text += chunk));
+  req.on('end', () => {
+    received.push({ headers: req.headers, body: JSON.parse(text) });
+    const reply = replies.shift() ?? {
+      status: 409,
+      body: { success: false, error: 'Dispatch already seen' },
+    };
+    res.writeHead(reply.status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+});
+await new Promise<void>((resolve) => runner.listen(0, '127.0.0.1', resolve));
+test.after(() => runner.close());
+
+process.env.ENABLE_APPROVED_EXECUTION = 'true';
+process.env.APPROVED_ACTION_WEBHOOK_URL = `http://127.0.0.1:${(runner.address() as AddressInfo).port}/dispatch`;
+process.env.APPROVED_ACTION_WEBHOOK_SECRET = 'test-secret';
+
+const { executeApprovedActions } = await import('../src/approved-executor.js');
+const { _setSshTargets, parseSshTargets } =
+  await import('../src/ssh-targets.js');
+
+_setSshTargets(
+  parseSshTargets({
+    targets: [{ name: 'william', host: '10.0.0.2' }],
+  }),
+);
+
+test('a dispatch the runner refuses as a replay (HTTP 409) fails without results', async () => {
+  received.length = 0;
+  const results = await executeApprovedActions([
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      requiresApproval: true,
+      reason: 'Check load',
+    },
+  ]);
+
+  assert.equal(received.length, 1);
+  const [dispatch] = received;
+  assert.equal(
+    dispatch.headers['x-nanoclaw-dispatch-id'],
+    dispatch.body.dispatchId,
+  );
+  assert.match(
+    String(dispatch.headers['x-nanoclaw-signature']),
+    /^sha256=[0-9a-f]{64}$/,
+  );
+
+  assert.equal(results.length, 1);
+  assert.equal(results[0].status, 'failed');
+  assert.equal(results[0].exitCode, undefined);
+  assert.equal(
+    results[0].output,
+    `Runner refused dispatch ${dispatch.body.dispatchId} as a replay (HTTP 409): ` +
+      '{"success":false,"error":"Dispatch already seen"}. Nothing was executed.',
+  );
+});
+
+test('each action of a wave gets the status of its own runner result', async () => {
+  received.length = 0;
+  replies.push(
+    {
+      status: 200,
+      body: { results: [{ exitCode: 0, stdout: 'up' }, { exitCode: 1 }] },
+    },
+    { status: 200, body: { results: [{ exitCode: 0 }] } },
+  );
+  const ssh = (id: string, command: string, dependsOn?: string[]): Action => ({
+    type: 'ssh',
+    target: 'william',
+    command,
+    requiresApproval: true,
+    reason: 'Check',
+    id,
+    ...(dependsOn ? { dependsOn } : {}),
+  });
+
+  const results = await executeApprovedActions([
+    ssh('load', 'uptime'),
+    ssh('disk', 'df -h'),
+    ssh('after-load', 'free -m', ['load']),
+    ssh('after-disk', 'df -i', ['disk']),
+  ]);
+
+  assert.deepEqual(
+    received.map((dispatch) =>
+      dispatch.body.actions.map((action) => action.command),
+    ),
+    [['uptime', 'df -h'], ['free -m']],
+  );
+  assert.deepEqual(
+    results.map((result) => [result.status, result.exitCode]),
+    [
+      ['executed', 0],
+      ['failed', 1],
+      ['executed', 0],
+      ['skipped', undefined],
+    ],
+  );
+  assert.equal(results[3].output, 'Dependency disk was failed.');
+});
@@ -3,9 +3,22 @@ import test from 'node:test';
 
 import {
   buildWebhookSignature,
+  executeApprovedActions,
+  type ExecutionResult,
   isAllowedReadonlyCommand,
   isAllowedWebUrl,
+  isConditionMet,
+  simulateApprovedActions,
 } from '../src/approved-executor.js';
+import { _resetNotifyChannels, registerNotifyChannel } from '../src/notify.js';
+import type { Action } from '../src/plan-contract.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+_setSshTargets(
+  parseSshTargets({
+    targets: [{ name: 'william', host: '10.0.0.2' }],
+  }),
+);
 
 test('isAllowedReadonlyCommand allows safe diagnostics', () => {
   assert.equal(isAllowedReadonlyCommand('uptime'), true);
@@ -39,3 +52,206 @@ test('buildWebhookSignature is deterministic', () => {
     '4c9d53b363181ec66fd09bdc9a9d31e2f6a309d03c397c99aeaccf3a1d8854f4',
   );
 });
+
+test('isConditionMet checks exit code and output of a finished action', () => {
+  const result: ExecutionResult = {
+    actionType: 'ssh',
+    status: 'executed',
+    exitCode: 0,
+    output: 'stdout:\n/dev/sda1  50G  47G  3G  94% /',
+  };
+  assert.equal(isConditionMet({ action: 'disk', exitCode: 0 }, result), true);
+  assert.equal(isConditionMet({ action: 'disk', exitCode: 1 }, result), false);
+  assert.equal(
+    isConditionMet({ action: 'disk', outputMatches: '(9[1-9]|100)%' }, result),
+    true,
+  );
+  assert.equal(
+    isConditionMet(
+      { action: 'disk', exitCode: 0 },
+      { ...result, status: 'skipped' },
+    ),
+    false,
+  );
+  // Overlong patterns never match, and only the start of the output is read
+  assert.equal(
+    isConditionMet({ action: 'disk', outputMatches: `94%|${'a'.repeat(200)}` }, result),
+    false,
+  );
+  assert.equal(
+    isConditionMet(
+      { action: 'disk', outputMatches: 'tail' },
+      { ...result, output: `${'x'.repeat(20_000)}tail` },
+    ),
+    false,
+  );
+});
+
+test('executeApprovedActions skips actions whose dependencies did not run', async () => {
+  const actions: Action[] = [
+    {
+      id: 'disk',
+      type: 'ssh',
+      target: 'william',
+      command: 'df -h',
+      requiresApproval: true,
+      reason: 'Check disk',
+    },
+    {
+      id: 'cleanup',
+      type: 'ssh',
+      target: 'william',
+      command: 'docker ps',
+      requiresApproval: true,
+      reason: 'Follow up',
+      dependsOn: ['disk'],
+      onlyIf: { action: 'disk', exitCode: 0 },
+    },
+    {
+      type: 'ssh',
+      target: 'william',
+      command: 'uptime',
+      requiresApproval: true,
+      reason: 'Needs a step that was not approved',
+      dependsOn: ['missing'],
+    },
+  ];
+
+  const results = await executeApprovedActions(actions);
+  assert.deepEqual(
+    results.map((result) => [result.actionIndex, result.status, result.output]),
+    [
+      [
+        0,
+        'skipped',
+        'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).',
+      ],
+      [1, 'skipped', 'Condition on disk not met.'],
+      [2, 'skipped', 'Dependency missing was not approved.'],
+    ],
+  );
+});
+
+test('executeApprovedActions blocks file_read outside readable paths', async () => {
+  const [result] = await executeApprovedActions([
+    {
+      type: 'file_read',
+      target: 'william',
+      path: '/etc/shadow',
+      tailLines: 5,
+      requiresApproval: true,
+      reason: 'Should never be readable',
+    },
+  ]);
+  assert.equal(result.status, 'blocked');
+  assert.equal(result.target, 'william');
+  assert.equal(result.command, '/etc/shadow (last 5 lines)');
+});
+
+test('executeApprovedActions blocks obsidian_write without a note snapshot', async () => {
+  const [result] = await executeApprovedActions([
+    {
+      type: 'obsidian_write',
+      path: 'Projects/Homelab.md',
+      mode: 'append',
+      patch: '- Rotated keys',
+      requiresApproval: true,
+      reason: 'Log the rotation',
+    },
+  ]);
+  assert.equal(result.status, 'blocked');
+  assert.equal(result.command, 'Projects/Homelab.md (append)');
+});
+
+test('executeApprovedActions does not deliver notifications while execution is disabled', async () => {
+  const sent: string[] = [];
+  _resetNotifyChannels();
+  registerNotifyChannel(
+    'telegram',
+    async (_chatJid, text) => {
+      sent.push(text);
+    },
+    () => true,
+  );
+  try {
+    const [result] = await executeApprovedActions(
+      [{ type: 'notify', message: 'Disk checked', requiresApproval: true, reason: 'Report back' }],
+      { notify: { sourceGroup: 'main', chatJid: '100', registeredGroups: {} } },
+    );
+    assert.equal(result.status, 'skipped');
+    assert.equal(result.output, 'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).');
+    assert.deepEqual(sent, []);
+  } finally {
+    _resetNotifyChannels();
+  }
+});
+
+test('simulateApprovedActions reports each outcome and builds the request without sending it', async () => {
+  const report = await simulateApprovedActions(
+    [
+      {
+        id: 'disk',
+        type: 'ssh',
+        target: 'william',
+        command: 'df -h /data',
+        requiresApproval: true,
+        reason: 'Check disk',
+      },
+      {
+        id: 'prune',
+        type: 'ssh',
+        target: 'william',
+        command: 'docker system prune -f',
+        requiresApproval: true,
+        reason: 'Free space',
+      },
+      {
+        type: 'file_read',
+        target: 'william',
+        path: '/var/log/syslog',
+        tailLines: 20,
+        requiresApproval: true,
+        reason: 'Look for errors',
+        dependsOn: ['prune'],
+      },
+      {
+        type: 'ssh',
+        target: 'unknown-host',
+        command: 'uptime',
+        requiresApproval: true,
+        reason: 'Check load',
+      },
+      {
+        type: 'web_fetch',
+        url: 'http://localhost:8080/',
+        mode: 'http',
+        requiresApproval: true,
+        reason: 'Read local status',
+      },
+      {
+        type: 'notify',
+        message: 'Disk checked',
+        requiresApproval: true,
+        reason: 'Report back',
+      },
+    ],
+  );
+
+  assert.deepEqual(
+    report.actions.map((entry) => [entry.outcome, entry.reason]),
+    [
+      ['skipped', 'Approved execution is disabled (ENABLE_APPROVED_EXECUTION=false).'],
+      ['blocked', 'Command blocked by readonly allowlist policy.'],
+      ['skipped', 'Dependency prune would not run (blocked).'],
+      ['blocked', 'Target unknown-host is not in the SSH target registry.'],
+      ['blocked', 'URL blocked by web-fetch safety policy: Host localhost is internal.'],
+      ['blocked', 'No notification delivery is available here.'],
+    ],
+  );
+  assert.equal(report.dispatch?.url, undefined);
+  assert.equal(report.dispatch?.headers['x-nanoclaw-signature'], undefined);
+  assert.deepEqual(
+    report.dispatch?.payload.actions.map((action) => action.type === 'ssh' && action.command),
+    ['df -h /data'],
+  );
+});
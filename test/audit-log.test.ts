@@ -0,0 +1,192 @@
+import Database from 'better-sqlite3';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import {
+  decideActionProposal,
+  enqueueActionProposal,
+  getRecentActionProposals,
+  markActionProposalExecuting,
+  recordActionProposalResults,
+} from '../src/action-queue.js';
+import {
+  AUDIT_GENESIS_HASH,
+  formatAuditVerification,
+  verifyAuditChain,
+  verifyCoreAuditLog,
+} from '../src/audit-log.js';
+import {
+  _initTestDatabase,
+  getAuditEntries,
+  readAuditEntries,
+  runInTransaction,
+} from '../src/db.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+_setSshTargets(
+  parseSshTargets({
+    targets: [{ name: 'william', host: '10.0.0.2' }],
+  }),
+);
+
+function enqueueUptime() {
+  return enqueueActionProposal({
+    groupFolder: 'main',
+    chatJid: 'chat-1',
+    plan: {
+      actions: [
+        {
+          type: 'ssh',
+          target: 'william',
+          command: 'uptime',
+          requiresApproval: true,
+          reason: 'Check load',
+        },
+      ],
+    },
+  });
+}
+
+function runProposal(): void {
+  const record = enqueueUptime();
+  assert.ok(record);
+  decideActionProposal(record.id, 'approved');
+  assert.ok(markActionProposalExecuting(record.id));
+  recordActionProposalResults(record.id, [
+    {
+      actionIndex: 0,
+      actionType: 'ssh',
+      status: 'executed',
+      output: 'up 3 days',
+      exitCode: 0,
+    },
+  ]);
+}
+
+test('proposal lifecycle is appended to a hash chain', () => {
+  _initTestDatabase();
+  runProposal();
+
+  const entries = getAuditEntries();
+  assert.deepEqual(
+    entries.map((entry) => entry.event),
+    [
+      'proposal.created',
+      'proposal.decided',
+      'proposal.dispatched',
+      'proposal.results',
+    ],
+  );
+  assert.equal(entries[0].prevHash, AUDIT_GENESIS_HASH);
+  assert.equal(entries[1].prevHash, entries[0].hash);
+  assert.equal(JSON.parse(entries[3].data).status, 'executed');
+  assert.deepEqual(verifyCoreAuditLog(), { ok: true, checked: 4 });
+});
+
+test('results for a proposal that is no longer executing are not audited', () => {
+  _initTestDatabase();
+  runProposal();
+  const [record] = getRecentActionProposals('chat-1');
+
+  assert.equal(
+    recordActionProposalResults(record.id, [
+      { actionIndex: 0, actionType: 'ssh', status: 'failed', output: 'late' },
+    ]),
+    null,
+  );
+  assert.equal(getRecentActionProposals('chat-1')[0].status, 'executed');
+  assert.equal(
+    getAuditEntries().filter((entry) => entry.event === 'proposal.results')
+      .length,
+    1,
+  );
+});
+
+test('verifyAuditChain reports the first broken link', () => {
+  _initTestDatabase();
+  runProposal();
+  const entries = getAuditEntries();
+
+  const edited = entries.map((entry) =>
+    entry.seq === 2
+      ? { ...entry, data: entry.data.replace('approved', 'denied') }
+      : entry,
+  );
+  const result = verifyAuditChain(edited);
+  assert.deepEqual(result, {
+    ok: false,
+    checked: 1,
+    brokenAt: { seq: 2, reason: 'contents do not match the stored hash' },
+  });
+  assert.match(
+    formatAuditVerification('Core audit log', result),
+    /BROKEN at entry 2/,
+  );
+
+  assert.deepEqual(
+    verifyAuditChain(entries.filter((entry) => entry.seq !== 3)).brokenAt,
+    { seq: 4, reason: 'expected entry 3, found 4' },
+  );
+
+  const relinked = entries.filter((entry) => entry.seq !== 3);
+  relinked[2] = { ...relinked[2], seq: 3 };
+  assert.deepEqual(verifyAuditChain(relinked).brokenAt, {
+    seq: 3,
+    reason: 'previous hash does not match the entry before it',
+  });
+});
+
+test('a proposal change and its audit entry commit or roll back together', () => {
+  _initTestDatabase();
+  assert.throws(
+    () =>
+      runInTransaction(() => {
+        assert.ok(enqueueUptime());
+        throw new Error('crash before commit');
+      }),
+    /crash before commit/,
+  );
+  assert.deepEqual(getRecentActionProposals('chat-1'), []);
+  assert.deepEqual(getAuditEntries(), []);
+});
+
+test('readAuditEntries reads a database file without creating or changing it', (t) => {
+  _initTestDatabase();
+  runProposal();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const dbPath = path.join(dir, 'jobs.db');
+  const file = new Database(dbPath);
+  file.exec(
+    'CREATE TABLE audit_log (seq INTEGER PRIMARY KEY, timestamp TEXT, event TEXT, data_json TEXT, prev_hash TEXT, hash TEXT)',
+  );
+  const insert = file.prepare(
+    'INSERT INTO audit_log VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  for (const entry of getAuditEntries()) {
+    insert.run(
+      entry.seq,
+      entry.timestamp,
+      entry.event,
+      entry.data,
+      entry.prevHash,
+      entry.hash,
+    );
+  }
+  file.close();
+  const before = fs.readFileSync(dbPath);
+
+  assert.deepEqual(verifyAuditChain(readAuditEntries(dbPath)), {
+    ok: true,
+    checked: 4,
+  });
+  assert.deepEqual(fs.readFileSync(dbPath), before);
+
+  const missing = path.join(dir, 'messages.db');
+  assert.throws(() => readAuditEntries(missing));
+  assert.equal(fs.existsSync(missing), false);
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { ASSISTANT_NAME } from '../src/config.js';
+import {
+  _resetChannels,
+  approvalCommandHint,
+  type ChannelAdapter,
+  channelForChat,
+  getChannels,
+  registerChannel,
+} from '../src/channel.js';
+import {
+  _initTestDatabase,
+  getNewMessages,
+  storeChatMetadata,
+  storeInboundMessage,
+} from '../src/db.js';
+import { TelegramChannel } from '../src/telegram-channel.js';
+import { WhatsAppChannel, whatsappSenderId } from '../src/whatsapp-channel.js';
+
+function fakeChannel(name: string, prefix: string): ChannelAdapter {
+  return {
+    name,
+    ownsChat: (chatJid) => chatJid.startsWith(prefix),
+    start: async () => {},
+    stop: async () => {},
+    sendMessage: async () => {},
+    setTyping: async () => {},
+    sendApprovalRequest: async () => undefined,
+  };
+}
+
+test('channelForChat routes each chat to the channel that owns it', (t) => {
+  t.after(_resetChannels);
+  registerChannel(new TelegramChannel({ token: 'x', adminChatId: '1' }));
+  registerChannel(new WhatsAppChannel());
+
+  assert.equal(channelForChat('-1001234567890')?.name, 'telegram');
+  assert.equal(channelForChat('42')?.name, 'telegram');
+  assert.equal(channelForChat('120363@g.us')?.name, 'whatsapp');
+  assert.equal(
+    channelForChat('4915112345678@s.whatsapp.net')?.name,
+    'whatsapp',
+  );
+  assert.equal(channelForChat('room:unknown'), undefined);
+});
+
+test('registerChannel refuses a second channel with the same name', (t) => {
+  t.after(_resetChannels);
+  registerChannel(fakeChannel('fake', 'fake:'));
+  assert.throws(
+    () => registerChannel(fakeChannel('fake', 'other:')),
+    /Channel fake is already registered/,
+  );
+  assert.deepEqual(
+    getChannels().map((channel) => channel.name),
+    ['fake'],
+  );
+});
+
+test('approvalCommandHint lists the commands for channels without buttons', () => {
+  const single = approvalCommandHint({
+    proposalId: 'ap-1',
+    text: 'Approval needed',
+    actionCount: 1,
+  });
+  assert.match(single, /^Reply \/approve ap-1 or \/deny ap-1 <reason>\./);
+  assert.doesNotMatch(single, /1,3/);
+  assert.match(
+    approvalCommandHint({ proposalId: 'ap-2', text: '', actionCount: 3 }),
+    /\/approve ap-2 1,3 runs only the listed actions/,
+  );
+});
+
+test('WhatsApp replies carry the assistant prefix so their echoes are not answered', async () => {
+  const sent: { chatJid: string; text: string }[] = [];
+  const channel = new WhatsAppChannel();
+  // Stand-in for the Baileys socket the channel opens on start()
+  Object.assign(channel, {
+    sock: {
+      sendMessage: async (chatJid: string, content: { text: string }) => {
+        sent.push({ chatJid, text: content.text });
+      },
+    },
+  });
+  await channel.sendMessage('120363@g.us', 'Disk is at 40%.');
+  assert.deepEqual(sent, [
+    { chatJid: '120363@g.us', text: `${ASSISTANT_NAME}: Disk is at 40%.` },
+  ]);
+
+  // The reply comes back fromMe, like the user's own messages
+  _initTestDatabase();
+  storeChatMetadata('120363@g.us', new Date().toISOString());
+  for (const [id, text] of [
+    ['echo', sent[0].text],
+    ['user', 'How full is the disk?'],
+  ]) {
+    storeInboundMessage({
+      chatJid: '120363@g.us',
+      text,
+      id,
+      sender: 'me',
+      senderId: '4915112345678@s.whatsapp.net',
+      timestamp: new Date(),
+      fromMe: true,
+    });
+  }
+  const { messages } = getNewMessages(['120363@g.us'], '', ASSISTANT_NAME);
+  assert.deepEqual(
+    messages.map((message) => message.id),
+    ['user'],
+  );
+});
+
+test('WhatsApp senders are the author, never the chat', () => {
+  const own = '4915100000000:12@s.whatsapp.net';
+  // The owner's own messages, in a group and in a DM
+  assert.equal(
+    whatsappSenderId(
+      { remoteJid: '120363@g.us', fromMe: true, participant: '' },
+      own,
+    ),
+    '4915100000000@s.whatsapp.net',
+  );
+  assert.equal(
+    whatsappSenderId(
+      { remoteJid: '4915112345678@s.whatsapp.net', fromMe: true },
+      own,
+    ),
+    '4915100000000@s.whatsapp.net',
+  );
+  // Someone else in a group, and the other side of a DM
+  assert.equal(
+    whatsappSenderId(
+      {
+        remoteJid: '120363@g.us',
+        fromMe: false,
+        participant: '4915122222222@s.whatsapp.net',
+      },
+      own,
+    ),
+    '4915122222222@s.whatsapp.net',
+  );
+  assert.equal(
+    whatsappSenderId(
+      { remoteJid: '4915112345678@s.whatsapp.net', fromMe: false },
+      own,
+    ),
+    '4915112345678@s.whatsapp.net',
+  );
+});
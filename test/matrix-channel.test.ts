@@ -0,0 +1,273 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import type { InboundAction, InboundMessage } from '../src/channel.js';
+import { ASSISTANT_NAME, TRIGGER_PATTERN } from '../src/config.js';
+import {
+  _initTestDatabase,
+  getMessagesSince,
+  storeChatMetadata,
+  storeInboundMessage,
+} from '../src/db.js';
+import type { MatrixEvent, MatrixRelation } from '../src/matrix-client.js';
+import { MatrixChannel, stripReplyFallback } from '../src/matrix-channel.js';
+
+const BOT = '@gorky:example.org';
+const ROOM = '!ops:example.org';
+
+/** Event content the channel sends: messages, edits and reactions. */
+interface SentContent {
+  msgtype?: string;
+  body?: string;
+  'm.new_content'?: { msgtype: string; body: string };
+  'm.relates_to'?: MatrixRelation;
+}
+
+interface Request {
+  method: string;
+  path: string;
+  body?: SentContent;
+}
+
+/**
+ * A homeserver stub: whoami, /sync serving queued timeline batches, send,
+ * typing, joined_rooms and m.room.name state. Every request is recorded.
+ */
+async function startHomeserver(t: test.TestContext) {
+  const requests: Request[] = [];
+  const batches: MatrixEvent[][] = [];
+  let eventCounter = 0;
+  let batch = 0;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://stub');
+      const path = decodeURIComponent(
+        url.pathname.replace('/_matrix/client/v3', ''),
+      );
+      requests.push({
+        method: req.method || '',
+        path,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const reply = (status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.headers.authorization !== 'Bearer secret-token') {
+        reply(401, { errcode: 'M_UNKNOWN_TOKEN' });
+      } else if (path === '/account/whoami') {
+        reply(200, { user_id: BOT });
+      } else if (path === '/sync') {
+        // The initial sync returns history that must not be delivered
+        const events = url.searchParams.has('since')
+          ? (batches.shift() ?? [])
+          : [roomMessage('$old', '@adam:example.org', 'old history')];
+        batch += 1;
+        const send = () =>
+          reply(200, {
+            next_batch: `s${batch}`,
+            rooms: { join: { [ROOM]: { timeline: { events } } } },
+          });
+        if (events.length > 0) send();
+        else setTimeout(send, 10);
+      } else if (/^\/rooms\/[^/]+\/send\//.test(path)) {
+        eventCounter += 1;
+        reply(200, { event_id: `$sent${eventCounter}` });
+      } else if (/^\/rooms\/[^/]+\/typing\//.test(path)) {
+        reply(200, {});
+      } else if (path === '/joined_rooms') {
+        reply(200, { joined_rooms: [ROOM, '!unnamed:example.org'] });
+      } else if (path === `/rooms/${ROOM}/state/m.room.name`) {
+        reply(200, { name: 'Ops' });
+      } else {
+        reply(404, { errcode: 'M_NOT_FOUND' });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests, batches };
+}
+
+function roomMessage(
+  eventId: string,
+  sender: string,
+  body: string,
+  extra: Record<string, unknown> = {},
+): MatrixEvent {
+  return {
+    type: 'm.room.message',
+    event_id: eventId,
+    sender,
+    origin_server_ts: 1_700_000_000_000,
+    content: { msgtype: 'm.text', body, ...extra },
+  };
+}
+
+function reaction(sender: string, eventId: string, key: string): MatrixEvent {
+  return {
+    type: 'm.reaction',
+    event_id: `$r-${sender}-${key}`,
+    sender,
+    origin_server_ts: 1_700_000_000_000,
+    content: {
+      'm.relates_to': { rel_type: 'm.annotation', event_id: eventId, key },
+    },
+  };
+}
+
+/** Start a channel and collect inbound events until `done` says so. */
+async function startChannel(
+  t: test.TestContext,
+  url: string,
+  done: (messages: InboundMessage[], actions: InboundAction[]) => boolean,
+) {
+  const channel = new MatrixChannel({
+    homeserverUrl: url,
+    accessToken: 'secret-token',
+    syncTimeoutMs: 50,
+  });
+  t.after(() => channel.stop());
+  const messages: InboundMessage[] = [];
+  const actions: InboundAction[] = [];
+  let resolveDone!: () => void;
+  const finished = new Promise<void>((resolve) => (resolveDone = resolve));
+  await channel.start({
+    onMessage: async (message) => {
+      messages.push(message);
+      if (done(messages, actions)) resolveDone();
+    },
+    onAction: async (action) => {
+      actions.push(action);
+      if (done(messages, actions)) resolveDone();
+    },
+  });
+  return { channel, messages, actions, finished };
+}
+
+test('room messages are delivered with the room as chat and stored', async (t) => {
+  _initTestDatabase();
+  const stub = await startHomeserver(t);
+  stub.batches.push([
+    // The bot's own reply, echoed back by /sync
+    roomMessage('$0', BOT, `@${ASSISTANT_NAME} is on it`),
+    roomMessage(
+      '$1',
+      '@adam:example.org',
+      `@${ASSISTANT_NAME} check the backups`,
+    ),
+    roomMessage('$2', '@adam:example.org', '* edited', {
+      'm.relates_to': { rel_type: 'm.replace', event_id: '$1' },
+    }),
+    roomMessage(
+      '$3',
+      '@adam:example.org',
+      '> <@gorky:example.org> Approval needed\n\nAPPROVE ap-1-abc 2',
+    ),
+    {
+      type: 'm.room.member',
+      event_id: '$4',
+      sender: '@eve:example.org',
+      origin_server_ts: 1,
+      content: { membership: 'join' },
+    },
+  ]);
+  const { messages, finished } = await startChannel(
+    t,
+    stub.url,
+    (received) => received.length === 2,
+  );
+  await finished;
+
+  assert.deepEqual(
+    messages.map((message) => message.text),
+    [`@${ASSISTANT_NAME} check the backups`, '/approve ap-1-abc 2'],
+  );
+  const [message] = messages;
+  assert.equal(message.chatJid, ROOM);
+  assert.equal(message.id, '$1');
+  assert.equal(message.sender, 'adam');
+  assert.equal(message.senderId, '@adam:example.org');
+
+  storeChatMetadata(message.chatJid, message.timestamp.toISOString());
+  storeInboundMessage(message);
+  const stored = getMessagesSince(ROOM, '', ASSISTANT_NAME);
+  assert.equal(stored.length, 1);
+  assert.equal(stored[0].sender, '@adam:example.org');
+  assert.ok(TRIGGER_PATTERN.test(stored[0].content));
+});
+
+test('reactions on an approval request become approve and deny actions', async (t) => {
+  const stub = await startHomeserver(t);
+  const { channel, actions, finished } = await startChannel(
+    t,
+    stub.url,
+    (_messages, received) => received.length === 2,
+  );
+
+  const eventId = await channel.sendApprovalRequest(ROOM, {
+    proposalId: 'ap-1-abc',
+    text: 'Approval needed',
+    actionCount: 1,
+  });
+  assert.equal(eventId, '$sent1');
+  const sends = stub.requests.filter((request) =>
+    request.path.startsWith(`/rooms/${ROOM}/send/`),
+  );
+  const prompt = String(sends[0].body?.body);
+  assert.match(prompt, /React ✅ to approve or ❌ to deny/);
+  assert.match(prompt, /APPROVE ap-1-abc or DENY ap-1-abc/);
+  assert.deepEqual(
+    sends.slice(1).map((request) => request.body?.['m.relates_to']?.key),
+    ['✅', '❌'],
+  );
+
+  stub.batches.push([
+    reaction(BOT, '$sent1', '✅'),
+    reaction('@adam:example.org', '$unrelated', '✅'),
+    reaction('@adam:example.org', '$sent1', '🎉'),
+    reaction('@adam:example.org', '$sent1', '👍️'),
+    reaction('@eve:example.org', '$sent1', '❌'),
+  ]);
+  await finished;
+  assert.deepEqual(actions, [
+    { chatJid: ROOM, data: 'approve:ap-1-abc', senderId: '@adam:example.org' },
+    { chatJid: ROOM, data: 'deny:ap-1-abc', senderId: '@eve:example.org' },
+  ]);
+
+  await channel.editMessage(ROOM, '$sent1', 'Approved ap-1-abc.');
+  const edit = stub.requests.at(-1)!;
+  assert.deepEqual(edit.body?.['m.new_content'], {
+    msgtype: 'm.text',
+    body: 'Approved ap-1-abc.',
+  });
+  assert.deepEqual(edit.body?.['m.relates_to'], {
+    rel_type: 'm.replace',
+    event_id: '$sent1',
+  });
+});
+
+test('room names come from joined rooms that have a name', async (t) => {
+  const stub = await startHomeserver(t);
+  const { channel } = await startChannel(t, stub.url, () => false);
+  assert.deepEqual(await channel.fetchGroupNames(), { [ROOM]: 'Ops' });
+  assert.ok(channel.ownsChat(ROOM));
+  assert.ok(!channel.ownsChat('-100123'));
+  assert.ok(!channel.ownsChat('signal:+4915100000000'));
+});
+
+test('stripReplyFallback keeps only the reply text', () => {
+  assert.equal(
+    stripReplyFallback('> <@a:b> first\n> second\n\nthe reply'),
+    'the reply',
+  );
+  assert.equal(stripReplyFallback('no quote'), 'no quote');
+});
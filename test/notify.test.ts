@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import test, { type TestContext } from 'node:test';
+
+import {
+  _resetNotifyChannels,
+  canSendToChat,
+  deliverNotification,
+  type NotifyAction,
+  type NotifyContext,
+  registerNotifyChannel,
+} from '../src/notify.js';
+import type { RegisteredGroup } from '../src/types.js';
+
+function group(folder: string): RegisteredGroup {
+  return {
+    name: folder,
+    folder,
+    trigger: '@Andy',
+    added_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const registeredGroups: Record<string, RegisteredGroup> = {
+  '100': group('main'),
+  '200': group('family'),
+  '300': group('homelab'),
+  '120363@g.us': group('friends'),
+};
+
+const notify: NotifyAction = {
+  type: 'notify',
+  message: 'Backups finished',
+  requiresApproval: true,
+  reason: 'Report the result',
+};
+
+function setUpChannel(t: TestContext): Array<[string, string, string]> {
+  const sent: Array<[string, string, string]> = [];
+  _resetNotifyChannels();
+  registerNotifyChannel(
+    'telegram',
+    async (chatJid, text) => {
+      sent.push(['telegram', chatJid, text]);
+    },
+    (chatJid) => /^-?\d+$/.test(chatJid),
+  );
+  registerNotifyChannel(
+    'whatsapp',
+    async (chatJid, text) => {
+      sent.push(['whatsapp', chatJid, text]);
+    },
+    (chatJid) => chatJid.endsWith('@g.us'),
+  );
+  t.after(_resetNotifyChannels);
+  return sent;
+}
+
+test('canSendToChat applies the IPC rule: main anywhere, others only their own chat', () => {
+  assert.equal(canSendToChat(registeredGroups, 'main', '200'), true);
+  assert.equal(canSendToChat(registeredGroups, 'main', '999'), true);
+  assert.equal(canSendToChat(registeredGroups, 'family', '200'), true);
+  assert.equal(canSendToChat(registeredGroups, 'family', '300'), false);
+  assert.equal(canSendToChat(registeredGroups, 'family', '999'), false);
+});
+
+test('deliverNotification sends to this chat or a group the source may reach', async (t) => {
+  const sent = setUpChannel(t);
+  const fromMain: NotifyContext = {
+    sourceGroup: 'main',
+    chatJid: '100',
+    registeredGroups,
+  };
+
+  const own = await deliverNotification(notify, fromMain);
+  assert.equal(own.status, 'executed');
+  const other = await deliverNotification(
+    { ...notify, to: 'family' },
+    fromMain,
+  );
+  assert.equal(other.status, 'executed');
+  assert.equal(other.command, 'family via telegram');
+  assert.deepEqual(sent, [
+    ['telegram', '100', 'Backups finished'],
+    ['telegram', '200', 'Backups finished'],
+  ]);
+});
+
+test('deliverNotification uses the channel that owns the recipient chat', async (t) => {
+  const sent = setUpChannel(t);
+  const fromMain: NotifyContext = {
+    sourceGroup: 'main',
+    chatJid: '100',
+    registeredGroups,
+  };
+
+  const friends = await deliverNotification(
+    { ...notify, to: 'friends' },
+    fromMain,
+  );
+  assert.equal(friends.status, 'executed');
+  assert.equal(friends.command, 'friends via whatsapp');
+
+  const wrongChannel = await deliverNotification(
+    { ...notify, to: 'family', channel: 'whatsapp' },
+    fromMain,
+  );
+  assert.equal(wrongChannel.status, 'blocked');
+  assert.equal(wrongChannel.output, 'Channel whatsapp does not serve family.');
+
+  const unowned = await deliverNotification(notify, {
+    ...fromMain,
+    chatJid: 'matrix:!room:example.org',
+  });
+  assert.equal(unowned.status, 'blocked');
+  assert.equal(unowned.output, 'No notification channel serves this chat.');
+  assert.deepEqual(sent, [['whatsapp', '120363@g.us', 'Backups finished']]);
+});
+
+test('deliverNotification blocks other groups, unknown folders and channels', async (t) => {
+  const sent = setUpChannel(t);
+  const fromFamily: NotifyContext = {
+    sourceGroup: 'family',
+    chatJid: '200',
+    registeredGroups,
+  };
+
+  const crossGroup = await deliverNotification(
+    { ...notify, to: 'homelab' },
+    fromFamily,
+  );
+  assert.equal(crossGroup.status, 'blocked');
+  assert.equal(
+    crossGroup.output,
+    'Only the main group can notify other groups.',
+  );
+
+  const unknown = await deliverNotification(
+    { ...notify, to: 'work' },
+    fromFamily,
+  );
+  assert.equal(unknown.output, 'No registered group with folder "work".');
+
+  const channel = await deliverNotification(
+    { ...notify, channel: 'signal' },
+    fromFamily,
+  );
+  assert.equal(channel.status, 'blocked');
+  assert.equal(channel.output, 'Channel signal is not configured.');
+  assert.deepEqual(sent, []);
+});
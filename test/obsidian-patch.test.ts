@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import {
+  ABSENT_NOTE_HASH,
+  applyObsidianPatch,
+  hashNoteContent,
+  previewObsidianAction,
+  resolveNotePath,
+  snapshotNoteHashes,
+} from '../src/obsidian-patch.js';
+import type { Action } from '../src/plan-contract.js';
+
+const note = `---
+tags: [homelab]
+---
+# Homelab
+
+## Tasks
+- [ ] Upgrade Docker
+- [ ] Rotate keys
+
+## Notes
+Disk is at 80%.
+`;
+
+test('applyObsidianPatch appends and prepends after frontmatter', () => {
+  assert.deepEqual(
+    applyObsidianPatch(note, { mode: 'append', patch: 'Done.' }),
+    {
+      content: `${note}Done.\n`,
+    },
+  );
+  assert.deepEqual(
+    applyObsidianPatch(null, { mode: 'append', patch: '# New' }),
+    {
+      content: '# New\n',
+    },
+  );
+
+  const prepended = applyObsidianPatch(note, {
+    mode: 'prepend',
+    patch: '> Updated by NanoClaw',
+  });
+  assert.ok('content' in prepended);
+  assert.ok(
+    prepended.content.startsWith(
+      '---\ntags: [homelab]\n---\n> Updated by NanoClaw\n# Homelab',
+    ),
+  );
+});
+
+test('applyObsidianPatch replaces only the section under a heading', () => {
+  const result = applyObsidianPatch(note, {
+    mode: 'replace_section',
+    heading: '## Tasks',
+    patch: '- [x] Upgrade Docker',
+  });
+  assert.ok('content' in result);
+  assert.ok(
+    result.content.includes('## Tasks\n- [x] Upgrade Docker\n\n## Notes'),
+  );
+  assert.ok(!result.content.includes('Rotate keys'));
+  assert.ok(result.content.endsWith('Disk is at 80%.\n'));
+
+  assert.deepEqual(
+    applyObsidianPatch(note, {
+      mode: 'replace_section',
+      heading: 'Missing',
+      patch: 'x',
+    }),
+    { error: 'Heading not found: Missing' },
+  );
+});
+
+test('applyObsidianPatch applies unified diffs and rejects stale context', () => {
+  const diff = [
+    '--- a/Homelab.md',
+    '+++ b/Homelab.md',
+    '@@ -7,2 +7,3 @@',
+    '-- [ ] Upgrade Docker',
+    '+- [x] Upgrade Docker',
+    ' - [ ] Rotate keys',
+    '+- [ ] Check backups',
+  ].join('\n');
+  const result = applyObsidianPatch(note, { mode: 'diff', patch: diff });
+  assert.ok('content' in result);
+  assert.ok(
+    result.content.includes(
+      '- [x] Upgrade Docker\n- [ ] Rotate keys\n- [ ] Check backups\n\n## Notes',
+    ),
+  );
+
+  const stale = applyObsidianPatch(note.replace('Upgrade', 'Update'), {
+    mode: 'diff',
+    patch: diff,
+  });
+  assert.deepEqual(stale, {
+    error: 'Hunk 1 does not match the note at line 7',
+  });
+  assert.deepEqual(applyObsidianPatch(note, { mode: 'diff', patch: 'nope' }), {
+    error: 'Diff has no hunks',
+  });
+});
+
+test('resolveNotePath keeps notes inside the vault', () => {
+  assert.equal(
+    resolveNotePath('/vault', 'Projects/Homelab'),
+    path.resolve('/vault/Projects/Homelab.md'),
+  );
+  assert.equal(resolveNotePath('/vault', '../etc/passwd'), null);
+  assert.equal(resolveNotePath('/vault', '/etc/passwd'), null);
+  assert.equal(resolveNotePath('/vault', '.obsidian/app.json'), null);
+  assert.equal(resolveNotePath('', 'Projects/Homelab'), null);
+});
+
+test('snapshots and previews reflect the note when it was proposed', (t) => {
+  const vault = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-vault-'));
+  t.after(() => {
+    fs.rmSync(vault, { recursive: true, force: true });
+  });
+  fs.writeFileSync(path.join(vault, 'Homelab.md'), note, 'utf-8');
+
+  const actions: Action[] = [
+    {
+      type: 'obsidian_write',
+      path: 'Homelab.md',
+      mode: 'append',
+      patch: 'Checked backups.',
+      requiresApproval: true,
+      reason: 'Log the check',
+    },
+    {
+      type: 'obsidian_write',
+      path: 'Inbox/New',
+      mode: 'append',
+      patch: 'First line',
+      requiresApproval: true,
+      reason: 'Start a note',
+    },
+  ];
+  const [existing, created] = snapshotNoteHashes(actions, vault);
+  assert.ok(
+    existing.type === 'obsidian_write' && created.type === 'obsidian_write',
+  );
+  assert.equal(existing.baseHash, hashNoteContent(note));
+  assert.equal(created.baseHash, ABSENT_NOTE_HASH);
+
+  assert.equal(previewObsidianAction(existing, vault), '+ Checked backups.');
+  assert.equal(
+    previewObsidianAction(created, vault),
+    '(new note)\n+ First line',
+  );
+
+  fs.appendFileSync(path.join(vault, 'Homelab.md'), 'Edited meanwhile.\n');
+  assert.match(
+    previewObsidianAction(existing, vault),
+    /^Note changed since this was proposed/,
+  );
+});
@@ -4,9 +4,19 @@ import test from 'node:test';
 import {
   EMPTY_PLAN,
   formatPlanBlock,
+  mergeRepairedActions,
   parsePlanFromText,
+  parsePlanJson,
+  parseRepairedActions,
   type Plan,
 } from '../src/plan-contract.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+_setSshTargets(
+  parseSshTargets({
+    targets: [{ name: 'william', host: '10.0.0.2' }],
+  }),
+);
 
 test('ensure plan formatting helpers produce fenced block', () => {
   const plan: Plan = EMPTY_PLAN;
@@ -130,3 +140,296 @@ test('parsePlanFromText accepts empty plan object as fallback to no actions', ()
   assert.strictEqual(result.errors.length, 0);
   assert.deepStrictEqual(result.plan, EMPTY_PLAN);
 });
+
+const diskCheck = {
+  id: 'disk',
+  type: 'ssh',
+  target: 'william',
+  command: 'df -h /',
+  requiresApproval: true,
+  reason: 'Check disk usage',
+};
+
+const cleanup = {
+  id: 'cleanup',
+  type: 'ssh',
+  target: 'william',
+  command: 'docker system prune -f',
+  requiresApproval: true,
+  reason: 'Free disk space',
+  onlyIf: { action: 'disk', outputMatches: '(9[1-9]|100)%' },
+};
+
+test('parsePlanJson keeps v1 plans flat and ignores ordering fields', () => {
+  const plan = parsePlanJson(JSON.stringify({ actions: [diskCheck, cleanup] }));
+  assert.ok(plan);
+  assert.strictEqual(plan?.version, undefined);
+  assert.strictEqual(plan?.actions[1].id, undefined);
+  assert.strictEqual(plan?.actions[1].onlyIf, undefined);
+});
+
+test('parsePlanJson v2 keeps ids, dependencies and conditions', () => {
+  const plan = parsePlanJson(
+    JSON.stringify({ version: 2, actions: [diskCheck, cleanup] }),
+  );
+  assert.strictEqual(plan?.version, 2);
+  assert.strictEqual(plan?.actions[0].id, 'disk');
+  assert.deepStrictEqual(plan?.actions[1].dependsOn, ['disk']);
+  assert.deepStrictEqual(plan?.actions[1].onlyIf, {
+    action: 'disk',
+    outputMatches: '(9[1-9]|100)%',
+  });
+});
+
+test('parsePlanJson v2 rejects unknown dependencies, cycles and bad versions', () => {
+  assert.strictEqual(
+    parsePlanJson(JSON.stringify({ version: 2, actions: [cleanup] })),
+    null,
+  );
+  assert.strictEqual(
+    parsePlanJson(
+      JSON.stringify({
+        version: 2,
+        actions: [
+          { ...diskCheck, dependsOn: ['cleanup'] },
+          { ...cleanup, onlyIf: undefined, dependsOn: ['disk'] },
+        ],
+      }),
+    ),
+    null,
+  );
+  assert.strictEqual(
+    parsePlanJson(
+      JSON.stringify({
+        version: 2,
+        actions: [diskCheck, { ...cleanup, onlyIf: { action: 'disk' } }],
+      }),
+    ),
+    null,
+  );
+  assert.strictEqual(
+    parsePlanJson(
+      JSON.stringify({
+        version: 2,
+        actions: [
+          diskCheck,
+          {
+            ...cleanup,
+            onlyIf: { action: 'disk', outputMatches: 'a'.repeat(201) },
+          },
+        ],
+      }),
+    ),
+    null,
+  );
+  assert.strictEqual(
+    parsePlanJson(JSON.stringify({ version: 3, actions: [] })),
+    null,
+  );
+});
+
+const fenced = (plan: unknown) =>
+  '```json\n' + JSON.stringify(plan, null, 2) + '\n```';
+
+test('parsePlanFromText lenient mode keeps valid actions and reports rejected ones', () => {
+  const text = fenced({
+    actions: [
+      { type: 'question', question: 'Which host?' },
+      {
+        type: 'ssh',
+        target: 'nowhere',
+        command: 'uptime',
+        reason: 'Check load',
+      },
+      { type: 'web_fetch', url: 'ftp://example.com', reason: 'Read docs' },
+      { type: 'reply' },
+    ],
+  });
+
+  assert.strictEqual(parsePlanFromText(text).plan, null);
+
+  const result = parsePlanFromText(text, { lenient: true });
+  assert.deepStrictEqual(
+    result.plan?.actions.map((action) => action.type),
+    ['question', 'reply'],
+  );
+  assert.deepStrictEqual(result.actionErrors, [
+    {
+      index: 1,
+      type: 'ssh',
+      field: 'target',
+      reason: 'unknown target "nowhere"',
+    },
+    {
+      index: 2,
+      type: 'web_fetch',
+      field: 'url',
+      reason: 'must be an absolute http or https URL',
+    },
+  ]);
+  assert.strictEqual(result.errors.length, 2);
+  assert.ok(result.errors[0].includes('action 2 (ssh): target'));
+});
+
+test('parsePlanFromText lenient v2 drops actions depending on rejected ones', () => {
+  const result = parsePlanFromText(
+    fenced({
+      version: 2,
+      actions: [{ ...diskCheck, command: '' }, cleanup, { type: 'reply' }],
+    }),
+    { lenient: true },
+  );
+  assert.deepStrictEqual(
+    result.plan?.actions.map((action) => action.type),
+    ['reply'],
+  );
+  assert.deepStrictEqual(
+    result.actionErrors?.map((error) => [error.index, error.field]),
+    [
+      [0, 'command'],
+      [1, 'dependsOn'],
+    ],
+  );
+});
+
+test('mergeRepairedActions puts repaired actions back in their original slots', () => {
+  const result = parsePlanFromText(
+    fenced({
+      version: 2,
+      actions: [diskCheck, { ...cleanup, reason: '' }, { type: 'reply' }],
+    }),
+    { lenient: true },
+  );
+  assert.ok(result.plan && result.actionErrors);
+
+  const repaired = parseRepairedActions(
+    fenced({ version: 2, actions: [cleanup] }),
+  );
+  const merged = mergeRepairedActions(
+    result.plan,
+    result.actionErrors,
+    repaired,
+  );
+  assert.deepStrictEqual(
+    merged.actions.map((action) => action.id ?? action.type),
+    ['disk', 'cleanup', 'reply'],
+  );
+  assert.deepStrictEqual(merged.actions[1].dependsOn, ['disk']);
+
+  const cyclic = mergeRepairedActions(result.plan, result.actionErrors, [
+    { ...repaired[0]!, dependsOn: ['cleanup'] },
+  ]);
+  assert.strictEqual(cyclic, result.plan);
+});
+
+test('mergeRepairedActions takes one fix per rejected slot and drops extras', () => {
+  const result = parsePlanFromText(
+    fenced({
+      version: 2,
+      actions: [diskCheck, { ...cleanup, reason: '' }, { type: 'reply' }],
+    }),
+    { lenient: true },
+  );
+  assert.ok(result.plan && result.actionErrors);
+
+  const extra = {
+    type: 'ssh',
+    id: 'reboot',
+    target: 'william',
+    command: 'reboot',
+    reason: 'Not asked for',
+  };
+  const repaired = parseRepairedActions(
+    fenced({ version: 2, actions: [cleanup, extra] }),
+  );
+  assert.equal(repaired.length, 2);
+  assert.deepStrictEqual(
+    mergeRepairedActions(result.plan, result.actionErrors, repaired).actions.map(
+      (action) => action.id ?? action.type,
+    ),
+    ['disk', 'cleanup', 'reply'],
+  );
+
+  // An invalid fix keeps its position instead of shifting the next one in
+  const shifted = parseRepairedActions(
+    fenced({ version: 2, actions: [{ ...cleanup, reason: '' }, extra] }),
+  );
+  assert.deepStrictEqual(shifted.map(Boolean), [false, true]);
+  assert.deepStrictEqual(
+    mergeRepairedActions(result.plan, result.actionErrors, shifted).actions.map(
+      (action) => action.id ?? action.type,
+    ),
+    ['disk', 'reply'],
+  );
+});
+
+test('parsePlanJson validates file_read paths and read ranges', () => {
+  const read = {
+    type: 'file_read',
+    target: 'william',
+    path: '/var/log/syslog',
+    reason: 'Look for OOM kills',
+  };
+  assert.deepStrictEqual(
+    parsePlanJson(JSON.stringify({ actions: [{ ...read, tailLines: 200 }] })),
+    {
+      actions: [{ ...read, tailLines: 200, requiresApproval: true }],
+    },
+  );
+  assert.ok(
+    parsePlanJson(
+      JSON.stringify({ actions: [{ ...read, offset: 1024, length: 512 }] }),
+    ),
+  );
+
+  const result = parsePlanFromText(
+    fenced({
+      actions: [
+        { ...read, path: 'var/log/syslog' },
+        { ...read, path: '/var/log/../../etc/shadow' },
+        { ...read, tailLines: 10, offset: 0 },
+        { ...read, length: 0 },
+      ],
+    }),
+    { lenient: true },
+  );
+  assert.deepStrictEqual(
+    result.actionErrors?.map((error) => [error.index, error.field]),
+    [
+      [0, 'path'],
+      [1, 'path'],
+      [2, 'tailLines'],
+      [3, 'length'],
+    ],
+  );
+});
+
+test('parsePlanJson accepts notify actions with optional recipient and channel', () => {
+  const notify = {
+    type: 'notify',
+    message: 'Backups finished on william',
+    reason: 'Let the family group know',
+  };
+  assert.deepStrictEqual(
+    parsePlanJson(
+      JSON.stringify({ actions: [{ ...notify, to: 'family', channel: 'telegram' }] }),
+    ),
+    {
+      actions: [
+        { ...notify, to: 'family', channel: 'telegram', requiresApproval: true },
+      ],
+    },
+  );
+
+  const result = parsePlanFromText(
+    fenced({ actions: [{ ...notify, message: ' ' }, { ...notify, to: '' }] }),
+    { lenient: true },
+  );
+  assert.deepStrictEqual(
+    result.actionErrors?.map((error) => [error.index, error.field]),
+    [
+      [0, 'message'],
+      [1, 'to'],
+    ],
+  );
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import test from 'node:test';
+
+import { parsePlanJson } from '../src/plan-contract.js';
+import {
+  ACTION_TYPES,
+  buildPlanJsonSchema,
+  buildPlanZodSource,
+  describePlanSchema,
+} from '../src/plan-schema.js';
+
+test('generated plan schema copies are up to date', () => {
+  const expected = `${JSON.stringify(buildPlanJsonSchema(), null, 2)}\n`;
+  for (const file of [
+    'schema/plan.schema.json',
+    'container/agent-runner/src/plan.schema.json',
+    'infra/packages/shared/src/plan.schema.json',
+  ]) {
+    assert.strictEqual(
+      fs.readFileSync(file, 'utf-8'),
+      expected,
+      `${file} is stale; run npm run schema:plan`,
+    );
+  }
+  assert.strictEqual(
+    fs.readFileSync('infra/packages/shared/src/plan-actions.ts', 'utf-8'),
+    buildPlanZodSource(),
+    'infra/packages/shared/src/plan-actions.ts is stale; run npm run schema:plan',
+  );
+});
+
+test('plan JSON schema lists every action type the parser accepts', () => {
+  const schema = buildPlanJsonSchema() as {
+    properties: {
+      actions: {
+        items: { oneOf: Array<{ properties: { type: { const: string } } }> };
+      };
+    };
+  };
+  const types = schema.properties.actions.items.oneOf.map(
+    (action) => action.properties.type.const,
+  );
+  assert.deepStrictEqual(types, ACTION_TYPES);
+  assert.deepStrictEqual(
+    parsePlanJson(
+      JSON.stringify({
+        actions: [{ type: 'reply' }, { type: 'notify', message: 'hi' }],
+      }),
+    ),
+    null,
+  );
+});
+
+test('describePlanSchema lists fields with presence and hints', () => {
+  const description = describePlanSchema({ 'ssh.target': 'nas' });
+  for (const type of ACTION_TYPES) {
+    assert.ok(description.includes(`${type}: `), type);
+  }
+  assert.match(description, /- target \(nas\), required: /);
+  assert.match(description, /- extract, optional: /);
+  assert.match(description, /- onlyIf, optional: /);
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import test, { type TestContext } from 'node:test';
+
+import {
+  explainSshCommand,
+  formatPolicyExplanation,
+} from '../src/policy-explain.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+function useRegistry(t: TestContext): void {
+  _setSshTargets(
+    parseSshTargets({
+      targets: [
+        { name: 'nas', host: '10.0.0.5', allowlist: ['^zpool status$'] },
+      ],
+    }),
+  );
+  t.after(() => _setSshTargets(null));
+}
+
+test('explainSshCommand lists the rules tried up to the match', (t) => {
+  useRegistry(t);
+  const explanation = explainSshCommand('nas', 'zpool status');
+  assert.equal(
+    explanation.readonly.matchedRule,
+    'nas allowlist /^zpool status$/',
+  );
+  assert.deepEqual(explanation.readonly.evaluated[0], {
+    rule: 'uptime',
+    matched: false,
+    detail: 'Command is not uptime',
+  });
+  // Allowed by the target's own rule rather than the built-in ones
+  assert.equal(explanation.risk, 'high');
+  assert.equal(explanation.requiredApprovals, 2);
+  assert.equal(explanation.blockedReason, undefined);
+  assert.equal(explainSshCommand('nas', 'uptime').risk, 'normal');
+
+  const text = formatPolicyExplanation(explanation);
+  assert.match(text, /^Core policy for "zpool status" on nas/);
+  assert.match(text, /- nas allowlist \/\^zpool status\$\/: match/);
+  assert.match(text, /Outcome: runs once approved$/);
+});
+
+test('explainSshCommand reports escalation and the reason it is blocked', (t) => {
+  useRegistry(t);
+  const chained = explainSshCommand('nas', 'zpool status; reboot', {
+    highRiskQuorum: 3,
+  });
+  assert.equal(chained.readonly.evaluated.length, 0);
+  assert.equal(chained.risk, 'normal');
+  assert.equal(chained.requiredApprovals, 1);
+  const text = formatPolicyExplanation(chained);
+  assert.match(text, /Refused by the shell parser: Unquoted ";"/);
+  assert.match(text, /Approval: required, 1 distinct approval\(s\)/);
+  assert.match(
+    text,
+    /Outcome: blocked\. Command blocked by readonly allowlist policy\./,
+  );
+
+  assert.equal(
+    explainSshCommand('missing', 'uptime').blockedReason,
+    'Target missing is not in the SSH target registry.',
+  );
+});
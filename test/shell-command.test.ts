@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  checkReadonlyCommand,
+  isAllowedReadonlyCommand,
+} from '../src/approved-executor.js';
+import {
+  type CommandRule,
+  formatArgv,
+  matchCommandRule,
+  parseCommand,
+  unnormalizedPathArg,
+} from '../src/shell-command.js';
+import { _setSshTargets, parseSshTargets } from '../src/ssh-targets.js';
+
+test('parseCommand splits words and honours quotes', () => {
+  assert.deepEqual(parseCommand('  ls   -la\t/data '), {
+    ok: true,
+    argv: ['ls', '-la', '/data'],
+  });
+  assert.deepEqual(parseCommand(`cat '/srv/my notes.txt' "a;b" ''`), {
+    ok: true,
+    argv: ['cat', '/srv/my notes.txt', 'a;b', ''],
+  });
+  assert.deepEqual(parseCommand('up"time"'), { ok: true, argv: ['uptime'] });
+});
+
+test('parseCommand refuses anything the shell would interpret', () => {
+  const refused: Array<[string, RegExp]> = [
+    ['cat /etc/hosts; rm -rf /', /command chaining/],
+    ['uptime && reboot', /command chaining/],
+    ['ps aux | grep ssh', /pipes/],
+    ['cat /etc/hosts > /dev/sda', /redirection/],
+    ['cat $(echo /etc/shadow)', /substitution/],
+    ['cat `id`', /substitution/],
+    ['cat $HOME/.ssh/id_rsa', /substitution/],
+    ['cat "$(id)"', /inside double quotes/],
+    ['cat /var/log/*.log', /globbing/],
+    ['ls /data/{a,b}', /brace expansion/],
+    ['cat ~/.bashrc', /home directory/],
+    ['uptime #comment', /comment/],
+    ['cat /etc/hosts\nreboot', /Line breaks/],
+    ['cat /etc/hosts\x1b[2J', /Control characters/],
+    ['uptime\x7f', /Control characters/],
+    ['uptime\\;reboot', /escapes/],
+    ["cat 'unterminated", /Unterminated ' quote/],
+    ['   ', /empty/],
+  ];
+  for (const [command, reason] of refused) {
+    const parsed = parseCommand(command);
+    assert.equal(parsed.ok, false, command);
+    if (!parsed.ok) assert.match(parsed.reason, reason, command);
+  }
+});
+
+test('formatArgv quotes only words that need it', () => {
+  assert.equal(formatArgv(['ls', '-la', '/data']), 'ls -la /data');
+  assert.equal(
+    formatArgv(['cat', "/srv/it's here"]),
+    `cat '/srv/it'"'"'s here'`,
+  );
+  const roundTrip = parseCommand(formatArgv(['cat', "/srv/it's here"]));
+  assert.deepEqual(roundTrip, { ok: true, argv: ['cat', "/srv/it's here"] });
+});
+
+test('matchCommandRule checks options, paths and numeric limits', () => {
+  const tail: CommandRule = {
+    binary: 'tail',
+    options: { '-n': { maxInt: 500 } },
+    args: [{ pathPrefix: ['/var/log'] }],
+  };
+  const argv = (command: string) => {
+    const parsed = parseCommand(command);
+    assert.ok(parsed.ok);
+    return parsed.argv;
+  };
+
+  assert.deepEqual(matchCommandRule(argv('tail -n 50 /var/log/syslog'), tail), {
+    ok: true,
+  });
+  assert.deepEqual(matchCommandRule(argv('tail -n50 /var/log/syslog'), tail), {
+    ok: true,
+  });
+  assert.deepEqual(
+    matchCommandRule(argv('tail -n 5000 /var/log/syslog'), tail),
+    {
+      ok: false,
+      reason: 'Option -n value 5000 must be at most 500',
+    },
+  );
+  assert.deepEqual(matchCommandRule(argv('tail /etc/shadow'), tail), {
+    ok: false,
+    reason: 'Argument /etc/shadow must be under /var/log',
+  });
+  assert.deepEqual(
+    matchCommandRule(argv('tail /var/log/../../etc/shadow'), tail),
+    {
+      ok: false,
+      reason: 'Argument /var/log/../../etc/shadow must be a normalized path',
+    },
+  );
+  assert.deepEqual(matchCommandRule(argv('tail -f /var/log/syslog'), tail), {
+    ok: false,
+    reason: 'Option -f is not allowed for tail',
+  });
+  assert.deepEqual(matchCommandRule(argv('tail'), tail), {
+    ok: false,
+    reason: 'Missing argument for tail',
+  });
+  assert.deepEqual(matchCommandRule(argv('head /var/log/syslog'), tail), {
+    ok: false,
+    reason: 'Command is not tail',
+  });
+});
+
+test('readonly allowlist is matched over argv, not raw text', () => {
+  assert.equal(
+    isAllowedReadonlyCommand('journalctl -u nginx -n 100 --no-pager'),
+    true,
+  );
+  assert.equal(
+    isAllowedReadonlyCommand('journalctl -u nginx -n 100000'),
+    false,
+  );
+  assert.equal(isAllowedReadonlyCommand('journalctl --no-pager'), false);
+  assert.equal(isAllowedReadonlyCommand('ping -c 3 example.com'), true);
+  assert.equal(isAllowedReadonlyCommand('ping example.com'), false);
+  assert.equal(isAllowedReadonlyCommand("ls -la '/data/music'"), true);
+  assert.equal(isAllowedReadonlyCommand('ls -la /data/../etc'), false);
+  assert.equal(
+    isAllowedReadonlyCommand('systemctl status docker\nreboot'),
+    false,
+  );
+  assert.equal(isAllowedReadonlyCommand('df -hT /data'), true);
+  assert.equal(
+    isAllowedReadonlyCommand('docker ps -a --filter status=exited'),
+    true,
+  );
+  assert.equal(
+    isAllowedReadonlyCommand('docker ps --format {{.Names}}'),
+    false,
+  );
+});
+
+test('target allowlist patterns match the whole command and normalized paths only', (t) => {
+  _setSshTargets(
+    parseSshTargets({
+      targets: [
+        {
+          name: 'william',
+          host: '10.0.0.2',
+          allowlist: ['cat /var/log/[a-z/.]+', 'docker logs nginx'],
+        },
+      ],
+    }),
+  );
+  t.after(() =>
+    _setSshTargets(
+      parseSshTargets({ targets: [{ name: 'william', host: '10.0.0.2' }] }),
+    ),
+  );
+
+  assert.equal(
+    isAllowedReadonlyCommand('cat /var/log/syslog', 'william'),
+    true,
+  );
+  assert.equal(
+    isAllowedReadonlyCommand('docker logs nginx --follow', 'william'),
+    false,
+  );
+  assert.equal(
+    isAllowedReadonlyCommand('sudo docker logs nginx', 'william'),
+    false,
+  );
+  const traversal = checkReadonlyCommand(
+    'cat /var/log/../../etc/shadow',
+    'william',
+  );
+  assert.equal(traversal.allowed, false);
+  assert.equal(
+    traversal.evaluated.at(-2)?.detail,
+    '/var/log/../../etc/shadow is not a normalized path',
+  );
+  assert.equal(unnormalizedPathArg(['ls', '/data//music']), '/data//music');
+  assert.equal(unnormalizedPathArg(['ls', '-la', '/data/music/']), undefined);
+});
@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import { approvalKeywordCommand, type InboundMessage } from '../src/channel.js';
+import { ASSISTANT_NAME, TRIGGER_PATTERN } from '../src/config.js';
+import {
+  _initTestDatabase,
+  getMessagesSince,
+  storeChatMetadata,
+  storeInboundMessage,
+} from '../src/db.js';
+import { SignalChannel } from '../src/signal-channel.js';
+import {
+  parseSignalEnvelope,
+  signalGroupRecipient,
+} from '../src/signal-client.js';
+
+const NUMBER = '+4915100000000';
+
+/** The /v2/send body; GET requests have none. */
+interface SendBody {
+  number: string;
+  recipients: string[];
+  message: string;
+}
+
+interface Request {
+  method: string;
+  url: string;
+  body?: SendBody;
+}
+
+/** A stand-in for signal-cli-rest-api that records every request. */
+async function startFakeSignalApi(
+  t: test.TestContext,
+  inbox: unknown[],
+): Promise<{ url: string; requests: Request[] }> {
+  const requests: Request[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method || '',
+        url: req.url || '',
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const number = encodeURIComponent(NUMBER);
+      res.setHeader('content-type', 'application/json');
+      if (req.url === `/v1/receive/${number}`) {
+        res.end(JSON.stringify(inbox.splice(0)));
+      } else if (req.url === `/v1/groups/${number}`) {
+        res.end(
+          JSON.stringify([{ id: signalGroupRecipient('ops'), name: 'Ops' }]),
+        );
+      } else if (req.url === '/v2/send') {
+        res.statusCode = 201;
+        res.end(JSON.stringify({ timestamp: '1' }));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: 'not found' }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests };
+}
+
+function groupEnvelope(text: string, timestamp: number) {
+  return {
+    envelope: {
+      source: '+4915111111111',
+      sourceNumber: '+4915111111111',
+      sourceName: 'Adam',
+      timestamp,
+      dataMessage: { timestamp, message: text, groupInfo: { groupId: 'ops' } },
+    },
+    account: NUMBER,
+  };
+}
+
+async function receiveMessages(
+  t: test.TestContext,
+  inbox: unknown[],
+  count: number,
+): Promise<{
+  messages: InboundMessage[];
+  channel: SignalChannel;
+  api: Request[];
+}> {
+  const { url, requests } = await startFakeSignalApi(t, inbox);
+  const channel = new SignalChannel({
+    apiUrl: url,
+    number: NUMBER,
+    pollIntervalMs: 10,
+  });
+  t.after(() => channel.stop());
+
+  const messages: InboundMessage[] = [];
+  await new Promise<void>((resolve) => {
+    void channel.start({
+      onMessage: async (message) => {
+        messages.push(message);
+        if (messages.length === count) resolve();
+      },
+      onAction: async () => {},
+    });
+  });
+  return { messages, channel, api: requests };
+}
+
+test('received group messages are stored and matched against the trigger', async (t) => {
+  _initTestDatabase();
+  const { messages } = await receiveMessages(
+    t,
+    [
+      groupEnvelope(`@${ASSISTANT_NAME} check the backups`, 1_700_000_000_000),
+      { envelope: { sourceNumber: '+4915111111111', receiptMessage: {} } },
+    ],
+    1,
+  );
+
+  const [message] = messages;
+  assert.equal(message.chatJid, `signal:${signalGroupRecipient('ops')}`);
+  assert.equal(message.sender, 'Adam');
+  assert.equal(message.senderId, '+4915111111111');
+  assert.equal(message.fromMe, false);
+
+  storeChatMetadata(message.chatJid, message.timestamp.toISOString());
+  storeInboundMessage(message);
+  const stored = getMessagesSince(message.chatJid, '', ASSISTANT_NAME);
+  assert.equal(stored.length, 1);
+  assert.equal(stored[0].content, `@${ASSISTANT_NAME} check the backups`);
+  assert.equal(stored[0].sender_name, 'Adam');
+  assert.ok(TRIGGER_PATTERN.test(stored[0].content));
+});
+
+test('APPROVE and DENY replies reach the router as commands', async (t) => {
+  const { messages } = await receiveMessages(
+    t,
+    [
+      groupEnvelope('APPROVE ap-1-abc 1,3', 1),
+      groupEnvelope('deny ap-2-def too risky', 2),
+      groupEnvelope('approve this plan please', 3),
+    ],
+    3,
+  );
+  assert.deepEqual(
+    messages.map((message) => message.text),
+    [
+      '/approve ap-1-abc 1,3',
+      '/deny ap-2-def too risky',
+      'approve this plan please',
+    ],
+  );
+  assert.equal(
+    approvalKeywordCommand('APPROVE --dry-run ap-1-abc'),
+    '/approve --dry-run ap-1-abc',
+  );
+  assert.equal(approvalKeywordCommand('DENY --dry-run ap-1-abc'), undefined);
+});
+
+test('approval requests and replies are sent to the chat recipient', async (t) => {
+  const { channel, api } = await receiveMessages(
+    t,
+    [groupEnvelope('hi', 1)],
+    1,
+  );
+  const chatJid = `signal:${signalGroupRecipient('ops')}`;
+
+  await channel.sendApprovalRequest(chatJid, {
+    proposalId: 'ap-1-abc',
+    text: 'Approval needed',
+    actionCount: 2,
+  });
+  await channel.sendMessage('signal:+4915111111111', 'Gorky: done');
+
+  const sends = api.filter((request) => request.url === '/v2/send');
+  assert.equal(sends.length, 2);
+  assert.deepEqual(sends[0].body?.recipients, [signalGroupRecipient('ops')]);
+  assert.equal(sends[0].body?.number, NUMBER);
+  const prompt = String(sends[0].body?.message);
+  assert.match(
+    prompt,
+    /^Approval needed\n\nReply APPROVE ap-1-abc or DENY ap-1-abc <reason>\./,
+  );
+  assert.match(prompt, /APPROVE ap-1-abc 1,3 runs only the listed actions/);
+  assert.deepEqual(sends[1].body, {
+    number: NUMBER,
+    recipients: ['+4915111111111'],
+    message: 'Gorky: done',
+  });
+
+  assert.deepEqual(await channel.fetchGroupNames(), { [chatJid]: 'Ops' });
+  await assert.rejects(
+    channel.sendMessage('-100123', 'wrong channel'),
+    /Chat -100123 is not a Signal chat/,
+  );
+});
+
+test('messages sent from a linked device are marked as from the account', () => {
+  const message = parseSignalEnvelope(
+    {
+      envelope: {
+        sourceNumber: NUMBER,
+        timestamp: 5,
+        syncMessage: {
+          sentMessage: { message: 'note to self', destinationNumber: NUMBER },
+        },
+      },
+    },
+    NUMBER,
+  );
+  assert.deepEqual(message && { ...message, timestamp: undefined }, {
+    recipient: NUMBER,
+    text: 'note to self',
+    sender: NUMBER,
+    senderName: NUMBER,
+    timestamp: undefined,
+    fromMe: true,
+  });
+});
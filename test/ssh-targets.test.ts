@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import {
+  isAllowedReadPath,
+  isAllowedReadonlyCommand,
+} from '../src/approved-executor.js';
+import {
+  buildPlanSchemaDescription,
+  parsePlanJson,
+} from '../src/plan-contract.js';
+import {
+  _setSshTargets,
+  loadSshTargets,
+  parseSshTargets,
+} from '../src/ssh-targets.js';
+
+const registry = {
+  targets: [
+    {
+      name: 'nas',
+      host: '10.0.0.5',
+      user: 'backup',
+      tags: ['storage'],
+      allowlist: ['^zpool status$'],
+      readablePaths: ['/var/log/', '/etc/zfs/zed.rc'],
+    },
+  ],
+};
+
+test('parseSshTargets normalizes entries and rejects invalid files', () => {
+  assert.deepEqual(parseSshTargets(registry), [
+    {
+      name: 'nas',
+      host: '10.0.0.5',
+      user: 'backup',
+      keyPath: undefined,
+      tags: ['storage'],
+      allowlist: ['^zpool status$'],
+      readablePaths: ['/var/log/', '/etc/zfs/zed.rc'],
+    },
+  ]);
+  assert.throws(() => parseSshTargets({}), /targets must be an array/);
+  assert.throws(
+    () => parseSshTargets({ targets: [{ name: 'nas' }] }),
+    /host is required/,
+  );
+  assert.throws(
+    () =>
+      parseSshTargets({
+        targets: [registry.targets[0], registry.targets[0]],
+      }),
+    /Duplicate target name/,
+  );
+  assert.throws(
+    () =>
+      parseSshTargets({
+        targets: [{ name: 'nas', host: 'x', allowlist: ['('] }],
+      }),
+    /invalid allowlist pattern/,
+  );
+  assert.throws(
+    () =>
+      parseSshTargets({
+        targets: [{ name: 'nas', host: 'x', readablePaths: ['var/log'] }],
+      }),
+    /must be absolute/,
+  );
+});
+
+test('loadSshTargets falls back to legacy targets but refuses an invalid file', (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssh-targets-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'ssh-targets.json');
+
+  assert.deepEqual(
+    loadSshTargets(file).map((target) => target.name),
+    ['william', 'willy-ubuntu'],
+  );
+  fs.writeFileSync(file, JSON.stringify(registry));
+  assert.deepEqual(
+    loadSshTargets(file).map((target) => target.name),
+    ['nas'],
+  );
+  fs.writeFileSync(file, JSON.stringify({ targets: [{ name: 'nas' }] }));
+  assert.throws(
+    () => loadSshTargets(file),
+    /Invalid SSH target registry .*host is required/,
+  );
+});
+
+test('plan validation and prompt schema follow the registry', () => {
+  _setSshTargets(parseSshTargets(registry));
+  try {
+    const action = {
+      type: 'ssh',
+      command: 'zpool status',
+      requiresApproval: true,
+      reason: 'Check pool health',
+    };
+    assert.ok(
+      parsePlanJson(
+        JSON.stringify({ actions: [{ ...action, target: 'nas' }] }),
+      ),
+    );
+    assert.equal(
+      parsePlanJson(
+        JSON.stringify({ actions: [{ ...action, target: 'william' }] }),
+      ),
+      null,
+    );
+    assert.match(buildPlanSchemaDescription(), /target \(nas \[storage\]\)/);
+  } finally {
+    _setSshTargets(null);
+  }
+});
+
+test('per-target allowlist extends the readonly command allowlist', () => {
+  _setSshTargets(parseSshTargets(registry));
+  try {
+    assert.equal(isAllowedReadonlyCommand('zpool status', 'nas'), true);
+    assert.equal(isAllowedReadonlyCommand('zpool status'), false);
+    assert.equal(
+      isAllowedReadonlyCommand('zpool status; reboot', 'nas'),
+      false,
+    );
+  } finally {
+    _setSshTargets(null);
+  }
+});
+
+test('file_read paths must fall under the target readable paths', () => {
+  _setSshTargets(parseSshTargets(registry));
+  try {
+    assert.equal(isAllowedReadPath('/var/log/syslog', 'nas'), true);
+    assert.equal(isAllowedReadPath('/etc/zfs/zed.rc', 'nas'), true);
+    assert.equal(isAllowedReadPath('/var/logs/secret', 'nas'), false);
+    assert.equal(isAllowedReadPath('/var/log/../../etc/shadow', 'nas'), false);
+    assert.equal(isAllowedReadPath('/etc/zfs/zed.rc.bak', 'nas'), false);
+    assert.equal(isAllowedReadPath('/var/log/syslog', 'william'), false);
+    assert.match(
+      buildPlanSchemaDescription(),
+      /target \(nas: \/var\/log\/, \/etc\/zfs\/zed\.rc\)/,
+    );
+  } finally {
+    _setSshTargets(null);
+  }
+});
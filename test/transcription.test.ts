@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import { ASSISTANT_NAME, TRIGGER_PATTERN } from '../src/config.js';
+import {
+  _initTestDatabase,
+  getMessagesSince,
+  storeChatMetadata,
+  storeInboundMessage,
+} from '../src/db.js';
+import {
+  createTranscriptionProvider,
+  registerTranscriptionProvider,
+  transcribeVoiceNote,
+  type TranscriptionProvider,
+  WhisperCppProvider,
+} from '../src/transcription.js';
+
+function tempDir(t: test.TestContext): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcription-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+function script(dir: string, name: string, body: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+  return file;
+}
+
+function fakeProvider(
+  transcribe: TranscriptionProvider['transcribe'],
+): TranscriptionProvider {
+  return { name: 'fake', transcribe };
+}
+
+test('WhisperCppProvider converts with ffmpeg and reads the whisper.cpp transcript', async (t) => {
+  const dir = tempDir(t);
+  const argsLog = path.join(dir, 'whisper-args');
+  // ffmpeg: copy the input (after -i) to the output (last argument)
+  const ffmpeg = script(
+    dir,
+    'ffmpeg',
+    'while [ "$1" != "-i" ]; do shift; done; in="$2"; for out; do :; done; cp "$in" "$out"',
+  );
+  const whisper = script(
+    dir,
+    'whisper-cli',
+    `echo "$@" > ${argsLog}\nprintf ' ${ASSISTANT_NAME}, check the\\n backups. [BLANK_AUDIO]\\n'`,
+  );
+  const audio = path.join(dir, 'note.oga');
+  fs.writeFileSync(audio, 'opus');
+
+  const provider = new WhisperCppProvider({
+    binary: whisper,
+    model: '/models/ggml-base.bin',
+    ffmpeg,
+    timeoutMs: 10_000,
+  });
+  assert.equal(
+    await provider.transcribe(audio, 'de'),
+    `${ASSISTANT_NAME}, check the backups.`,
+  );
+  assert.equal(
+    fs.readFileSync(argsLog, 'utf8').trim(),
+    `-m /models/ggml-base.bin -f ${audio}.wav -l de -nt -np`,
+  );
+  assert.equal(fs.existsSync(`${audio}.wav`), false);
+
+  const failing = new WhisperCppProvider({
+    binary: script(dir, 'broken', 'echo "model not found" >&2; exit 2'),
+    model: '/missing.bin',
+    ffmpeg,
+    timeoutMs: 10_000,
+  });
+  await assert.rejects(
+    failing.transcribe(audio, 'auto'),
+    /broken failed: model not found/,
+  );
+});
+
+test('voice notes are stored as text with a [voice] marker and the file reference', async (t) => {
+  _initTestDatabase();
+  let downloadDir = '';
+  const text = await transcribeVoiceNote(
+    {
+      fileRef: 'telegram:AwACAgI',
+      durationSeconds: 42,
+      download: async (dir) => {
+        downloadDir = dir;
+        const file = path.join(dir, 'voice.oga');
+        fs.writeFileSync(file, 'opus');
+        return file;
+      },
+    },
+    {
+      provider: fakeProvider(async (audioPath, language) => {
+        assert.equal(fs.readFileSync(audioPath, 'utf8'), 'opus');
+        assert.equal(language, 'en');
+        return `${ASSISTANT_NAME}, are the backups fine?`;
+      }),
+      language: 'en',
+      maxAudioMinutes: 15,
+    },
+  );
+
+  assert.equal(
+    text,
+    `@${ASSISTANT_NAME} are the backups fine?\n[voice 0:42] telegram:AwACAgI`,
+  );
+  // Raw audio is not kept
+  assert.equal(fs.existsSync(downloadDir), false);
+
+  const chatJid = '-100123';
+  storeChatMetadata(chatJid, new Date().toISOString());
+  storeInboundMessage({
+    chatJid,
+    text,
+    id: 'telegram-1',
+    sender: 'adam',
+    senderId: '42',
+    timestamp: new Date(),
+  });
+  const [stored] = getMessagesSince(chatJid, '', ASSISTANT_NAME);
+  assert.equal(stored.content, text);
+  assert.ok(TRIGGER_PATTERN.test(stored.content));
+});
+
+test('audio over STT_MAX_AUDIO_MINUTES is neither downloaded nor transcribed', async () => {
+  let downloaded = false;
+  const text = await transcribeVoiceNote(
+    {
+      fileRef: 'telegram:long',
+      durationSeconds: 16 * 60 + 5,
+      download: async () => {
+        downloaded = true;
+        return '';
+      },
+    },
+    {
+      provider: fakeProvider(async () => assert.fail('must not transcribe')),
+      language: 'auto',
+      maxAudioMinutes: 15,
+    },
+  );
+  assert.equal(downloaded, false);
+  assert.equal(
+    text,
+    '[voice 16:05] telegram:long\nNot transcribed: longer than the 15 minute limit.',
+  );
+});
+
+test('a failing provider still yields a message for the conversation', async () => {
+  const text = await transcribeVoiceNote(
+    {
+      fileRef: 'telegram:bad',
+      durationSeconds: 3,
+      download: async (dir) => path.join(dir, 'missing.oga'),
+    },
+    {
+      provider: fakeProvider(async () => {
+        throw new Error('whisper-cli failed');
+      }),
+      language: 'auto',
+      maxAudioMinutes: 15,
+    },
+  );
+  assert.equal(text, '[voice 0:03] telegram:bad\nTranscription failed.');
+});
+
+test('providers are looked up by STT_PROVIDER name', () => {
+  assert.throws(
+    () => createTranscriptionProvider('openrouter_audio'),
+    /Unknown STT_PROVIDER "openrouter_audio" \(available: whisper_local/,
+  );
+  const custom = fakeProvider(async () => 'hi');
+  registerTranscriptionProvider('custom_test', () => custom);
+  assert.equal(createTranscriptionProvider('custom_test'), custom);
+});
+
+test('an STT_MAX_AUDIO_MINUTES that is not a positive number refuses to start', () => {
+  for (const value of ['abc', '0', '-1', 'Infinity']) {
+    const result = spawnSync(
+      process.execPath,
+      ['--import', 'tsx', '-e', "await import('./src/config.ts')"],
+      {
+        env: { ...process.env, STT_MAX_AUDIO_MINUTES: value },
+        encoding: 'utf8',
+        timeout: 60_000,
+      },
+    );
+    assert.notEqual(result.status, 0);
+    assert.match(
+      result.stderr,
+      new RegExp(
+        `STT_MAX_AUDIO_MINUTES must be a positive number of minutes, got "${value}"`,
+      ),
+    );
+  }
+});
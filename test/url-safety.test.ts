@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import { executeApprovedActions } from '../src/approved-executor.js';
+import {
+  addressBlockReason,
+  checkedLookup,
+  checkWebUrl,
+  checkWebUrlLiteral,
+  fetchWithSafeRedirects,
+  type HostLookup,
+  UnsafeUrlError,
+} from '../src/url-safety.js';
+
+/** Stub resolver: answers from a fixed table, NXDOMAIN for anything else. */
+function stubResolver(records: Record<string, string[]>): HostLookup {
+  return async (hostname) => {
+    const addresses = records[hostname];
+    if (!addresses) throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+    return addresses;
+  };
+}
+
+const resolve = stubResolver({
+  'example.com': ['93.184.215.14', '2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+  'rebind.example': ['10.0.0.5'],
+  'mixed.example': ['93.184.215.14', '127.0.0.1'],
+  'mapped.example': ['::ffff:192.168.1.10'],
+});
+
+test('addressBlockReason covers private, reserved and embedded IPv4 ranges', () => {
+  for (const address of [
+    '10.1.2.3',
+    '127.0.0.1',
+    '100.64.0.1',
+    '169.254.169.254',
+    '172.31.255.255',
+    '192.168.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '64:ff9b::a00:1',
+    '2002:c0a8:0101::1',
+  ]) {
+    assert.notEqual(addressBlockReason(address), null, address);
+  }
+  assert.equal(addressBlockReason('93.184.215.14'), null);
+  assert.equal(addressBlockReason('172.32.0.1'), null);
+  assert.equal(addressBlockReason('2606:4700:4700::1111'), null);
+  assert.equal(
+    addressBlockReason('::ffff:8.8.8.8'),
+    'is an IPv4-mapped IPv6 address',
+  );
+});
+
+test('checkWebUrlLiteral rejects obfuscated IPv4 encodings and mapped IPv6', () => {
+  for (const url of [
+    'http://2130706433/',
+    'http://0x7f000001/',
+    'http://0177.0.0.1/',
+    'http://127.1/',
+    'http://016.8.8.8/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:8.8.8.8]/',
+    'http://metadata.google.internal/',
+    'http://printer.local/',
+    'file:///etc/passwd',
+  ]) {
+    assert.equal(checkWebUrlLiteral(url).ok, false, url);
+  }
+  const decimal = checkWebUrlLiteral('http://134744072/');
+  assert.deepEqual(decimal, {
+    ok: false,
+    reason: 'Host 134744072 uses a non-standard IPv4 encoding',
+  });
+  assert.equal(checkWebUrlLiteral('https://8.8.8.8/dns-query').ok, true);
+  assert.equal(checkWebUrlLiteral('https://example.com/docs').ok, true);
+});
+
+test('checkWebUrl checks every address the hostname resolves to', async () => {
+  assert.equal((await checkWebUrl('https://example.com/', resolve)).ok, true);
+  assert.deepEqual(await checkWebUrl('https://rebind.example/', resolve), {
+    ok: false,
+    reason:
+      'Host rebind.example resolves to 10.0.0.5, which is a private or reserved IPv4 address',
+  });
+  assert.equal(
+    (await checkWebUrl('https://mixed.example/', resolve)).ok,
+    false,
+  );
+  assert.equal(
+    (await checkWebUrl('https://mapped.example/', resolve)).ok,
+    false,
+  );
+  assert.deepEqual(await checkWebUrl('https://missing.example/', resolve), {
+    ok: false,
+    reason:
+      'Host missing.example did not resolve: getaddrinfo ENOTFOUND missing.example',
+  });
+});
+
+test('fetchWithSafeRedirects re-checks every redirect hop', async () => {
+  const requested: string[] = [];
+  const fetchImpl = (async (input: string | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const redirects: Record<string, string> = {
+      'https://example.com/start': '/next',
+      'https://example.com/next': 'https://rebind.example/admin',
+    };
+    return redirects[url]
+      ? new Response(null, {
+          status: 302,
+          headers: { location: redirects[url] },
+        })
+      : new Response('ok', { status: 200 });
+  }) as typeof fetch;
+
+  const ok = await fetchWithSafeRedirects(
+    'https://example.com/next-ok',
+    {},
+    { resolve, fetchImpl },
+  );
+  assert.equal(await ok.text(), 'ok');
+
+  await assert.rejects(
+    fetchWithSafeRedirects(
+      'https://example.com/start',
+      {},
+      { resolve, fetchImpl },
+    ),
+    (err: unknown) =>
+      err instanceof UnsafeUrlError &&
+      err.message.startsWith(
+        'Redirect to https://rebind.example/admin blocked',
+      ),
+  );
+  assert.deepEqual(requested, [
+    'https://example.com/next-ok',
+    'https://example.com/start',
+    'https://example.com/next',
+  ]);
+});
+
+test('checkedLookup hands the checked addresses to the socket', async () => {
+  const lookup = checkedLookup(resolve);
+  const all = await new Promise((done, fail) =>
+    lookup('example.com', { all: true }, (err, addresses) =>
+      err ? fail(err) : done(addresses),
+    ),
+  );
+  assert.deepEqual(all, [
+    { address: '93.184.215.14', family: 4 },
+    { address: '2606:2800:21f:cb07:6820:80da:af6b:8b2c', family: 6 },
+  ]);
+  await assert.rejects(
+    new Promise((done, fail) =>
+      lookup('mixed.example', {}, (err, address) =>
+        err ? fail(err) : done(address),
+      ),
+    ),
+    /Host mixed\.example resolves to 127\.0\.0\.1, which is a private/,
+  );
+});
+
+test('fetchWithSafeRedirects connects only to addresses that pass the check', async (t) => {
+  let requests = 0;
+  const server = http.createServer((_req, res) => {
+    requests += 1;
+    res.end('internal');
+  });
+  await new Promise<void>((done) => server.listen(0, '127.0.0.1', done));
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  // Public for the check, loopback by the time the socket connects
+  const answers = [['93.184.215.14'], ['127.0.0.1']];
+  const rebinding: HostLookup = async () => answers.shift() ?? [];
+
+  await assert.rejects(
+    fetchWithSafeRedirects(
+      `http://rebind.example:${port}/`,
+      {},
+      { resolve: rebinding },
+    ),
+    (err: unknown) =>
+      err instanceof UnsafeUrlError &&
+      err.message ===
+        'Host rebind.example resolves to 127.0.0.1, which is a private or reserved IPv4 address',
+  );
+  assert.equal(requests, 0);
+});
+
+test('executeApprovedActions blocks web_fetch hosts that resolve to private addresses', async () => {
+  const [result] = await executeApprovedActions(
+    [
+      {
+        type: 'web_fetch',
+        url: 'https://rebind.example/',
+        mode: 'http',
+        requiresApproval: true,
+        reason: 'Read status',
+      },
+    ],
+    { resolve },
+  );
+  assert.equal(result.status, 'blocked');
+  assert.match(result.output, /resolves to 10\.0\.0\.5/);
+});